@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "IngredientGroup" ADD COLUMN "position" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Ingredient" ADD COLUMN "position" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "InstructionStep" ADD COLUMN "position" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "TipStep" ADD COLUMN "position" INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill positions from insertion order, which is the order existing rows were saved in.
+UPDATE "IngredientGroup" SET "position" = (
+    SELECT COUNT(*) FROM "IngredientGroup" AS "other"
+    WHERE "other"."recipeId" = "IngredientGroup"."recipeId" AND "other"."rowid" < "IngredientGroup"."rowid"
+);
+
+UPDATE "Ingredient" SET "position" = (
+    SELECT COUNT(*) FROM "Ingredient" AS "other"
+    WHERE "other"."ingredientGroupId" = "Ingredient"."ingredientGroupId" AND "other"."rowid" < "Ingredient"."rowid"
+);
+
+UPDATE "InstructionStep" SET "position" = (
+    SELECT COUNT(*) FROM "InstructionStep" AS "other"
+    WHERE "other"."recipeId" = "InstructionStep"."recipeId" AND "other"."rowid" < "InstructionStep"."rowid"
+);
+
+UPDATE "TipStep" SET "position" = (
+    SELECT COUNT(*) FROM "TipStep" AS "other"
+    WHERE "other"."recipeId" = "TipStep"."recipeId" AND "other"."rowid" < "TipStep"."rowid"
+);
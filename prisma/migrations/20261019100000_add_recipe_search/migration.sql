@@ -0,0 +1,18 @@
+-- CreateVirtualTable
+-- Full-text index over recipe content. Rows are written by the application (see src/lib/search.ts)
+-- with diacritics and ligatures already folded, so "blabaer" matches "blåbær".
+CREATE VIRTUAL TABLE "RecipeSearch" USING fts5(
+    "recipeId" UNINDEXED,
+    "title",
+    "description",
+    "ingredients",
+    "instructions",
+    "tips",
+    tokenize = 'unicode61 remove_diacritics 2'
+);
+
+-- CreateTrigger
+CREATE TRIGGER "RecipeSearch_recipe_delete" AFTER DELETE ON "Recipe"
+BEGIN
+    DELETE FROM "RecipeSearch" WHERE "recipeId" = old."id";
+END;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "unitSystem" TEXT NOT NULL DEFAULT 'original';
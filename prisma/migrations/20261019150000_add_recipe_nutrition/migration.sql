@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "RecipeNutrition" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "calories" REAL NOT NULL,
+    "protein" REAL NOT NULL,
+    "fat" REAL NOT NULL,
+    "carbohydrates" REAL NOT NULL,
+    "fiber" REAL NOT NULL,
+    "salt" REAL NOT NULL,
+    "estimated" BOOLEAN NOT NULL DEFAULT true,
+    "ingredientsHash" TEXT NOT NULL,
+    "calculatedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "recipeId" TEXT NOT NULL,
+    CONSTRAINT "RecipeNutrition_recipeId_fkey" FOREIGN KEY ("recipeId") REFERENCES "Recipe" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecipeNutrition_recipeId_key" ON "RecipeNutrition"("recipeId");
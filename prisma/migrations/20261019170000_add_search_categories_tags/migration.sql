@@ -0,0 +1,16 @@
+-- RecreateVirtualTable
+-- FTS5 tables can't gain columns, so the index is recreated with category and tag names.
+-- It starts empty and is filled again from the recipes on the next search (see src/lib/search.ts).
+DROP TABLE "RecipeSearch";
+
+CREATE VIRTUAL TABLE "RecipeSearch" USING fts5(
+    "recipeId" UNINDEXED,
+    "title",
+    "description",
+    "ingredients",
+    "instructions",
+    "tips",
+    "categories",
+    "tags",
+    tokenize = 'unicode61 remove_diacritics 2'
+);
@@ -0,0 +1,59 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { FAKE_FIXTURES } from "@/ai/fake-provider";
+
+// The provider is chosen when `@/ai/genkit` is first loaded, so the flows are imported after setting it.
+process.env.AI_PROVIDER = "fake";
+
+let flows: {
+  parseRecipeFromText: typeof import("@/ai/flows/parse-recipe-from-text-flow").parseRecipeFromText;
+  ocrAndParseRecipeFromImage: typeof import("@/ai/flows/ocr-and-parse-recipe-flow").ocrAndParseRecipeFromImage;
+  estimateNutrition: typeof import("@/ai/flows/estimate-nutrition-flow").estimateNutrition;
+};
+
+beforeAll(async () => {
+  const [{ parseRecipeFromText }, { ocrAndParseRecipeFromImage }, { estimateNutrition }] = await Promise.all([
+    import("@/ai/flows/parse-recipe-from-text-flow"),
+    import("@/ai/flows/ocr-and-parse-recipe-flow"),
+    import("@/ai/flows/estimate-nutrition-flow"),
+  ]);
+  flows = { parseRecipeFromText, ocrAndParseRecipeFromImage, estimateNutrition };
+});
+
+describe("flows with the fake AI provider", () => {
+  it("parses recipe text into a structured recipe", async () => {
+    const recipe = await flows.parseRecipeFromText({ inputText: FAKE_FIXTURES["recipe-text"] as string });
+
+    expect(recipe).toEqual(FAKE_FIXTURES.recipe);
+    expect(recipe.title).toBe("Eplekake");
+    expect(recipe.ingredientGroups[0].ingredients[0]).toEqual({ name: "smør", quantity: "250", unit: "g" });
+    expect(recipe.instructions).toHaveLength(4);
+    expect(recipe.servingsUnit).toBe("servings");
+  });
+
+  it("reads a recipe photo and parses the text it found", async () => {
+    const recipe = await flows.ocrAndParseRecipeFromImage({
+      imageDataUri: FAKE_FIXTURES.image as string,
+      userLanguageCode: "no",
+    });
+
+    expect(recipe.title).toBe("Eplekake");
+    expect(recipe.ingredientGroups[0].ingredients).toHaveLength(6);
+    expect(recipe.instructions.every(step => typeof step.text === "string" && step.text.length > 0)).toBe(true);
+  });
+
+  it("estimates nutrition per serving", async () => {
+    const nutrition = await flows.estimateNutrition({
+      ingredientGroups: [{ name: "Ingredienser", ingredients: [{ name: "smør", quantity: "250", unit: "g" }] }],
+      servingsValue: 12,
+    });
+
+    expect(nutrition).toEqual(FAKE_FIXTURES.nutrition);
+    for (const key of ["calories", "protein", "fat", "carbohydrates", "fiber", "salt"] as const) {
+      expect(nutrition[key]).toBeTypeOf("number");
+    }
+  });
+
+  it("rejects input the flow's schema doesn't accept", async () => {
+    await expect(flows.parseRecipeFromText({ inputText: "too short" })).rejects.toThrow();
+  });
+});
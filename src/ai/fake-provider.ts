@@ -0,0 +1,88 @@
+/**
+ * @fileOverview A Genkit plugin whose models answer with fixed fixtures instead of calling
+ * a service, so the flows can be run offline (`AI_PROVIDER=fake`), e.g. from the Genkit
+ * developer UI or in tests.
+ *
+ * The model name picks the fixture: `fake/recipe` answers with a parsed recipe,
+ * `fake/recipe-text` with text as if read from a photo of one, `fake/image` with a
+ * picture and `fake/nutrition` with a nutrition estimate. Objects are returned as JSON,
+ * which is what the flows ask for when they expect structured output, and data URIs as
+ * media. `fake-provider.test.ts` runs the flows against these fixtures.
+ */
+
+import { genkitPluginV2, model } from 'genkit/plugin';
+
+export const FAKE_FIXTURES: Record<string, string | object> = {
+  recipe: {
+    title: 'Eplekake',
+    description: 'A moist apple cake for autumn.',
+    ingredientGroups: [
+      {
+        name: 'Ingredienser',
+        ingredients: [
+          { name: 'smør', quantity: '250', unit: 'g' },
+          { name: 'sukker', quantity: '2.5', unit: 'dl' },
+          { name: 'egg', quantity: '5' },
+          { name: 'hvetemel', quantity: '250', unit: 'g' },
+          { name: 'bakepulver', quantity: '1 1/4', unit: 'ts' },
+          { name: 'epler (gjerne gule)', quantity: '4-5' },
+        ],
+      },
+    ],
+    instructions: [
+      { text: 'Rør smør og sukker hvitt.' },
+      { text: 'Tilsett eggene ett og ett.' },
+      { text: 'Sikt inn mel og bakepulver og rør til en jevn røre.' },
+      { text: 'Fordel røren i formen, legg epler på toppen og stek i 45 minutter ved 175 °C.' },
+    ],
+    tips: [{ text: 'Server med vaniljesaus.' }],
+    servingsValue: 12,
+    servingsUnit: 'servings',
+    prepTime: '20 minutes',
+    cookTime: '45 minutes',
+    tags: 'kake, høst',
+    categories: 'Kaker',
+  },
+  'recipe-text': `Eplekake
+
+250 g smør
+2,5 dl sukker
+5 egg
+250 g hvetemel
+1 1/4 ts bakepulver
+4–5 epler (gjerne gule)
+
+1. Rør smør og sukker hvitt.
+2. Tilsett eggene ett og ett.
+3. Sikt inn mel og bakepulver og rør til en jevn røre.
+4. Fordel røren i formen, legg epler på toppen og stek i 45 minutter ved 175 °C.`,
+  nutrition: { calories: 412, protein: 5.8, fat: 21.5, carbohydrates: 48.2, fiber: 1.9, salt: 0.4 },
+  // A 16×9 warm brown PNG.
+  image: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAABAAAAAJCAIAAAC0SDtlAAAAE0lEQVR42mPo8tYiCTGMahgUGgDK5o9xeiDY3gAAAABJRU5ErkJggg==',
+};
+
+export const fakeProvider = genkitPluginV2({
+  name: 'fake',
+  resolve: (actionType, name) => {
+    if (actionType !== 'model') return undefined;
+    const fixture = FAKE_FIXTURES[name];
+    return model(
+      {
+        name: `fake/${name}`,
+        label: `Fake - ${name}`,
+        supports: { multiturn: true, media: true, systemRole: true, output: ['text', 'json'], constrained: 'all' },
+      },
+      async () => {
+        if (fixture === undefined) {
+          throw new Error(`The fake AI provider has no fixture named "${name}".`);
+        }
+        if (typeof fixture === 'string' && fixture.startsWith('data:')) {
+          const contentType = fixture.slice(5, fixture.indexOf(';'));
+          return { message: { role: 'model', content: [{ media: { url: fixture, contentType } }] }, finishReason: 'stop' };
+        }
+        const text = typeof fixture === 'string' ? fixture : JSON.stringify(fixture);
+        return { message: { role: 'model', content: [{ text }] }, finishReason: 'stop' };
+      }
+    );
+  },
+});
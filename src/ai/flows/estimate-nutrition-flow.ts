@@ -0,0 +1,78 @@
+/**
+ * @fileOverview An AI agent that estimates a recipe's nutrition per serving from its
+ * ingredients. The result is a guess, and is stored and shown as one (see `@/lib/recipe-nutrition`).
+ *
+ * - estimateNutrition - Estimates calories, protein, fat, carbohydrates, fiber and salt per serving.
+ * - EstimateNutritionInput - The input type.
+ * - EstimateNutritionOutput - The return type.
+ */
+
+import { ai } from '@/ai/genkit';
+import { modelFor } from '@/ai/providers';
+import { z } from 'genkit';
+
+const EstimateNutritionInputSchema = z.object({
+  ingredientGroups: z.array(
+    z.object({
+      name: z.string().optional(),
+      ingredients: z.array(z.object({ name: z.string(), quantity: z.string(), unit: z.string() })),
+    })
+  ).describe('The recipe\'s ingredients, in groups, with quantities as written in the recipe.'),
+  servingsValue: z.number().positive().describe('How many servings (or pieces) the ingredients make.'),
+});
+export type EstimateNutritionInput = z.infer<typeof EstimateNutritionInputSchema>;
+
+const EstimateNutritionOutputSchema = z.object({
+  calories: z.number().nonnegative().describe('Energy per serving, in kcal.'),
+  protein: z.number().nonnegative().describe('Protein per serving, in grams.'),
+  fat: z.number().nonnegative().describe('Fat per serving, in grams.'),
+  carbohydrates: z.number().nonnegative().describe('Carbohydrates per serving, in grams.'),
+  fiber: z.number().nonnegative().describe('Dietary fiber per serving, in grams.'),
+  salt: z.number().nonnegative().describe('Salt per serving, in grams (sodium × 2.5).'),
+});
+export type EstimateNutritionOutput = z.infer<typeof EstimateNutritionOutputSchema>;
+
+export async function estimateNutrition(input: EstimateNutritionInput): Promise<EstimateNutritionOutput> {
+  return estimateNutritionFlow(input);
+}
+
+const nutritionEstimatorPrompt = ai.definePrompt({
+  name: 'nutritionEstimatorPrompt',
+  input: { schema: EstimateNutritionInputSchema },
+  output: { schema: EstimateNutritionOutputSchema },
+  prompt: `You are a nutritionist. Estimate the nutrition of ONE serving of a recipe from its ingredient list.
+
+INSTRUCTIONS:
+1.  Work out the weight of each ingredient from its quantity and unit. Units may be Norwegian, English or Spanish (e.g. "ss" = tablespoon, "ts" = teaspoon, "dl" = decilitre, "stk" = piece, "klype" = pinch). Use typical weights for pieces, e.g. a medium egg or onion.
+2.  Use standard food composition values for each ingredient as it is bought (raw, unless the name says otherwise).
+3.  Add up the whole recipe, then divide by the number of servings: {{servingsValue}}.
+4.  Ingredients without a quantity ("salt and pepper", "oil for frying") count as a small, typical amount.
+5.  Give salt as salt, not sodium. Round to one decimal; calories to whole numbers.
+
+Ingredients:
+{{#each ingredientGroups}}
+{{#if name}}{{name}}:
+{{/if}}{{#each ingredients}}- {{quantity}} {{unit}} {{name}}
+{{/each}}
+{{/each}}
+
+Output JSON:
+`,
+});
+
+const estimateNutritionFlow = ai.defineFlow(
+  {
+    name: 'estimateNutritionFlow',
+    inputSchema: EstimateNutritionInputSchema,
+    outputSchema: EstimateNutritionOutputSchema,
+  },
+  async (input: EstimateNutritionInput) => {
+    const { output } = await nutritionEstimatorPrompt(input, {
+      model: modelFor('estimateNutrition'),
+    });
+    if (!output) {
+      throw new Error('AI did not return a nutrition estimate.');
+    }
+    return output;
+  }
+);
@@ -9,6 +9,7 @@
  */
 
 import { ai } from '@/ai/genkit';
+import { modelFor } from '@/ai/providers';
 import { z } from 'genkit';
 import { type ParseRecipeOutput } from './parse-recipe-from-text-flow'; // Import only the type
 
@@ -80,7 +81,7 @@ const ocrAndParseRecipeFlow = ai.defineFlow(
       for (let attempt = 0; attempt <= maxRetries; attempt++) {
         try {
           const generationResult = await ai.generate({
-            model: 'mistral-large-latest',
+            model: modelFor('ocrRecipe'),
             prompt: [
               { text: "Extract all text from the following image. Present the text as clearly as possible for recipe parsing." },
               { media: { url: input.imageDataUri } }
@@ -175,7 +176,7 @@ Output JSON:
 `,
       });
       
-      const { output: parsedOutput } = await recipeParserPromptForOcr(parsingInput);
+      const { output: parsedOutput } = await recipeParserPromptForOcr(parsingInput, { model: modelFor('parseRecipe') });
 
       if (!parsedOutput) {
         throw new Error('AI did not return structured recipe data after OCR parsing.');
@@ -1,19 +1,20 @@
 'use server';
 /**
- * @fileOverview An AI agent that parses recipe text or a recipe URL
- * and attempts to structure it into a recipe form.
+ * @fileOverview An AI agent that parses recipe text, pasted or taken from a web page
+ * (see `importRecipeFromUrl`), and attempts to structure it into a recipe form.
  *
- * - parseRecipeFromText - Parses recipe input (text or URL) into structured data.
+ * - parseRecipeFromText - Parses recipe text into structured data.
  * - ParseRecipeInput - The input type.
  * - ParseRecipeOutput - The return type (structured recipe data).
  */
 
 import { ai } from '@/ai/genkit';
+import { modelFor } from '@/ai/providers';
 import { z } from 'genkit';
 
 // Define Input Schema
 const ParseRecipeInputSchema = z.object({
-  inputText: z.string().min(10, {message: "Input text is too short to be a valid recipe or URL."}).describe('The recipe text to parse, or a URL to a recipe page. The AI will attempt to fetch and parse content if a URL is provided, or parse the direct text.'),
+  inputText: z.string().min(10, {message: "Input text is too short to be a valid recipe."}).describe('The recipe text to parse: pasted by the user, or the text of a fetched recipe page.'),
 });
 export type ParseRecipeInput = z.infer<typeof ParseRecipeInputSchema>;
 
@@ -49,8 +50,8 @@ const ParsedRecipeOutputSchema = z.object({
   cookTime: z.string().optional().describe("The cooking time, if specified in the source (e.g., '45 mins', '2 hours')."),
   tags: z.string().optional().describe("Relevant tags for the recipe, as a single comma-separated string (e.g., 'easy, quick, dessert'). Extract if obvious or explicitly listed in the source."),
   categories: z.string().optional().describe("Relevant categories for the recipe, as a single comma-separated string (e.g., 'Cakes, Norwegian, Baking'). Extract if obvious or explicitly listed in the source."),
-  sourceUrl: z.string().optional().describe("If the `inputText` appears to be a valid HTTP/HTTPS URL, this field should contain that exact URL. Otherwise, this field should be omitted or undefined."),
-  extractedImageUrl: z.string().optional().describe("If the input was a URL, this should be the URL of the main recipe image found on the page. Prioritize 'og:image' meta tags, then the most prominent image clearly associated with the recipe title or content. Ensure it's a direct image file link (e.g., .jpg, .png). Otherwise, omit this field."),
+  sourceUrl: z.string().optional().describe("Omit this field. It is set by the application for recipes fetched from a URL."),
+  extractedImageUrl: z.string().optional().describe("Omit this field. It is set by the application from the fetched page's og:image."),
 });
 export type ParseRecipeOutput = z.infer<typeof ParsedRecipeOutputSchema>;
 
@@ -65,16 +66,16 @@ const recipeParserPrompt = ai.definePrompt({
   name: 'recipeParserPrompt',
   input: { schema: ParseRecipeInputSchema },
   output: { schema: ParsedRecipeOutputSchema },
-  prompt: `You are an expert recipe parsing assistant. Your SOLE TASK is to ACCURATELY EXTRACT information from the provided input (raw text or content fetched from a URL) and structure it into a JSON object matching the provided schema.
+  prompt: `You are an expert recipe parsing assistant. Your SOLE TASK is to ACCURATELY EXTRACT information from the provided input (raw recipe text, or the text of a recipe web page) and structure it into a JSON object matching the provided schema.
 
 CRITICAL INSTRUCTIONS:
-1.  **ONLY EXTRACT:** Only extract information explicitly present in the source text or the content of the fetched URL.
+1.  **ONLY EXTRACT:** Only extract information explicitly present in the source text.
 2.  **DO NOT INVENT OR MODIFY:** Do NOT invent, infer, add, or modify any information that is not directly found in the source. Do not attempt to 'complete' or 'enhance' the recipe.
 3.  **ACCURACY IS PARAMOUNT:** Prioritize accuracy and fidelity to the source content above all else.
 4.  **OMIT IF NOT FOUND:** If information for a field is not present in the source, omit the corresponding optional field or leave it empty according to the JSON schema. Do NOT guess or provide default values unless the schema description explicitly allows a default for ambiguous cases (e.g., servingsUnit).
-5.  **URLS:** If the input is a URL, fetch its content and parse information ONLY from that fetched content.
+5.  **WEB PAGES:** Text taken from a web page may also contain leftovers such as menus, comments, ads or other recipes. Extract ONLY the main recipe and ignore the rest.
 
-Input text/URL:
+Input text:
 \`\`\`
 {{{inputText}}}
 \`\`\`
@@ -97,24 +98,11 @@ Carefully extract the following information based STRICTLY on the source:
 - **cookTime**: Cooking time, if specified.
 - **tags**: Comma-separated tags, if any are explicitly listed.
 - **categories**: Comma-separated categories, if any are explicitly listed.
-- **sourceUrl**: If the \`inputText\` provided above is a valid HTTP or HTTPS URL, set this field to that exact URL. Otherwise, this field should be omitted.
-- **extractedImageUrl**: IMPORTANT: If the \`inputText\` is a URL, attempt to extract the URL of the primary image for the recipe from the fetched page content. Prioritize as follows:
-    1.  The URL specified in an 'og:image' meta tag.
-    2.  If no 'og:image' tag, look for the most prominent image directly associated with the recipe content.
-    3.  Ensure the URL is a direct link to an image file (e.g., ending in .jpg, .png, .webp).
-    If a relevant image URL is found, include it. Otherwise, omit this field.
+- **sourceUrl** and **extractedImageUrl**: Always omit these fields.
 
 Ensure the output strictly adheres to the JSON schema.
 The language of the output fields (like ingredient group names if you generate them) should match the language of the input recipe if discernible and specified in the source (e.g., use "Ingredienser" for Norwegian recipes if that term is used or clearly implied for an unnamed group).
 
-Example for a URL like 'https://www.godt.no/oppskrifter/kaker/kremkaker/8895/marengsrull-med-sitronkrem-og-bringebaer':
-- sourceUrl should be 'https://www.godt.no/oppskrifter/kaker/kremkaker/8895/marengsrull-med-sitronkrem-og-bringebaer'.
-- Title should be 'Marengsrull med sitronkrem og bringebær' (if that's on the page).
-- Ingredients like "150 g eggehviter" should be: name: "eggehviter", quantity: "150", unit: "g".
-- "3 dl sukker" should be: name: "sukker", quantity: "3", unit: "dl".
-- "Saften av 1 stk sitron" should be name: "sitron", quantity: "1", unit: "stk saften av".
-- extractedImageUrl: Try to find the main recipe image URL from this page.
-
 For the 'Eplekake' text example:
 - sourceUrl should be undefined or omitted.
 - extractedImageUrl should be undefined or omitted.
@@ -141,7 +129,7 @@ const parseRecipeFlow = ai.defineFlow(
   async (input: ParseRecipeInput) => {
     try {
       const { output } = await recipeParserPrompt(input, {
-        model: 'mistral-large-latest'
+        model: modelFor('parseRecipe')
       });
       if (!output) {
         throw new Error('AI did not return structured recipe data.');
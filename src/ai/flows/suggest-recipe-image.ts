@@ -1,19 +1,24 @@
 'use server';
 
 /**
- * @fileOverview An AI agent that suggests a relevant image for a recipe based on its title
- * and returns it as a data URI.
+ * @fileOverview Suggests an image for a recipe from its title and category: a generated
+ * picture, a stock photo or an illustrated placeholder, depending on which image backends
+ * are configured (see `@/ai/image-backends`).
  *
  * - suggestRecipeImage - A function that handles the image suggestion process.
  * - SuggestRecipeImageInput - The input type for the suggestRecipeImage function.
  * - SuggestRecipeImageOutput - The return type for the suggestRecipeImage function.
  */
 
+import {getServerSession} from 'next-auth/next';
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {suggestImage} from '@/ai/image-backends';
+import {authOptions} from '@/lib/auth';
 
 const SuggestRecipeImageInputSchema = z.object({
-  recipeTitle: z.string().describe('The title of the recipe.'),
+  recipeTitle: z.string().min(1).describe('The title of the recipe.'),
+  category: z.string().optional().describe("The recipe's first category, which picks the placeholder's colours."),
 });
 export type SuggestRecipeImageInput = z.infer<typeof SuggestRecipeImageInputSchema>;
 
@@ -21,12 +26,22 @@ const SuggestRecipeImageOutputSchema = z.object({
   imageUri: z
     .string()
     .describe(
-      "A data URI of the suggested image. The image should visually represent the recipe based on its title. CRITICAL: The generated image MUST NOT contain any text, words, letters, or typography. It should be in a landscape orientation (e.g., 16:9 aspect ratio), be LOW-RESOLUTION, and have a SMALL FILE SIZE (ideally under 500KB) to be stored directly. Expected format: 'data:<mimetype>;base64,<encoded_data>'."
+      "The suggested image: a data URI ('data:<mimetype>;base64,<encoded_data>') for generated pictures and placeholders, or an https URL for stock photos."
     ),
+  source: z.enum(['generation', 'stock', 'placeholder']).describe('Which backend the image came from.'),
+  attribution: z
+    .object({name: z.string(), url: z.string()})
+    .optional()
+    .describe("The stock photo's photographer and page, to be credited next to the image."),
 });
 export type SuggestRecipeImageOutput = z.infer<typeof SuggestRecipeImageOutputSchema>;
 
 export async function suggestRecipeImage(input: SuggestRecipeImageInput): Promise<SuggestRecipeImageOutput> {
+  // Generated pictures and stock photos draw on the configured quota, so only signed-in users get them.
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    throw new Error('You must be signed in to suggest an image.');
+  }
   return suggestRecipeImageFlow(input);
 }
 
@@ -37,44 +52,6 @@ const suggestRecipeImageFlow = ai.defineFlow(
     outputSchema: SuggestRecipeImageOutputSchema,
   },
   async (input: SuggestRecipeImageInput) => {
-    // NOTE: Mistral AI does not currently offer image generation capabilities like Google Gemini.
-    // This function would need to be reimplemented using a different service for image generation.
-    // Options include:
-    // 1. OpenAI DALL-E
-    // 2. Stability AI
-    // 3. Replicate
-    // 4. Remove image generation and use placeholder images instead
-    
-    console.warn('[suggestRecipeImageFlow] Mistral AI does not support image generation. This feature needs to be reimplemented with an alternative service.');
-    
-    try {
-      // For now, return a placeholder approach
-      // In a real implementation, you would integrate with a different image generation service
-      throw new Error('Image generation not available with Mistral AI. Please integrate with an alternative image generation service like OpenAI DALL-E, Stability AI, or use placeholder images.');
-      
-      /* 
-      // Example implementation with OpenAI DALL-E (uncomment and implement if using OpenAI):
-      const {media} = await ai.generate({
-        model: 'openai/dall-e-3',
-        prompt: `IMPORTANT: Generate a PURELY VISUAL, LOW-RESOLUTION image (ABSOLUTELY NO TEXT, NO WORDS, NO LETTERS, NO TYPOGRAPHY) that represents the recipe titled: "${input.recipeTitle}". The image should be in landscape orientation, wider than it is tall, for example with a 16:9 aspect ratio. CRITICAL: The image MUST have a small file size, suitable for a data URI and ideally under 500KB.`,
-        config: {
-          responseModalities: ['TEXT', 'IMAGE'],
-        },
-      });
-
-      if (!media || !media.url || !media.url.startsWith('data:')) {
-          console.error('[suggestRecipeImageFlow] AI did not return a valid data URI for the image. Media object:', media);
-          throw new Error('AI did not return a valid data URI for the image.');
-      }
-      
-      console.log(`[suggestRecipeImageFlow] Successfully generated image for title: "${input.recipeTitle}", Data URI length: ${media?.url?.length}`);
-      return {imageUri: media?.url || ''};
-      */
-
-    } catch (error) {
-      console.error('[suggestRecipeImageFlow] Error during image generation:', error);
-      // Re-throw the original error to be handled by the calling component
-      throw error;
-    }
+    return suggestImage(input);
   }
 );
@@ -1,7 +1,7 @@
 import {genkit} from 'genkit';
-import {mistral} from 'genkitx-mistral';
+import {configuredPlugins, modelFor} from '@/ai/providers';
 
 export const ai = genkit({
-  plugins: [mistral()],
-  model: 'mistral-large-latest',
+  plugins: configuredPlugins(),
+  model: modelFor('parseRecipe'),
 });
@@ -0,0 +1,104 @@
+/**
+ * @fileOverview Where recipe image suggestions come from. `IMAGE_SUGGESTION_BACKENDS` lists
+ * them in the order to try (default `generation,stock,placeholder`):
+ *
+ *   generation   draws a picture with the AI image model (see `AI_IMAGE_MODEL`)
+ *   stock        searches Pexels for a photo of the dish; needs PEXELS_API_KEY
+ *   placeholder  a generated illustration in the category's colours; always available
+ *
+ * Backends that aren't set up are skipped, and the placeholder is always the last resort.
+ */
+
+import { ai } from '@/ai/genkit';
+import { hasModelFor, modelFor } from '@/ai/providers';
+import { placeholderImageUri } from '@/lib/placeholder-image';
+
+export type ImageBackendName = 'generation' | 'stock' | 'placeholder';
+
+export interface ImageRequest {
+  recipeTitle: string;
+  category?: string;
+}
+
+export interface ImageSuggestion {
+  imageUri: string; // A data URI, or an https URL for stock photos
+  source: ImageBackendName;
+  attribution?: { name: string; url: string }; // Credit the stock photo's photographer
+}
+
+interface ImageBackend {
+  isAvailable: () => boolean;
+  suggest: (request: ImageRequest) => Promise<ImageSuggestion | null>;
+}
+
+const STOCK_SEARCH_URL = 'https://api.pexels.com/v1/search';
+const STOCK_TIMEOUT_MS = 8_000;
+
+async function generateImage({ recipeTitle }: ImageRequest): Promise<ImageSuggestion | null> {
+  const { media } = await ai.generate({
+    model: modelFor('suggestImage'),
+    prompt: `IMPORTANT: Generate a PURELY VISUAL image (ABSOLUTELY NO TEXT, NO WORDS, NO LETTERS, NO TYPOGRAPHY) of the finished dish for the recipe titled: "${recipeTitle}". Appetizing food photography, natural light, in landscape orientation, wider than it is tall.`,
+  });
+  if (!media?.url) {
+    console.error('[imageBackends] The image model returned no image. Media object:', media);
+    return null;
+  }
+  return { imageUri: media.url, source: 'generation' };
+}
+
+async function searchStockPhoto({ recipeTitle }: ImageRequest): Promise<ImageSuggestion | null> {
+  const query = new URLSearchParams({ query: recipeTitle, orientation: 'landscape', per_page: '1' });
+  const response = await fetch(`${STOCK_SEARCH_URL}?${query}`, {
+    headers: { Authorization: process.env.PEXELS_API_KEY! },
+    signal: AbortSignal.timeout(STOCK_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`Stock photo search failed with HTTP ${response.status}.`);
+  }
+  const photo = (await response.json()).photos?.[0];
+  if (!photo?.src?.landscape) return null;
+  return {
+    imageUri: photo.src.landscape,
+    source: 'stock',
+    attribution: { name: photo.photographer, url: photo.url },
+  };
+}
+
+const BACKENDS: Record<ImageBackendName, ImageBackend> = {
+  generation: { isAvailable: () => hasModelFor('suggestImage'), suggest: generateImage },
+  stock: { isAvailable: () => !!process.env.PEXELS_API_KEY, suggest: searchStockPhoto },
+  placeholder: {
+    isAvailable: () => true,
+    suggest: async ({ recipeTitle, category }) => ({ imageUri: placeholderImageUri(recipeTitle, category), source: 'placeholder' }),
+  },
+};
+
+const isBackendName = (name: string): name is ImageBackendName => name in BACKENDS;
+
+function configuredBackends(): ImageBackendName[] {
+  const names = (process.env.IMAGE_SUGGESTION_BACKENDS || 'generation,stock,placeholder')
+    .split(',')
+    .map(name => name.trim())
+    .filter(Boolean);
+  const unknown = names.filter(name => !isBackendName(name));
+  if (unknown.length > 0) {
+    console.warn(`[imageBackends] Ignoring unknown image suggestion backends: ${unknown.join(', ')}`);
+  }
+  return Array.from(new Set([...names.filter(isBackendName), 'placeholder' as const]));
+}
+
+/** Asks each available backend in turn; a backend that fails or finds nothing passes to the next. */
+export async function suggestImage(request: ImageRequest): Promise<ImageSuggestion> {
+  for (const name of configuredBackends()) {
+    const backend = BACKENDS[name];
+    if (!backend.isAvailable()) continue;
+    try {
+      const suggestion = await backend.suggest(request);
+      if (suggestion) return suggestion;
+    } catch (error) {
+      console.warn(`[imageBackends] The ${name} backend failed; trying the next one.`, error);
+    }
+  }
+  // Unreachable, as the placeholder always answers; kept for the type checker.
+  return BACKENDS.placeholder.suggest(request) as Promise<ImageSuggestion>;
+}
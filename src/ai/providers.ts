@@ -0,0 +1,135 @@
+/**
+ * @fileOverview Chooses the AI service and models the flows use, from the environment:
+ *
+ *   AI_PROVIDER                  mistral (default), ollama, openai-compatible or fake
+ *   AI_TEXT_MODEL                model for reading and structuring text; defaults per provider
+ *   AI_VISION_MODEL              model that reads images; defaults per provider
+ *   AI_IMAGE_MODEL               model that draws images; only some providers have one
+ *   AI_PARSE_RECIPE_MODEL        overrides the text model for recipe parsing
+ *   AI_OCR_RECIPE_MODEL          overrides the vision model for reading recipe photos
+ *   AI_SUGGEST_IMAGE_MODEL       overrides the image model for recipe image suggestions
+ *   AI_ESTIMATE_NUTRITION_MODEL  overrides the text model for nutrition estimates
+ *
+ *   MISTRAL_API_KEY                                          for mistral
+ *   OLLAMA_SERVER_ADDRESS                                    for ollama, default http://localhost:11434
+ *   OPENAI_COMPATIBLE_BASE_URL, OPENAI_COMPATIBLE_API_KEY    for openai-compatible
+ *
+ * A model may be prefixed with another provider, e.g. `AI_OCR_RECIPE_MODEL=ollama/llava`,
+ * to run one flow on a different service; every provider that is named gets loaded.
+ */
+
+import type { GenkitPlugin, GenkitPluginV2 } from 'genkit/plugin';
+import { mistral } from 'genkitx-mistral';
+import { ollama } from 'genkitx-ollama';
+import { compatOaiImageModelRef, compatOaiModelRef, defineCompatOpenAIImageModel, defineCompatOpenAIModel, openAICompatible } from '@genkit-ai/compat-oai';
+import { fakeProvider } from '@/ai/fake-provider';
+
+export type AiProviderName = 'mistral' | 'ollama' | 'openai-compatible' | 'fake';
+
+export type AiFlow = 'parseRecipe' | 'ocrRecipe' | 'suggestImage' | 'estimateNutrition';
+
+type ModelKind = 'text' | 'vision' | 'image';
+
+interface AiProvider {
+  plugin: () => GenkitPlugin | GenkitPluginV2;
+  models: Partial<Record<ModelKind, string>>;
+  flowModels?: Partial<Record<AiFlow, string>>; // Defaults for single flows that differ from their kind's
+}
+
+const PROVIDERS: Record<AiProviderName, AiProvider> = {
+  mistral: {
+    plugin: () => mistral(),
+    models: { text: 'mistral-large', vision: 'pixtral-large' },
+  },
+  ollama: {
+    plugin: () => ollama({ serverAddress: process.env.OLLAMA_SERVER_ADDRESS || undefined }),
+    models: { text: 'llama3.1', vision: 'llava' },
+  },
+  'openai-compatible': {
+    plugin: () => openAICompatible({
+      name: 'openai-compatible',
+      baseURL: process.env.OPENAI_COMPATIBLE_BASE_URL,
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || false, // Local servers often need none
+      // The API can't tell chat models from image models, so the configured image model is the one that draws.
+      resolver: (client, actionType, name) => {
+        if (actionType !== 'model') return undefined;
+        const imageModel = configuredModel('suggestImage');
+        const namespace = 'openai-compatible';
+        return imageModel?.provider === namespace && imageModel.name === name
+          ? defineCompatOpenAIImageModel({ name: `${namespace}/${name}`, client, modelRef: compatOaiImageModelRef({ name, namespace }) })
+          : defineCompatOpenAIModel({ name: `${namespace}/${name}`, client, modelRef: compatOaiModelRef({ name, namespace }) });
+      },
+    }),
+    models: { text: 'gpt-4o-mini', vision: 'gpt-4o-mini', image: 'dall-e-3' },
+  },
+  fake: {
+    plugin: () => fakeProvider,
+    models: { text: 'recipe', vision: 'recipe-text', image: 'image' },
+    flowModels: { estimateNutrition: 'nutrition' },
+  },
+};
+
+const FLOW_MODELS: Record<AiFlow, { kind: ModelKind; env: string }> = {
+  parseRecipe: { kind: 'text', env: 'AI_PARSE_RECIPE_MODEL' },
+  ocrRecipe: { kind: 'vision', env: 'AI_OCR_RECIPE_MODEL' },
+  suggestImage: { kind: 'image', env: 'AI_SUGGEST_IMAGE_MODEL' },
+  estimateNutrition: { kind: 'text', env: 'AI_ESTIMATE_NUTRITION_MODEL' },
+};
+
+const KIND_ENV: Record<ModelKind, string> = {
+  text: 'AI_TEXT_MODEL',
+  vision: 'AI_VISION_MODEL',
+  image: 'AI_IMAGE_MODEL',
+};
+
+const isProviderName = (name: string): name is AiProviderName => name in PROVIDERS;
+
+function defaultProvider(): AiProviderName {
+  const name = process.env.AI_PROVIDER?.trim() || 'mistral';
+  if (!isProviderName(name)) {
+    throw new Error(`Unknown AI_PROVIDER "${name}". Use one of: ${Object.keys(PROVIDERS).join(', ')}.`);
+  }
+  return name;
+}
+
+// Splits `provider/model`; names without a known provider prefix belong to the default provider.
+// Only a known prefix counts, since OpenAI-compatible model names may contain slashes themselves.
+function parseModel(value: string): { provider: AiProviderName; name: string } {
+  const slash = value.indexOf('/');
+  const prefix = value.slice(0, slash);
+  return slash > 0 && isProviderName(prefix)
+    ? { provider: prefix, name: value.slice(slash + 1) }
+    : { provider: defaultProvider(), name: value };
+}
+
+// Null when the default provider has no model of the kind, e.g. Mistral for images.
+function configuredModel(flow: AiFlow): { provider: AiProviderName; name: string } | null {
+  const { kind, env } = FLOW_MODELS[flow];
+  const value = process.env[env]?.trim() || process.env[KIND_ENV[kind]]?.trim();
+  if (value) return parseModel(value);
+  const provider = defaultProvider();
+  const name = PROVIDERS[provider].flowModels?.[flow] ?? PROVIDERS[provider].models[kind];
+  return name ? { provider, name } : null;
+}
+
+/** True when a model is configured for the flow. Text and vision flows always have one. */
+export const hasModelFor = (flow: AiFlow) => configuredModel(flow) !== null;
+
+/** The Genkit model name a flow should generate with, e.g. `ollama/llama3.1`. */
+export function modelFor(flow: AiFlow): string {
+  const model = configuredModel(flow);
+  if (!model) {
+    throw new Error(`No AI model is configured for ${flow}. Set ${FLOW_MODELS[flow].env} or ${KIND_ENV[FLOW_MODELS[flow].kind]}.`);
+  }
+  return `${model.provider}/${model.name}`;
+}
+
+/** Plugins for the default provider and any other provider a flow's model names. */
+export function configuredPlugins(): (GenkitPlugin | GenkitPluginV2)[] {
+  const providers = new Set<AiProviderName>([defaultProvider()]);
+  (Object.keys(FLOW_MODELS) as AiFlow[]).forEach(flow => {
+    const model = configuredModel(flow);
+    if (model) providers.add(model.provider);
+  });
+  return Array.from(providers, provider => PROVIDERS[provider].plugin());
+}
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/prisma";
+import { buildCalendar, type CalendarEvent } from "@/lib/ical";
+import { parseDurationMinutes } from "@/lib/duration";
+import { MEAL_SLOT_HOURS, getWeekStart, isMealSlot, parseDateString, shiftWeek } from "@/lib/meal-plan";
+import { translatorFor } from "@/lib/translations";
+import type { MealSlot } from "@/types";
+
+// How far back the feed goes; older weeks are left out to keep the file small.
+const PAST_WEEKS = 4;
+
+const MEAL_DURATION_MINUTES = 60;
+
+/**
+ * Publishes the meal plan of the user owning `token` as an iCalendar feed. The token is the
+ * only credential, so calendar apps can subscribe without logging in. Add `alarms=0` to leave
+ * out the "start cooking" reminders and `lang` to choose the language of the event text.
+ */
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ token: string }> }
+) {
+  const { token: tokenParam } = await context.params;
+  const token = tokenParam.replace(/\.ics$/, "");
+  const lang = req.nextUrl.searchParams.get("lang") || "en";
+  const includeAlarms = req.nextUrl.searchParams.get("alarms") !== "0";
+  const t = translatorFor(lang);
+
+  const user = await prisma.user.findUnique({ where: { calendarToken: token }, select: { id: true } });
+  if (!user) {
+    return new NextResponse("Not Found", { status: 404 });
+  }
+
+  const plans = await prisma.mealPlan.findMany({
+    where: { userId: user.id, weekStart: { gte: shiftWeek(getWeekStart(), -PAST_WEEKS) } },
+    select: {
+      weekStart: true,
+      entries: {
+        select: {
+          id: true,
+          day: true,
+          slot: true,
+          servings: true,
+          updatedAt: true,
+          recipe: { select: { id: true, title: true, prepTime: true, cookTime: true } },
+        },
+      },
+    },
+  });
+
+  const baseUrl = process.env.NEXTAUTH_URL || req.nextUrl.origin;
+  const events: CalendarEvent[] = plans.flatMap(plan =>
+    plan.entries.filter(entry => isMealSlot(entry.slot)).map(entry => {
+      const start = parseDateString(plan.weekStart);
+      start.setDate(start.getDate() + entry.day);
+      const slot = entry.slot as MealSlot;
+      start.setHours(MEAL_SLOT_HOURS[slot]);
+
+      const { recipe } = entry;
+      const url = `${baseUrl}/recipes/${recipe.id}`;
+      const description = [
+        `${t("servings")}: ${entry.servings}`,
+        recipe.prepTime && `${t("prep_time")}: ${recipe.prepTime}`,
+        recipe.cookTime && `${t("cook_time")}: ${recipe.cookTime}`,
+        url,
+      ].filter(Boolean).join("\n");
+
+      // The reminder goes off when cooking has to start for the meal to be ready on time.
+      const cookingMinutes = (parseDurationMinutes(recipe.prepTime) ?? 0) + (parseDurationMinutes(recipe.cookTime) ?? 0);
+
+      return {
+        uid: `${entry.id}@oppskrift`,
+        start,
+        durationMinutes: MEAL_DURATION_MINUTES,
+        summary: `${t(`meal_slot_${slot}`)}: ${recipe.title}`,
+        description,
+        url,
+        updatedAt: entry.updatedAt,
+        alarmMinutesBefore: includeAlarms && cookingMinutes > 0 ? cookingMinutes : null,
+        alarmText: `${t("calendar_start_cooking")}: ${recipe.title}`,
+      };
+    })
+  );
+
+  return new NextResponse(buildCalendar(t("meal_planner"), events), {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="meal-plan.ics"',
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { loadFoodIndex, searchFoods, toFoodSummary, type FoodLanguage } from "@/lib/food-table";
+
+const LANGUAGES: FoodLanguage[] = ["en", "no", "es"];
+
+// Looks up foods of the nutrition table for the recipe form: `?id=` for one food, `?q=` to search.
+export async function GET(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const index = loadFoodIndex();
+
+  const id = searchParams.get("id");
+  if (id) {
+    const food = index.byId.get(id);
+    return food ? NextResponse.json(toFoodSummary(food)) : new NextResponse("Not Found", { status: 404 });
+  }
+
+  const langParam = searchParams.get("lang") as FoodLanguage;
+  const language = LANGUAGES.includes(langParam) ? langParam : "en";
+  const foods = searchFoods(index, searchParams.get("q") || "", language);
+  return NextResponse.json(foods.map(toFoodSummary));
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { DAYS_IN_WEEK, isMealSlot, mealPlanEntrySelect } from "@/lib/meal-plan";
+
+const findOwnEntry = (entryId: string, userId: string) =>
+  prisma.mealPlanEntry.findFirst({
+    where: { id: entryId, plan: { userId } },
+    select: { id: true, planId: true, day: true, slot: true },
+  });
+
+// Moves an entry to another day or slot (appending it there) and/or changes its servings.
+export async function PATCH(
+  req: NextRequest,
+  context: { params: Promise<{ entryId: string }> }
+) {
+  const { entryId } = await context.params;
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const entry = await findOwnEntry(entryId, session.user.id);
+  if (!entry) {
+    return new NextResponse("Not Found", { status: 404 });
+  }
+
+  const { day, slot, servings } = await req.json();
+  const updateData: { day?: number; slot?: string; servings?: number; position?: number } = {};
+  if (day !== undefined) {
+    if (!Number.isInteger(day) || day < 0 || day >= DAYS_IN_WEEK) {
+      return NextResponse.json({ message: "Invalid day" }, { status: 400 });
+    }
+    updateData.day = day;
+  }
+  if (slot !== undefined) {
+    if (!isMealSlot(slot)) {
+      return NextResponse.json({ message: "Invalid slot" }, { status: 400 });
+    }
+    updateData.slot = slot;
+  }
+  if (servings !== undefined) {
+    if (!Number.isInteger(servings) || servings < 1) {
+      return NextResponse.json({ message: "servings must be a positive whole number" }, { status: 400 });
+    }
+    updateData.servings = servings;
+  }
+
+  const targetDay = updateData.day ?? entry.day;
+  const targetSlot = updateData.slot ?? entry.slot;
+  if (targetDay !== entry.day || targetSlot !== entry.slot) {
+    const { _max } = await prisma.mealPlanEntry.aggregate({
+      where: { planId: entry.planId, day: targetDay, slot: targetSlot },
+      _max: { position: true },
+    });
+    updateData.position = (_max.position ?? -1) + 1;
+  }
+
+  const updatedEntry = await prisma.mealPlanEntry.update({
+    where: { id: entryId },
+    data: updateData,
+    select: mealPlanEntrySelect,
+  });
+
+  return NextResponse.json(updatedEntry);
+}
+
+export async function DELETE(
+  req: NextRequest,
+  context: { params: Promise<{ entryId: string }> }
+) {
+  const { entryId } = await context.params;
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const entry = await findOwnEntry(entryId, session.user.id);
+  if (!entry) {
+    return new NextResponse("Not Found", { status: 404 });
+  }
+
+  await prisma.mealPlanEntry.delete({ where: { id: entryId } });
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { DAYS_IN_WEEK, isMealSlot, isWeekStart, mealPlanEntrySelect } from "@/lib/meal-plan";
+
+// Puts a recipe into a slot of the current user's plan, creating the week's plan if needed.
+export async function POST(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const { weekStart, day, slot, recipeId, servings } = await req.json();
+  if (!isWeekStart(weekStart) || !Number.isInteger(day) || day < 0 || day >= DAYS_IN_WEEK || !isMealSlot(slot) || typeof recipeId !== "string") {
+    return NextResponse.json({ message: "weekStart, day, slot and recipeId are required" }, { status: 400 });
+  }
+  if (servings !== undefined && (!Number.isInteger(servings) || servings < 1)) {
+    return NextResponse.json({ message: "servings must be a positive whole number" }, { status: 400 });
+  }
+
+  const recipe = await prisma.recipe.findUnique({
+    where: { id: recipeId },
+    select: { servingsValue: true, isPublic: true, createdBy: true },
+  });
+  if (!recipe || (!recipe.isPublic && recipe.createdBy !== session.user.id)) {
+    return new NextResponse("Not Found", { status: 404 });
+  }
+
+  const plan = await prisma.mealPlan.upsert({
+    where: { userId_weekStart: { userId: session.user.id, weekStart } },
+    update: {},
+    create: { userId: session.user.id, weekStart },
+  });
+  const { _max } = await prisma.mealPlanEntry.aggregate({ where: { planId: plan.id, day, slot }, _max: { position: true } });
+
+  const entry = await prisma.mealPlanEntry.create({
+    data: {
+      planId: plan.id,
+      recipeId,
+      day,
+      slot,
+      servings: servings ?? Math.max(1, recipe.servingsValue),
+      position: (_max.position ?? -1) + 1,
+    },
+    select: mealPlanEntrySelect,
+  });
+
+  return NextResponse.json(entry, { status: 201 });
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { isWeekStart, mealPlanEntrySelect } from "@/lib/meal-plan";
+
+// Returns the current user's plan for the week starting on `week` (a Monday, YYYY-MM-DD).
+// Weeks that have never been planned come back with no entries.
+export async function GET(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const weekStart = req.nextUrl.searchParams.get("week");
+  if (!isWeekStart(weekStart)) {
+    return NextResponse.json({ message: "week must be a Monday in YYYY-MM-DD format" }, { status: 400 });
+  }
+
+  const plan = await prisma.mealPlan.findUnique({
+    where: { userId_weekStart: { userId: session.user.id, weekStart } },
+    select: {
+      entries: {
+        orderBy: [{ day: "asc" }, { position: "asc" }],
+        select: mealPlanEntrySelect,
+      },
+    },
+  });
+
+  return NextResponse.json({ weekStart, entries: plan?.entries ?? [] });
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { isWeekStart } from "@/lib/meal-plan";
+import { scaleQuantity } from "@/lib/quantity";
+import type { NewShoppingListItem } from "@/types";
+
+// Lists the ingredients for every meal planned in the week, scaled to each entry's servings.
+// The client adds them to the shopping list, which merges repeated ingredients.
+export async function GET(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const weekStart = req.nextUrl.searchParams.get("week");
+  const lang = req.nextUrl.searchParams.get("lang") || "en";
+  if (!isWeekStart(weekStart)) {
+    return NextResponse.json({ message: "week must be a Monday in YYYY-MM-DD format" }, { status: 400 });
+  }
+
+  const plan = await prisma.mealPlan.findUnique({
+    where: { userId_weekStart: { userId: session.user.id, weekStart } },
+    select: {
+      entries: {
+        orderBy: [{ day: "asc" }, { position: "asc" }],
+        select: {
+          servings: true,
+          recipe: {
+            select: {
+              id: true,
+              title: true,
+              servingsValue: true,
+              ingredientGroups: {
+                orderBy: { position: "asc" },
+                select: { ingredients: { orderBy: { position: "asc" }, select: { name: true, quantity: true, unit: true } } },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  const items: NewShoppingListItem[] = (plan?.entries ?? []).flatMap(({ servings, recipe }) => {
+    const factor = recipe.servingsValue > 0 ? servings / recipe.servingsValue : 1;
+    return recipe.ingredientGroups.flatMap(group =>
+      group.ingredients.map(ingredient => ({
+        name: ingredient.name,
+        quantity: scaleQuantity(ingredient.quantity, factor, { language: lang }),
+        unit: ingredient.unit,
+        recipeId: recipe.id,
+        recipeTitle: recipe.title,
+      }))
+    );
+  });
+
+  return NextResponse.json({ items });
+}
@@ -0,0 +1,77 @@
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { refreshRecipeNutrition } from "@/lib/recipe-nutrition";
+import { loadFoodIndex } from "@/lib/food-table";
+import { calculateNutrition } from "@/lib/nutrition-calculator";
+
+// Calculates the recipe's nutrition from the food table, listing the ingredients it couldn't count.
+export async function GET(
+  req: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+  const recipe = await prisma.recipe.findUnique({
+    where: { id },
+    select: {
+      isPublic: true,
+      createdBy: true,
+      servingsValue: true,
+      ingredientGroups: {
+        orderBy: { position: "asc" },
+        select: {
+          ingredients: {
+            orderBy: { position: "asc" },
+            select: { id: true, name: true, quantity: true, unit: true, foodId: true },
+          },
+        },
+      },
+    },
+  });
+
+  if (!recipe) {
+    return new NextResponse("Not Found", { status: 404 });
+  }
+
+  // Private recipes are only calculated for their owner and admins.
+  const session = await getServerSession(authOptions);
+  if (!recipe.isPublic && recipe.createdBy !== session?.user.id && !session?.user.roles?.includes('admin')) {
+    return new NextResponse("Not Found", { status: 404 });
+  }
+
+  return NextResponse.json(calculateNutrition(loadFoodIndex(), recipe.ingredientGroups, recipe.servingsValue));
+}
+
+// Estimates the recipe's nutrition with the AI, replacing any earlier estimate.
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const recipe = await prisma.recipe.findUnique({
+    where: { id },
+    select: { createdBy: true },
+  });
+
+  if (!recipe) {
+    return new NextResponse("Not Found", { status: 404 });
+  }
+
+  if (recipe.createdBy !== session.user.id && !(session.user.roles as string[]).includes('admin')) {
+    return new NextResponse("Forbidden", { status: 403 });
+  }
+
+  try {
+    const nutrition = await refreshRecipeNutrition(id, { force: true });
+    return NextResponse.json(nutrition);
+  } catch (error) {
+    console.error("Error estimating nutrition:", error);
+    return new NextResponse("Failed to estimate nutrition", { status: 502 });
+  }
+}
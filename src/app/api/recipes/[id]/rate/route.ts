@@ -2,6 +2,7 @@ import { prisma } from "@/lib/prisma";
 import { NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
+import { recalculateRecipeRating } from "@/lib/ratings";
 
 export async function POST(
   req: Request,
@@ -63,23 +64,7 @@ export async function POST(
       }
     }
 
-    // Recalculate average rating and number of ratings for the recipe
-    const ratings = await prisma.rating.findMany({
-      where: { recipeId: recipeId },
-      select: { value: true },
-    });
-
-    const numRatings = ratings.length;
-    const totalRating = ratings.reduce((sum: number, r: { value: number }) => sum + r.value, 0);
-    const averageRating = numRatings > 0 ? totalRating / numRatings : 0;
-
-    await prisma.recipe.update({
-      where: { id: recipeId },
-      data: {
-        averageRating: averageRating,
-        numRatings: numRatings,
-      },
-    });
+    await recalculateRecipeRating(recipeId);
 
     return new NextResponse("Rating submitted successfully", { status: 200 });
   } catch (error) {
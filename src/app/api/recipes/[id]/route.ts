@@ -1,9 +1,13 @@
 
 import { prisma } from "@/lib/prisma";
-import { NextResponse } from "next/server";
+import { after, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
+import { syncRecipeSearchIndex } from "@/lib/search";
 import { Prisma } from "@prisma/client"; // Import Prisma types
+import { randomUUID } from "crypto";
+import { recipeColumns, recipeUpdateSchema, toValidationIssues } from "@/lib/recipe-schema";
+import { nutritionSelect, refreshStaleNutrition } from "@/lib/recipe-nutrition";
 
 export async function GET(
   req: Request,
@@ -30,12 +34,19 @@ export async function GET(
       averageRating: true,
       numRatings: true,
       ingredientGroups: {
+        orderBy: { position: "asc" },
         include: {
-          ingredients: true,
+          ingredients: {
+            orderBy: { position: "asc" },
+          },
         },
       },
-      instructions: true,
-      tips: true,
+      instructions: {
+        orderBy: { position: "asc" },
+      },
+      tips: {
+        orderBy: { position: "asc" },
+      },
       tags: {
         select: {
           name: true,
@@ -47,7 +58,7 @@ export async function GET(
         },
       },
       ratings: true,
-      shareTokens: true,
+      nutrition: { select: nutritionSelect },
     },
   });
 
@@ -76,93 +87,84 @@ export async function PUT(
     return new NextResponse("Forbidden", { status: 403 });
   }
 
-  const body = await req.json();
-
-  const {
-    ingredientGroups,
-    instructions,
-    tips,
-    tags,
-    categories,
-    id: recipeId, // Exclude id from update payload
-    createdAt, // Exclude createdAt from update payload
-    updatedAt, // Exclude updatedAt from update payload
-    averageRating, // Exclude averageRating from update payload
-    numRatings, // Exclude numRatings from update payload
-    ratings, // Exclude ratings from update payload
-    ...restOfRecipeData
-  } = body;
+  const parsed = recipeUpdateSchema.safeParse(await req.json());
+  if (!parsed.success) {
+    return NextResponse.json({ message: "Invalid recipe data", errors: toValidationIssues(parsed.error) }, { status: 422 });
+  }
+  const { ingredientGroups, instructions, tips, tags, categories } = parsed.data;
 
   // Prepare data for the main recipe update
-  const updateData: Prisma.RecipeUpdateInput = {
-    ...restOfRecipeData,
-  };
-
-  
+  const updateData: Prisma.RecipeUpdateInput = recipeColumns(parsed.data);
 
   // Use a transaction to ensure atomicity for deleting and recreating nested relations
   try {
     const updatedRecipe = await prisma.$transaction(async (tx) => {
       // Handle Categories: Upsert categories to ensure they exist before connecting them.
       if (Array.isArray(categories)) {
-        const categoryUpserts = categories.map((category: any) => {
-          const categoryName = typeof category === 'string' ? category : category.name;
-          return tx.category.upsert({
+        const categoryUpserts = categories.map(categoryName =>
+          tx.category.upsert({
             where: { name: categoryName },
             update: {},
             create: { name: categoryName },
-          });
-        });
+          })
+        );
         await Promise.all(categoryUpserts);
         updateData.categories = {
-          set: categories.map((category: any) => ({
-            name: typeof category === 'string' ? category : category.name
-          })),
+          set: categories.map(name => ({ name })),
         };
       }
 
       // Handle Tags: Upsert tags to ensure they exist before connecting them.
       if (Array.isArray(tags)) {
-        const tagUpserts = tags.map((tag: any) => {
-          const tagName = typeof tag === 'string' ? tag : tag.name;
-          return tx.tag.upsert({
+        const tagUpserts = tags.map(tagName =>
+          tx.tag.upsert({
             where: { name: tagName },
             update: {},
             create: { name: tagName },
-          });
-        });
+          })
+        );
         await Promise.all(tagUpserts);
         updateData.tags = {
-          set: tags.map((tag: any) => ({
-            name: typeof tag === 'string' ? tag : tag.name
-          })),
+          set: tags.map(name => ({ name })),
         };
       }
 
-      // 1. Delete existing related records for this recipe
-      await tx.ingredientGroup.deleteMany({ where: { recipeId: id } });
-      await tx.instructionStep.deleteMany({ where: { recipeId: id } });
-      await tx.tipStep.deleteMany({ where: { recipeId: id } });
+      // 1. Delete existing related records for this recipe. Only collections present in the
+      // payload are replaced, so partial updates (e.g. clearing a broken image from a recipe card) keep them.
+      if (Array.isArray(ingredientGroups)) {
+        await tx.ingredientGroup.deleteMany({ where: { recipeId: id } });
+      }
+      if (Array.isArray(instructions)) {
+        await tx.instructionStep.deleteMany({ where: { recipeId: id } });
+      }
+      if (Array.isArray(tips)) {
+        await tx.tipStep.deleteMany({ where: { recipeId: id } });
+      }
 
       // 2. Create new related records based on incoming data
       if (Array.isArray(ingredientGroups) && ingredientGroups.length > 0) {
+        // Groups sent without an id (e.g. from an import) get one here so their ingredients can link to it.
+        const groupsWithIds = ingredientGroups.map(group => ({ ...group, id: group.id || randomUUID() }));
         await tx.ingredientGroup.createMany({
-          data: ingredientGroups.map((group: any) => ({
+          data: groupsWithIds.map((group, groupIndex) => ({
             id: group.id,
-            name: group.name,
+            name: group.name ?? "",
+            position: groupIndex, // Persist the order set in the form
             recipeId: id, // Link to the current recipe
           })),
         });
 
         // Now create ingredients for each group
-        for (const group of ingredientGroups) {
-          if (Array.isArray(group.ingredients) && group.ingredients.length > 0) {
+        for (const group of groupsWithIds) {
+          if (group.ingredients.length > 0) {
             await tx.ingredient.createMany({
-              data: group.ingredients.map((ing: any) => ({
+              data: group.ingredients.map((ing, ingredientIndex) => ({
                 id: ing.id,
                 name: ing.name,
-                quantity: ing.quantity,
-                unit: ing.unit,
+                quantity: ing.quantity ?? "",
+                unit: ing.unit ?? "",
+                foodId: ing.foodId || null,
+                position: ingredientIndex,
                 ingredientGroupId: group.id, // Link to the parent ingredient group
               })),
             });
@@ -172,9 +174,10 @@ export async function PUT(
 
       if (Array.isArray(instructions) && instructions.length > 0) {
         await tx.instructionStep.createMany({
-          data: instructions.map((step: any) => ({
+          data: instructions.map((step, index) => ({
             id: step.id,
             text: step.text,
+            position: index,
             // isChecked is client-side only, do not persist
             recipeId: id, // Link to the current recipe
           })),
@@ -183,9 +186,10 @@ export async function PUT(
 
       if (Array.isArray(tips) && tips.length > 0) {
         await tx.tipStep.createMany({
-          data: tips.map((step: any) => ({
+          data: tips.map((step, index) => ({
             id: step.id,
             text: step.text,
+            position: index,
             // isChecked is client-side only, do not persist
             recipeId: id, // Link to the current recipe
           })),
@@ -199,6 +203,11 @@ export async function PUT(
       });
     });
 
+    await syncRecipeSearchIndex(id);
+    if (Array.isArray(ingredientGroups) || parsed.data.servingsValue !== undefined) {
+      // Estimating takes a while, so an estimate the edit made stale is redone after the response.
+      after(() => refreshStaleNutrition(id));
+    }
     return NextResponse.json(updatedRecipe);
   } catch (error) {
     console.error("Error updating recipe:", error);
@@ -0,0 +1,32 @@
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+
+export async function DELETE(
+  req: Request,
+  context: { params: Promise<{ id: string; tokenId: string }> }
+) {
+  const { id, tokenId } = await context.params;
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const shareToken = await prisma.shareToken.findUnique({
+    where: { id: tokenId },
+    include: { recipe: { select: { createdBy: true } } },
+  });
+
+  if (!shareToken || shareToken.recipeId !== id) {
+    return new NextResponse("Not Found", { status: 404 });
+  }
+
+  if (shareToken.recipe.createdBy !== session.user.id && !(session.user.roles as string[]).includes('admin')) {
+    return new NextResponse("Forbidden", { status: 403 });
+  }
+
+  await prisma.shareToken.delete({ where: { id: tokenId } });
+
+  return new NextResponse(null, { status: 204 });
+}
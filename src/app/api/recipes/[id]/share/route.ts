@@ -0,0 +1,92 @@
+import { prisma } from "@/lib/prisma";
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import crypto from "crypto";
+
+// Expiry choices offered by the share dialog, in days.
+const ALLOWED_EXPIRY_DAYS = [1, 7, 30, 365];
+
+export async function GET(
+  req: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const recipe = await prisma.recipe.findUnique({
+    where: { id },
+    select: { createdBy: true },
+  });
+
+  if (!recipe) {
+    return new NextResponse("Not Found", { status: 404 });
+  }
+
+  if (recipe.createdBy !== session.user.id && !(session.user.roles as string[]).includes('admin')) {
+    return new NextResponse("Forbidden", { status: 403 });
+  }
+
+  const shareTokens = await prisma.shareToken.findMany({
+    where: {
+      recipeId: id,
+      expiresAt: { gt: new Date() },
+    },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return NextResponse.json(shareTokens);
+}
+
+export async function POST(
+  req: Request,
+  context: { params: Promise<{ id: string }> }
+) {
+  const { id } = await context.params;
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const recipe = await prisma.recipe.findUnique({
+    where: { id },
+    select: { createdBy: true },
+  });
+
+  if (!recipe) {
+    return new NextResponse("Not Found", { status: 404 });
+  }
+
+  if (recipe.createdBy !== session.user.id && !(session.user.roles as string[]).includes('admin')) {
+    return new NextResponse("Forbidden", { status: 403 });
+  }
+
+  const body = await req.json().catch(() => null);
+  if (!body) {
+    return new NextResponse("Invalid request body", { status: 400 });
+  }
+  const { expiresInDays } = body;
+
+  if (!ALLOWED_EXPIRY_DAYS.includes(expiresInDays)) {
+    return new NextResponse("Invalid expiry", { status: 400 });
+  }
+
+  try {
+    const shareToken = await prisma.shareToken.create({
+      data: {
+        token: crypto.randomBytes(24).toString("hex"),
+        expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+        sharedBy: session.user.id,
+        recipeId: id,
+      },
+    });
+
+    return NextResponse.json(shareToken, { status: 201 });
+  } catch (error) {
+    console.error("Error creating share link:", error);
+    return new NextResponse("Failed to create share link", { status: 500 });
+  }
+}
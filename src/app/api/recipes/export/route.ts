@@ -2,136 +2,181 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth/next';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { Prisma } from '@prisma/client';
+import JSZip from 'jszip';
 import { Recipe } from '@/types/recipe';
-import en from '@/locales/en.json';
-import es from '@/locales/es.json';
-import no from '@/locales/no.json';
+import { buildRecipeJsonLd } from '@/lib/recipe-jsonld';
+import { recipeFilterWhere } from '@/lib/recipe-filters';
+import { buildBackupArchive, dataUriImage } from '@/lib/recipe-backup';
+import { generateCooklang } from '@/lib/cooklang';
+import { buildCookbookPdf } from '@/lib/recipe-pdf';
+import { buildCookbookEpub } from '@/lib/recipe-epub';
+import {
+  ExportOptions,
+  createRecipeFileNamer,
+  generateCollectionHtml,
+  generateHtml,
+  generateMarkdown,
+  recipeFileName,
+} from '@/lib/recipe-export';
+import { translatorFor, type Translate } from '@/lib/translations';
 
-const translations: { [key: string]: any } = {
-  en,
-  es,
-  no,
-};
+const recipeExportInclude = {
+  categories: true,
+  tags: true,
+  ingredientGroups: {
+    orderBy: { position: 'asc' },
+    include: {
+      ingredients: {
+        orderBy: { position: 'asc' },
+      },
+    },
+  },
+  instructions: {
+    orderBy: { position: 'asc' },
+  },
+  tips: {
+    orderBy: { position: 'asc' },
+  },
+  createdById: {
+    select: { displayName: true },
+  },
+} satisfies Prisma.RecipeInclude;
 
-const getTranslation = (lang: string, key: string) => {
-  return translations[lang]?.[key] || translations.en[key];
-};
+const attachment = (fileName: string) => `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`;
 
-// Function to generate Markdown content
-const generateMarkdown = (recipe: Recipe, t: (key: string) => string) => {
-  let markdown = `# ${recipe.title}
+/**
+ * Exports every recipe the user owns, narrowed by the same `visibility`, `tag` and
+ * `category` parameters as the recipe list, or to a selection with `ids` (comma-separated).
+ * Visibility defaults to all of the user's recipes; other people's recipes are never
+ * included. `format=backup` produces the restorable zip archive described in
+ * `@/lib/recipe-backup`, `format=pdf` a printable cookbook titled by `title`,
+ * `format=epub` an e-book of the same and `format=jsonld` an array of schema.org Recipes.
+ */
+async function exportCollection(searchParams: URLSearchParams, userId: string, format: string, lang: string, t: Translate, baseUrl: string) {
+  const ids = searchParams.get('ids')?.split(',').map(id => id.trim()).filter(Boolean);
+  const recipes = await prisma.recipe.findMany({
+    where: { AND: [{ createdBy: userId }, recipeFilterWhere(searchParams, userId), ...(ids ? [{ id: { in: ids } }] : [])] },
+    include: recipeExportInclude,
+    orderBy: { title: 'asc' },
+  });
+  const options: ExportOptions = { scale: 1, lang };
+  const date = new Date().toISOString().split('T')[0];
 
-`;
-  if (recipe.description) {
-    markdown += `${recipe.description}
+  if (format === 'backup') {
+    const [ownRatings, otherRatings] = await Promise.all([
+      prisma.rating.findMany({
+        where: { userId, recipeId: { in: recipes.map(recipe => recipe.id) } },
+        select: { recipeId: true, value: true },
+      }),
+      prisma.rating.findMany({
+        where: { userId, recipe: { OR: [{ createdBy: { not: userId } }, { createdBy: null }] } },
+        select: { recipeId: true, value: true, recipe: { select: { title: true } } },
+      }),
+    ]);
+    const myRatings = new Map(ownRatings.map(rating => [rating.recipeId, rating.value]));
+    const archive = await buildBackupArchive(
+      recipes.map(({ createdById, ...recipe }) => ({ ...recipe, myRating: myRatings.get(recipe.id) ?? null })),
+      otherRatings.map(rating => ({ recipeId: rating.recipeId, recipeTitle: rating.recipe.title, value: rating.value }))
+    );
+    return new NextResponse(archive, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': attachment(`recipes-backup-${date}.zip`),
+      },
+    });
+  }
 
-`;
+  if (format === 'markdown') {
+    const zip = new JSZip();
+    const nextFileName = createRecipeFileNamer('md');
+    recipes.forEach(recipe => {
+      zip.file(nextFileName(recipe.title), generateMarkdown(recipe as unknown as Recipe, t, options));
+    });
+    const archive = await zip.generateAsync({ type: 'arraybuffer', compression: 'DEFLATE' });
+    return new NextResponse(archive, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': attachment(`recipes-${date}.zip`),
+      },
+    });
   }
-  markdown += `## ${t("ingredients")}
 
-`;
-  recipe.ingredientGroups.forEach(group => {
-    if (group.name) {
-      markdown += `### ${group.name}
-`;
-    }
-    group.ingredients.forEach(ingredient => {
-      markdown += `- ${ingredient.quantity} ${ingredient.unit} ${ingredient.name}
-`;
+  // Cooklang keeps a recipe's photo next to it, named like the recipe file.
+  if (format === 'cooklang') {
+    const zip = new JSZip();
+    const nextFileName = createRecipeFileNamer('cook');
+    recipes.forEach(recipe => {
+      const fileName = nextFileName(recipe.title);
+      zip.file(fileName, generateCooklang(recipe as unknown as Recipe, options));
+      const image = dataUriImage(recipe.imageUrl);
+      if (image) zip.file(fileName.replace(/\.cook$/, `.${image.extension}`), image.base64, { base64: true });
     });
-  });
-  markdown += `
-## ${t("instructions")}
+    const archive = await zip.generateAsync({ type: 'arraybuffer', compression: 'DEFLATE' });
+    return new NextResponse(archive, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': attachment(`recipes-cooklang-${date}.zip`),
+      },
+    });
+  }
 
-`;
-  recipe.instructions.forEach((step, index) => {
-    markdown += `${index + 1}. ${step.text}
-`;
-  });
-  if (recipe.tips && recipe.tips.length > 0) {
-    markdown += `
-## ${t("tips_label")}
-
-`;
-    recipe.tips.forEach(tip => {
-      markdown += `- ${tip.text}
-`;
+  if (format === 'pdf') {
+    const title = searchParams.get('title')?.trim() || t('export_collection_title');
+    const pdf = await buildCookbookPdf(recipes as unknown as Recipe[], t, { ...options, title, cookbook: true });
+    return new NextResponse(new Uint8Array(pdf), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': attachment(recipeFileName(title, 'pdf')),
+      },
     });
   }
-  return markdown;
-};
-
-// Function to generate HTML content
-const generateHtml = (recipe: Recipe, t: (key: string) => string) => {
-  let html = `
-    <html>
-    <head>
-        <title>${recipe.title}</title>
-        <style>
-            body { font-family: sans-serif; line-height: 1.6; color: #333; max-width: 800px; margin: 0 auto; padding: 20px; }
-            h1, h2, h3 { color: #2c3e50; margin-top: 1.5em; margin-bottom: 0.5em; }
-            h1 { font-size: 2.5em; }
-            h2 { font-size: 2em; border-bottom: 1px solid #eee; padding-bottom: 5px; }
-            h3 { font-size: 1.5em; }
-            ul, ol { margin-bottom: 1em; padding-left: 25px; }
-            li { margin-bottom: 0.5em; }
-            .section { margin-bottom: 2em; }
-            .ingredient-group { margin-bottom: 1.5em; }
-            .ingredient-group-name { font-weight: bold; margin-bottom: 0.5em; }
-        </style>
-    </head>
-    <body>
-        <h1>${recipe.title}</h1>
-  `;
-
-  if (recipe.description) {
-    html += `<p>${recipe.description}</p>`;
+
+  if (format === 'epub') {
+    const title = searchParams.get('title')?.trim() || t('export_collection_title');
+    const author = recipes[0]?.createdById?.displayName ?? '';
+    const epub = await buildCookbookEpub(recipes as unknown as Recipe[], t, { ...options, title, author });
+    return new NextResponse(epub, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/epub+zip',
+        'Content-Disposition': attachment(recipeFileName(title, 'epub')),
+      },
+    });
   }
 
-  html += `<div class="section">
-            <h2>${t("ingredients")}</h2>
-  `;
-  recipe.ingredientGroups.forEach(group => {
-    html += `<div class="ingredient-group">`;
-    if (group.name) {
-      html += `<h3 class="ingredient-group-name">${group.name}</h3>`;
-    }
-    html += `<ul>`;
-    group.ingredients.forEach(ingredient => {
-      html += `<li>${ingredient.quantity} ${ingredient.unit} ${ingredient.name}</li>`;
+  if (format === 'jsonld') {
+    return new NextResponse(JSON.stringify(recipes.map(recipe => buildRecipeJsonLd(recipe, baseUrl)), null, 2), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/ld+json',
+        'Content-Disposition': attachment(`recipes-${date}.jsonld`),
+      },
     });
-    html += `</ul>`;
-    html += `</div>`;
-  });
-  html += `</div>`;
-
-  html += `<div class="section">
-            <h2>${t("instructions")}</h2>
-            <ol>
-  `;
-  recipe.instructions.forEach(step => {
-    html += `<li>${step.text}</li>`;
-  });
-  html += `</ol>
-        </div>
-  `;
-
-  if (recipe.tips && recipe.tips.length > 0) {
-    html += `<div class="section">
-              <h2>${t("tips_label")}</h2>
-              <ul>
-    `;
-    recipe.tips.forEach(tip => {
-      html += `<li>${tip.text}</li>`;
+  }
+
+  if (format === 'html') {
+    const html = generateCollectionHtml(recipes as unknown as Recipe[], t, options);
+    return new NextResponse(html, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/html',
+        'Content-Disposition': attachment(`recipes-${date}.html`),
+      },
     });
-    html += `</ul>
-          </div>
-    `;
   }
 
-  html += `</body></html>`;
-  return html;
-};
+  // The JSON export is the format the import route reads back.
+  const recipeData = recipes.map(({ createdById, ...recipe }) => recipe);
+  return NextResponse.json(recipeData, {
+    status: 200,
+    headers: { 'Content-Disposition': attachment(`recipes-${date}.json`) },
+  });
+}
 
 export async function GET(req: NextRequest) {
   const session = await getServerSession(authOptions);
@@ -143,60 +188,92 @@ export async function GET(req: NextRequest) {
   const recipeId = searchParams.get('id');
   const format = searchParams.get('format') || 'json'; // Default to json
   const lang = searchParams.get('lang') || 'en'; // Default to English
+  const servings = parseFloat(searchParams.get('servings') || '');
 
-  const t = (key: string) => getTranslation(lang, key);
-
-  if (!recipeId) {
-    return NextResponse.json({ message: t("recipe_id_required") }, { status: 400 });
-  }
+  const t = translatorFor(lang);
+  const baseUrl = (process.env.NEXTAUTH_URL || req.nextUrl.origin).replace(/\/$/, '');
 
   try {
+    if (!recipeId) {
+      return await exportCollection(searchParams, session.user.id, format, lang, t, baseUrl);
+    }
+
     const recipe = await prisma.recipe.findUnique({
       where: { id: recipeId },
-      include: {
-        categories: true,
-        tags: true,
-        ingredientGroups: {
-          include: {
-            ingredients: true,
-          },
-        },
-        instructions: true,
-        tips: true,
-      },
+      include: recipeExportInclude,
     });
 
     if (!recipe) {
       return NextResponse.json({ message: t("recipe_not_found") }, { status: 404 });
     }
 
-    if (recipe.createdBy !== session.user.id) {
+    // Public recipe pages already embed their JSON-LD, so anyone may export it.
+    const canExport = recipe.createdBy === session.user.id || (format === 'jsonld' && recipe.isPublic);
+    if (!canExport) {
         return NextResponse.json({ message: t("unauthorized_action") }, { status: 403 });
     }
     
+    // Scale quantities when the caller asks for a different number of servings than the recipe makes.
+    const options: ExportOptions = {
+      scale: servings > 0 && recipe.servingsValue > 0 ? servings / recipe.servingsValue : 1,
+      lang,
+    };
+
     if (format === 'markdown') {
-      const markdown = generateMarkdown(recipe as unknown as Recipe, t);
+      const markdown = generateMarkdown(recipe as unknown as Recipe, t, options);
       return new NextResponse(markdown, {
         status: 200,
         headers: {
           'Content-Type': 'text/markdown',
-          'Content-Disposition': `attachment; filename="${recipe.title}.md"`,
+          'Content-Disposition': attachment(recipeFileName(recipe.title, 'md')),
+        },
+      });
+    }
+
+    if (format === 'cooklang') {
+      return new NextResponse(generateCooklang(recipe as unknown as Recipe, options), {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/plain; charset=utf-8',
+          'Content-Disposition': attachment(recipeFileName(recipe.title, 'cook')),
+        },
+      });
+    }
+
+    if (format === 'pdf') {
+      const pdf = await buildCookbookPdf([recipe as unknown as Recipe], t, { ...options, title: recipe.title, cookbook: false });
+      return new NextResponse(new Uint8Array(pdf), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': attachment(recipeFileName(recipe.title, 'pdf')),
+        },
+      });
+    }
+
+    if (format === 'jsonld') {
+      return new NextResponse(JSON.stringify(buildRecipeJsonLd(recipe, baseUrl), null, 2), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/ld+json',
+          'Content-Disposition': attachment(recipeFileName(recipe.title, 'jsonld')),
         },
       });
     }
 
     if (format === 'html') {
-      const html = generateHtml(recipe as unknown as Recipe, t);
+      const html = generateHtml(recipe as unknown as Recipe, t, options);
       return new NextResponse(html, {
         status: 200,
         headers: {
           'Content-Type': 'text/html',
-          'Content-Disposition': `attachment; filename="${recipe.title}.html"`,
+          'Content-Disposition': attachment(recipeFileName(recipe.title, 'html')),
         },
       });
     }
 
-    return NextResponse.json(recipe, { status: 200 });
+    const { createdById, ...recipeData } = recipe; // The author is only needed for JSON-LD
+    return NextResponse.json(recipeData, { status: 200 });
   } catch (error) {
     console.error('Error exporting recipe:', error);
     return NextResponse.json({ message: t("error_exporting_recipe") }, { status: 500 });
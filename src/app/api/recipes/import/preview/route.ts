@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth/next";
+import { authOptions } from "@/lib/auth";
+import { previewRecipeImport, readImportPayload } from "@/lib/recipe-import";
+import type { RecipeImportPreviewResponse } from "@/types";
+
+// Dry run of an import: takes the same upload as POST /api/recipes/import and reports
+// what would happen to each recipe without saving anything.
+export async function POST(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session || !session.user) {
+    return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const payload = await readImportPayload(req);
+    if ("error" in payload) {
+      return NextResponse.json({ message: payload.error }, { status: payload.status });
+    }
+
+    const response: RecipeImportPreviewResponse = { items: await previewRecipeImport(payload.entries, session.user.id) };
+    return NextResponse.json(response, { status: 200 });
+  } catch (error) {
+    console.error("Error previewing recipe import:", error);
+    return NextResponse.json({ message: "Error importing recipes." }, { status: 500 });
+  }
+}
@@ -2,6 +2,43 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth/next";
 import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
+import { commitRecipeImport, readImportPayload } from "@/lib/recipe-import";
+import type { BackupRating } from "@/lib/recipe-backup";
+import { recalculateRecipeRating } from "@/lib/ratings";
+import type { ImportedRecipe } from "@/lib/recipe-schema";
+import type { RecipeImportResponse } from "@/types";
+
+// Restores the user's ratings of other people's recipes, where those recipes still exist and are visible.
+async function restoreRatings(ratings: BackupRating[], userId: string): Promise<number> {
+  let restored = 0;
+  for (const rating of ratings) {
+    if (typeof rating?.recipeId !== "string" || !Number.isInteger(rating.value) || rating.value < 1 || rating.value > 5) continue;
+    const recipe = await prisma.recipe.findFirst({
+      where: { id: rating.recipeId, OR: [{ isPublic: true }, { createdBy: userId }] },
+      select: { id: true },
+    });
+    if (!recipe) continue;
+    await prisma.rating.upsert({
+      where: { userId_recipeId: { userId, recipeId: recipe.id } },
+      create: { userId, recipeId: recipe.id, value: rating.value },
+      update: { value: rating.value },
+    });
+    await recalculateRecipeRating(recipe.id);
+    restored++;
+  }
+  return restored;
+}
+
+// A backup carries the owner's rating on each recipe; the rating replaces any the user already gave.
+const restoreOwnRating = (userId: string) => async (recipeId: string, { myRating }: ImportedRecipe) => {
+  if (myRating === undefined) return;
+  await prisma.rating.upsert({
+    where: { userId_recipeId: { userId, recipeId } },
+    create: { userId, recipeId, value: myRating },
+    update: { value: myRating },
+  });
+  await recalculateRecipeRating(recipeId);
+};
 
 export async function POST(req: NextRequest) {
   const session = await getServerSession(authOptions);
@@ -10,128 +47,26 @@ export async function POST(req: NextRequest) {
     return NextResponse.json({ message: "Unauthorized" }, { status: 401 });
   }
 
-  const recipesToImport = await req.json();
-
-  if (!Array.isArray(recipesToImport)) {
-    return NextResponse.json({ message: "Invalid data format. Expected an array of recipes." }, { status: 400 });
-  }
-
-  let importedCount = 0;
-  let skippedCount = 0;
   const userId = session.user.id;
 
   try {
-    for (const recipeData of recipesToImport) {
-      // Check for existing recipe by title and createdBy
-      const existingRecipe = await prisma.recipe.findFirst({
-        where: {
-          title: recipeData.title,
-          createdBy: userId,
-        },
-      });
-
-      if (existingRecipe) {
-        console.log(`Skipping duplicate recipe: ${recipeData.title}`);
-        skippedCount++;
-        continue; // Skip to the next recipe
-      }
-
-      const { 
-        categories, 
-        tags, 
-        ingredientGroups, 
-        instructions, // Use 'instructions' as per Prisma schema
-        tips,         // Use 'tips' as per Prisma schema
-        id,           // Exclude id from direct creation
-        createdAt, 
-        updatedAt, 
-        ratings,      // Exclude ratings object from direct creation
-        createdBy,    // Exclude createdBy string from direct creation
-        ingredients,  // Exclude top-level ingredients field
-        shareTokens,  // Exclude shareTokens from direct creation
-        ...rest       // Remaining direct fields
-      } = recipeData;
-
-      const dataToCreate: any = {
-        ...rest,
-        createdBy: userId, // Connect to the current authenticated user
-        createdAt: new Date(createdAt || Date.now()),
-        updatedAt: new Date(updatedAt || Date.now()),
-      };
-
-      if (categories && Array.isArray(categories)) {
-        dataToCreate.categories = {
-          connectOrCreate: categories.map((cat: any) => {
-            const categoryName = typeof cat === 'string' ? cat : cat.name;
-            return {
-              where: { name: categoryName },
-              create: { name: categoryName },
-            };
-          }),
-        };
-      }
-
-      if (tags && Array.isArray(tags)) {
-        dataToCreate.tags = {
-          connectOrCreate: tags.map((tag: any) => {
-            const tagName = typeof tag === 'string' ? tag : tag.name;
-            return {
-              where: { name: tagName },
-              create: { name: tagName },
-            };
-          }),
-        };
-      }
-
-      if (ingredientGroups && Array.isArray(ingredientGroups)) {
-        dataToCreate.ingredientGroups = {
-          create: ingredientGroups.map((group: any) => ({
-            name: group.name,
-            ingredients: {
-              create: group.ingredients?.map((ing: any) => ({
-                name: ing.name,
-                quantity: ing.quantity,
-                unit: ing.unit,
-              })),
-            },
-          })),
-        };
-      }
-
-      if (instructions && Array.isArray(instructions)) {
-        dataToCreate.instructions = {
-          create: instructions.map((step: any) => ({
-            text: step.text,
-          })),
-        };
-      }
-
-      if (tips && Array.isArray(tips)) {
-        dataToCreate.tips = {
-          create: tips.map((tip: any) => ({
-            text: tip.text,
-          })),
-        };
-      }
-
-      if (shareTokens?.length > 0) {
-        dataToCreate.shareTokens = {
-          create: shareTokens.map((token: any) => ({
-            token: token.token,
-            expiresAt: new Date(token.expiresAt.seconds * 1000 + token.expiresAt.nanoseconds / 1000000),
-            createdAt: new Date(token.createdAt.seconds * 1000 + token.createdAt.nanoseconds / 1000000),
-            sharedBy: token.sharedBy,
-          })),
-        };
-      }
-
-      await prisma.recipe.create({
-        data: dataToCreate,
-      });
-      importedCount++;
+    const payload = await readImportPayload(req);
+    if ("error" in payload) {
+      return NextResponse.json({ message: payload.error }, { status: payload.status });
     }
 
-    return NextResponse.json({ message: "Recipes imported successfully", count: importedCount, skippedCount: skippedCount }, { status: 200 });
+    const results = await commitRecipeImport(payload.entries, payload.decisions, userId, restoreOwnRating(userId));
+    const ratingsRestored = payload.ratings.length > 0 ? await restoreRatings(payload.ratings, userId) : undefined;
+    const response: RecipeImportResponse = {
+      message: "Recipes imported successfully",
+      count: results.filter(result => result.status === "imported").length,
+      skippedCount: results.filter(result => result.status === "skipped").length,
+      overwrittenCount: results.filter(result => result.status === "overwritten").length,
+      failedCount: results.filter(result => result.status === "failed").length,
+      ratingsRestored,
+      results,
+    };
+    return NextResponse.json(response, { status: 200 });
   } catch (error) {
     console.error("Error importing recipes:", error);
     return NextResponse.json({ message: "Error importing recipes." }, { status: 500 });
@@ -1,46 +1,56 @@
 import { prisma } from "@/lib/prisma";
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
+import { Prisma } from "@prisma/client";
+import { syncRecipeSearchIndex } from "@/lib/search";
+import { parsePageLimit, recipeFilterWhere, recipeSummarySelect } from "@/lib/recipe-filters";
+import { recipeColumns, recipeInputSchema, toValidationIssues } from "@/lib/recipe-schema";
+import type { RecipeSort } from "@/types";
 
-export async function GET() {
+const SORTS: RecipeSort[] = ["newest", "oldest", "title", "rating"];
+
+// Every sort ends on id so cursor pagination stays stable when the primary key ties.
+const sortOrders: Record<RecipeSort, Prisma.RecipeOrderByWithRelationInput[]> = {
+  newest: [{ createdAt: "desc" }, { id: "asc" }],
+  oldest: [{ createdAt: "asc" }, { id: "asc" }],
+  title: [{ title: "asc" }, { id: "asc" }],
+  rating: [{ averageRating: { sort: "desc", nulls: "last" } }, { id: "asc" }],
+};
+
+export async function GET(req: NextRequest) {
   const session = await getServerSession(authOptions);
 
   if (!session || !session.user.isApproved) {
-    return NextResponse.json([]);
+    return NextResponse.json({ recipes: [], total: 0, nextCursor: null });
   }
 
-  let whereClause: any = {
-    OR: [
-      { isPublic: true },
-      { createdBy: session.user.id },
-    ],
-  };
+  const { searchParams } = new URL(req.url);
+  const cursor = searchParams.get("cursor");
+  const sortParam = searchParams.get("sort") as RecipeSort;
+  const sort = SORTS.includes(sortParam) ? sortParam : "newest";
+  const limit = parsePageLimit(searchParams);
+  const whereClause = recipeFilterWhere(searchParams, session.user.id);
 
-  const recipes = await prisma.recipe.findMany({
-    where: whereClause,
-    include: {
-      ingredientGroups: {
-        include: {
-          ingredients: true,
-        },
-      },
-      instructions: true,
-      tips: true,
-      tags: {
-        select: {
-          name: true,
-        },
-      },
-      categories: {
-        select: {
-          name: true,
-        },
-      },
-      ratings: true,
-    },
+  const [recipes, total] = await Promise.all([
+    prisma.recipe.findMany({
+      where: whereClause,
+      orderBy: sortOrders[sort],
+      take: limit + 1, // Fetch one extra row to know whether another page exists
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      select: recipeSummarySelect,
+    }),
+    prisma.recipe.count({ where: whereClause }),
+  ]);
+
+  const hasMore = recipes.length > limit;
+  const page = hasMore ? recipes.slice(0, limit) : recipes;
+
+  return NextResponse.json({
+    recipes: page,
+    total,
+    nextCursor: hasMore ? page[page.length - 1].id : null,
   });
-  return NextResponse.json(recipes);
 }
 
 export async function POST(req: Request) {
@@ -49,54 +59,57 @@ export async function POST(req: Request) {
     return new NextResponse("Unauthorized", { status: 401 });
   }
 
-  const { ingredientGroups, instructions, tips, tags, categories, ...rest } = await req.json();
-  // Add validation here with Zod
+  const parsed = recipeInputSchema.safeParse(await req.json());
+  if (!parsed.success) {
+    return NextResponse.json({ message: "Invalid recipe data", errors: toValidationIssues(parsed.error) }, { status: 422 });
+  }
+  const { ingredientGroups, instructions, tips, tags, categories } = parsed.data;
 
   const recipe = await prisma.recipe.create({
     data: {
-      ...rest,
+      ...recipeColumns(parsed.data),
       createdBy: session.user.id,
       ingredientGroups: {
-        create: ingredientGroups.map((group: any) => ({
-          name: group.name,
+        create: ingredientGroups.map((group, groupIndex) => ({
+          name: group.name ?? "",
+          position: groupIndex,
           ingredients: {
-            create: group.ingredients.map((ingredient: any) => ({
+            create: group.ingredients.map((ingredient, ingredientIndex) => ({
               name: ingredient.name,
-              quantity: ingredient.quantity,
-              unit: ingredient.unit,
+              quantity: ingredient.quantity ?? "",
+              unit: ingredient.unit ?? "",
+              foodId: ingredient.foodId || null,
+              position: ingredientIndex,
             })),
           },
         })),
       },
       instructions: {
-        create: instructions.map((instruction: any) => ({
+        create: instructions.map((instruction, index) => ({
           text: instruction.text,
+          position: index,
         })),
       },
       tips: {
-        create: tips.map((tip: any) => ({
+        create: (tips ?? []).map((tip, index) => ({
           text: tip.text,
+          position: index,
         })),
       },
       tags: {
-        connectOrCreate: (tags || []).map((tag: any) => {
-          const tagName = typeof tag === 'string' ? tag : tag.name;
-          return {
-            where: { name: tagName },
-            create: { name: tagName },
-          };
-        }),
+        connectOrCreate: (tags ?? []).map(tagName => ({
+          where: { name: tagName },
+          create: { name: tagName },
+        })),
       },
       categories: {
-        connectOrCreate: (categories || []).map((category: any) => {
-          const categoryName = typeof category === 'string' ? category : category.name;
-          return {
-            where: { name: categoryName },
-            create: { name: categoryName },
-          };
-        }),
+        connectOrCreate: (categories ?? []).map(categoryName => ({
+          where: { name: categoryName },
+          create: { name: categoryName },
+        })),
       },
     },
   });
+  await syncRecipeSearchIndex(recipe.id);
   return NextResponse.json(recipe);
 }
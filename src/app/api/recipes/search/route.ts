@@ -0,0 +1,71 @@
+import { prisma } from "@/lib/prisma";
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { buildSearchSnippet, searchRecipeIds, tokenizeSearchQuery } from "@/lib/search";
+import { parsePageLimit, recipeFilterWhere, recipeSummarySelect } from "@/lib/recipe-filters";
+
+export async function GET(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+
+  if (!session || !session.user.isApproved) {
+    return NextResponse.json({ recipes: [], total: 0, nextCursor: null });
+  }
+
+  const { searchParams } = new URL(req.url);
+  const query = searchParams.get("q")?.trim() || "";
+  const limit = parsePageLimit(searchParams);
+  // Results are ranked rather than sorted on a column, so the cursor is a plain offset.
+  const offset = Math.max(parseInt(searchParams.get("cursor") || "0", 10) || 0, 0);
+
+  const rankedIds = await searchRecipeIds(query);
+  if (rankedIds.length === 0) {
+    return NextResponse.json({ recipes: [], total: 0, nextCursor: null });
+  }
+
+  const visible = await prisma.recipe.findMany({
+    where: { AND: [{ id: { in: rankedIds } }, recipeFilterWhere(searchParams, session.user.id)] },
+    select: { id: true },
+  });
+  const visibleIds = new Set(visible.map(recipe => recipe.id));
+  const matchingIds = rankedIds.filter(id => visibleIds.has(id));
+  const pageIds = matchingIds.slice(offset, offset + limit);
+
+  const recipes = await prisma.recipe.findMany({
+    where: { id: { in: pageIds } },
+    select: {
+      ...recipeSummarySelect,
+      ingredientGroups: {
+        orderBy: { position: "asc" },
+        select: { ingredients: { orderBy: { position: "asc" }, select: { name: true } } },
+      },
+      instructions: { orderBy: { position: "asc" }, select: { text: true } },
+      tips: { orderBy: { position: "asc" }, select: { text: true } },
+    },
+  });
+  const recipesById = new Map(recipes.map(recipe => [recipe.id, recipe]));
+
+  const terms = tokenizeSearchQuery(query);
+  const results = pageIds.flatMap(id => {
+    const recipe = recipesById.get(id);
+    if (!recipe) return [];
+    const { ingredientGroups, instructions, tips, ...summary } = recipe;
+    const snippet = buildSearchSnippet(
+      [
+        summary.description ?? "",
+        ingredientGroups.flatMap(group => group.ingredients.map(ing => ing.name)).join(", "),
+        instructions.map(step => step.text).join(" "),
+        tips.map(tip => tip.text).join(" "),
+      ],
+      terms
+    );
+    return [{ ...summary, snippet }];
+  });
+
+  const nextOffset = offset + limit;
+  return NextResponse.json({
+    recipes: results,
+    total: matchingIds.length,
+    nextCursor: nextOffset < matchingIds.length ? String(nextOffset) : null,
+  });
+}
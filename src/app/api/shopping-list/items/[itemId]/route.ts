@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { shoppingListItemSelect } from "@/lib/shopping-list";
+
+const findOwnItem = (itemId: string, userId: string) =>
+  prisma.shoppingListItem.findFirst({
+    where: { id: itemId, list: { userId } },
+    select: { id: true, listId: true },
+  });
+
+export async function PATCH(
+  req: NextRequest,
+  context: { params: Promise<{ itemId: string }> }
+) {
+  const { itemId } = await context.params;
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const item = await findOwnItem(itemId, session.user.id);
+  if (!item) {
+    return new NextResponse("Not Found", { status: 404 });
+  }
+
+  const { name, quantity, unit, isChecked } = await req.json();
+  const updateData: { name?: string; quantity?: string; unit?: string; isChecked?: boolean } = {};
+  if (typeof name === "string" && name.trim()) updateData.name = name.trim();
+  if (typeof quantity === "string") updateData.quantity = quantity;
+  if (typeof unit === "string") updateData.unit = unit;
+  if (typeof isChecked === "boolean") updateData.isChecked = isChecked;
+
+  const [updatedItem] = await prisma.$transaction([
+    prisma.shoppingListItem.update({ where: { id: itemId }, data: updateData, select: shoppingListItemSelect }),
+    prisma.shoppingList.update({ where: { id: item.listId }, data: { updatedAt: new Date() } }),
+  ]);
+
+  return NextResponse.json(updatedItem);
+}
+
+export async function DELETE(
+  req: NextRequest,
+  context: { params: Promise<{ itemId: string }> }
+) {
+  const { itemId } = await context.params;
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const item = await findOwnItem(itemId, session.user.id);
+  if (!item) {
+    return new NextResponse("Not Found", { status: 404 });
+  }
+
+  await prisma.$transaction([
+    prisma.shoppingListItem.delete({ where: { id: itemId } }),
+    prisma.shoppingList.update({ where: { id: item.listId }, data: { updatedAt: new Date() } }),
+  ]);
+
+  return new NextResponse(null, { status: 204 });
+}
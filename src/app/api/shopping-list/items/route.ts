@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { getOrCreateShoppingList, shoppingListItemSelect } from "@/lib/shopping-list";
+
+// Adds items to the current user's list. Items are upserted by id, so a client replaying
+// changes made while offline can safely send the same items twice.
+export async function POST(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const { items } = await req.json();
+  if (!Array.isArray(items) || items.some((item: any) => typeof item?.name !== "string" || !item.name.trim())) {
+    return NextResponse.json({ message: "Each item needs a name" }, { status: 400 });
+  }
+
+  const list = await getOrCreateShoppingList(session.user.id);
+  const { _max } = await prisma.shoppingListItem.aggregate({ where: { listId: list.id }, _max: { position: true } });
+  const firstPosition = (_max.position ?? -1) + 1;
+
+  const ids = items.map((item: any) => item.id).filter((id: unknown): id is string => typeof id === "string");
+  const foreignItem = await prisma.shoppingListItem.findFirst({
+    where: { id: { in: ids }, listId: { not: list.id } },
+    select: { id: true },
+  });
+  if (foreignItem) {
+    return new NextResponse("Forbidden", { status: 403 });
+  }
+
+  const savedItems = await prisma.$transaction(
+    items.map((item: any, index: number) => {
+      const data = {
+        name: item.name.trim(),
+        quantity: typeof item.quantity === "string" ? item.quantity : "",
+        unit: typeof item.unit === "string" ? item.unit : "",
+        isChecked: !!item.isChecked,
+        recipeId: typeof item.recipeId === "string" ? item.recipeId : null,
+        recipeTitle: typeof item.recipeTitle === "string" ? item.recipeTitle : null,
+      };
+      return typeof item.id === "string"
+        ? prisma.shoppingListItem.upsert({
+            where: { id: item.id },
+            update: data,
+            create: { ...data, id: item.id, listId: list.id, position: firstPosition + index },
+            select: shoppingListItemSelect,
+          })
+        : prisma.shoppingListItem.create({
+            data: { ...data, listId: list.id, position: firstPosition + index },
+            select: shoppingListItemSelect,
+          });
+    })
+  );
+  await prisma.shoppingList.update({ where: { id: list.id }, data: { updatedAt: new Date() } });
+
+  return NextResponse.json(savedItems, { status: 201 });
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import { getOrCreateShoppingList, shoppingListItemSelect } from "@/lib/shopping-list";
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const list = await getOrCreateShoppingList(session.user.id);
+  const items = await prisma.shoppingListItem.findMany({
+    where: { listId: list.id },
+    orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+    select: shoppingListItemSelect,
+  });
+
+  return NextResponse.json({ id: list.id, items, updatedAt: list.updatedAt });
+}
+
+export async function DELETE() {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const list = await getOrCreateShoppingList(session.user.id);
+  await prisma.$transaction([
+    prisma.shoppingListItem.deleteMany({ where: { listId: list.id } }),
+    prisma.shoppingList.update({ where: { id: list.id }, data: { updatedAt: new Date() } }),
+  ]);
+
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { prisma } from "@/lib/prisma";
+import crypto from "crypto";
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: session.user.id }, select: { calendarToken: true } });
+  return NextResponse.json({ token: user?.calendarToken ?? null });
+}
+
+// Creates the calendar feed token, or replaces it so that previously shared feed URLs stop working.
+export async function POST() {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  const { calendarToken } = await prisma.user.update({
+    where: { id: session.user.id },
+    data: { calendarToken: crypto.randomBytes(24).toString("hex") },
+    select: { calendarToken: true },
+  });
+  return NextResponse.json({ token: calendarToken });
+}
+
+// Turns the calendar feed off.
+export async function DELETE() {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return new NextResponse("Unauthorized", { status: 401 });
+  }
+
+  await prisma.user.update({ where: { id: session.user.id }, data: { calendarToken: null } });
+  return new NextResponse(null, { status: 204 });
+}
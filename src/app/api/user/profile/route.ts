@@ -4,6 +4,8 @@ import { authOptions } from "@/lib/auth";
 import { prisma } from "@/lib/prisma";
 import bcrypt from "bcrypt";
 
+const UNIT_SYSTEMS = ["original", "metric", "us"];
+
 export async function PUT(req: NextRequest) {
   const session = await getServerSession(authOptions);
 
@@ -12,7 +14,7 @@ export async function PUT(req: NextRequest) {
   }
 
   const userId = session.user.id; // Assuming NextAuth session provides user ID
-  const { displayName, email, newPassword, currentPassword } = await req.json();
+  const { displayName, email, newPassword, currentPassword, unitSystem } = await req.json();
 
   try {
     const user = await prisma.user.findUnique({ where: { id: userId } });
@@ -21,12 +23,19 @@ export async function PUT(req: NextRequest) {
       return NextResponse.json({ message: "User not found" }, { status: 404 });
     }
 
-    const updateData: { displayName?: string; email?: string; password?: string } = {};
+    const updateData: { displayName?: string; email?: string; password?: string; unitSystem?: string } = {};
 
     if (displayName !== undefined) {
       updateData.displayName = displayName;
     }
 
+    if (unitSystem !== undefined) {
+      if (!UNIT_SYSTEMS.includes(unitSystem)) {
+        return NextResponse.json({ message: "Invalid unit system" }, { status: 400 });
+      }
+      updateData.unitSystem = unitSystem;
+    }
+
     if (email !== undefined && email !== user.email) {
       if (!currentPassword) {
         return NextResponse.json({ message: "Current password is required to change email" }, { status: 400 });
@@ -13,14 +13,14 @@ export async function GET() {
   try {
     const user = await prisma.user.findUnique({
       where: { email: session.user.email },
-      select: { isApproved: true },
+      select: { isApproved: true, unitSystem: true },
     });
 
     if (!user) {
       return NextResponse.json({ message: "User not found" }, { status: 404 });
     }
 
-    return NextResponse.json({ isApproved: user.isApproved }, { status: 200 });
+    return NextResponse.json({ isApproved: user.isApproved, unitSystem: user.unitSystem }, { status: 200 });
   } catch (error) {
     console.error("Error fetching user approval status:", error);
     return NextResponse.json(
@@ -1,23 +1,23 @@
 
 "use client";
 
-import { useState, Suspense, useEffect, useMemo } from "react";
+import { useState, Suspense, useEffect, useMemo, useRef } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
-import { useRecipes } from "@/contexts/RecipeContext";
+import { useRecipeList } from "@/hooks/use-recipe-list";
 import { RecipeCard } from "@/components/recipe/RecipeCard";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import Link from "next/link";
 import { useSession } from "next-auth/react";
 import { useTranslation } from "@/lib/i18n";
-import { PlusCircle, Search, Frown, XCircle, Loader2, Tag, Bookmark, Eye, Users, Lock, ListFilter, BookOpen, AlertTriangle } from "lucide-react";
+import { PlusCircle, Search, Frown, XCircle, Loader2, Tag, Bookmark, Eye, Users, Lock, ListFilter, BookOpen, AlertTriangle, ArrowUpDown } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import type { Recipe } from "@/types";
+import type { RecipeSort, RecipeVisibilityFilter as VisibilityFilter } from "@/types";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 
-type VisibilityFilter = "all-viewable" | "my-all" | "my-public" | "my-private" | "community-public";
+const SEARCH_DEBOUNCE_MS = 300;
 
 const visibilityFilterOptions: { value: VisibilityFilter; labelKey: string; icon?: React.ElementType }[] = [
   { value: "all-viewable", labelKey: "visibility_option_all_viewable", icon: ListFilter },
@@ -27,8 +27,14 @@ const visibilityFilterOptions: { value: VisibilityFilter; labelKey: string; icon
   { value: "community-public", labelKey: "visibility_option_community_public", icon: Eye },
 ];
 
+const sortOptions: { value: RecipeSort; labelKey: string }[] = [
+  { value: "newest", labelKey: "sort_option_newest" },
+  { value: "oldest", labelKey: "sort_option_oldest" },
+  { value: "title", labelKey: "sort_option_title" },
+  { value: "rating", labelKey: "sort_option_rating" },
+];
+
 function HomePageContent() {
-  const { recipes, loading: recipesLoading } = useRecipes();
   const { data: session, status, update } = useSession();
 
   const isUserApproved = session?.user?.isApproved;
@@ -48,18 +54,59 @@ function HomePageContent() {
   const tagFilter = searchParams.get("tag");
 
   const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState("");
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearchTerm(searchTerm.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
 
   const visibilityFilter: VisibilityFilter = useMemo(() => {
     const urlVisibility = searchParams.get("visibility") as VisibilityFilter;
     return visibilityFilterOptions.some(opt => opt.value === urlVisibility) ? urlVisibility : "all-viewable";
   }, [searchParams]);
 
+  const sort: RecipeSort = useMemo(() => {
+    const urlSort = searchParams.get("sort") as RecipeSort;
+    return sortOptions.some(opt => opt.value === urlSort) ? urlSort : "newest";
+  }, [searchParams]);
+
   const handleVisibilityChange = (value: VisibilityFilter) => {
     const currentParams = new URLSearchParams(Array.from(searchParams.entries()));
     currentParams.set('visibility', value);
     router.push(`?${currentParams.toString()}`);
   };
 
+  const handleSortChange = (value: RecipeSort) => {
+    const currentParams = new URLSearchParams(Array.from(searchParams.entries()));
+    currentParams.set('sort', value);
+    router.push(`?${currentParams.toString()}`);
+  };
+
+  const {
+    recipes: filteredRecipes,
+    total: totalRecipes,
+    hasMore,
+    loadMore,
+    isLoading: recipesLoading,
+    isLoadingMore,
+  } = useRecipeList(
+    { query: debouncedSearchTerm, category: categoryFilter, tag: tagFilter, visibility: visibilityFilter, sort },
+    !!session && !!isUserApproved
+  );
+
+  // Infinite scroll: request the next page when the sentinel below the grid comes into view.
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMore) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) loadMore();
+    }, { rootMargin: "400px" });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadMore]);
+
   const isLoading = recipesLoading || status === 'loading';
 
   const handleClearFilters = () => {
@@ -67,50 +114,6 @@ function HomePageContent() {
     setSearchTerm("");
   };
   
-  const filteredRecipes = useMemo(() => {
-    let currentRecipes = [...recipes]; 
-
-    // If no session or user is not approved, show no recipes
-    if (!session || !isUserApproved) {
-      return []; 
-    }
-
-    // Only approved and authenticated users proceed to this filtering
-    if (visibilityFilter === "my-all") {
-      currentRecipes = currentRecipes.filter(recipe => recipe.createdBy === session.user.id);
-    } else if (visibilityFilter === "my-public") {
-      currentRecipes = currentRecipes.filter(recipe => recipe.createdBy === session.user.id && recipe.isPublic);
-    } else if (visibilityFilter === "my-private") {
-      currentRecipes = currentRecipes.filter(recipe => recipe.createdBy === session.user.id && !recipe.isPublic);
-    } else if (visibilityFilter === "community-public") {
-      currentRecipes = currentRecipes.filter(recipe => recipe.createdBy !== session.user.id && recipe.isPublic);
-    }
-
-    if (categoryFilter) {
-      currentRecipes = currentRecipes.filter(recipe =>
-        recipe.categories && recipe.categories.some(category => category.name.toLowerCase() === categoryFilter.toLowerCase())
-      );
-    } else if (tagFilter) {
-      currentRecipes = currentRecipes.filter(recipe =>
-        recipe.tags && recipe.tags.some(tag => tag.name.toLowerCase() === tagFilter.toLowerCase())
-      );
-    }
-
-    if (searchTerm) {
-      const lowerSearchTerm = searchTerm.toLowerCase();
-      currentRecipes = currentRecipes.filter(recipe => {
-        const titleMatch = recipe.title.toLowerCase().includes(lowerSearchTerm);
-        const descriptionMatch = recipe.description?.toLowerCase().includes(lowerSearchTerm) || false;
-        const categoryMatch = recipe.categories?.some(cat => cat.name.toLowerCase().includes(lowerSearchTerm)) || false;
-        const tagMatch = recipe.tags?.some(tag => tag.name.toLowerCase().includes(lowerSearchTerm)) || false;
-        const ingredientMatch = recipe.ingredientGroups?.some(group => group.ingredients.some(ing => ing.name.toLowerCase().includes(lowerSearchTerm))) || false;
-        return titleMatch || descriptionMatch || categoryMatch || tagMatch || ingredientMatch;
-      });
-    }
-    return currentRecipes;
-  }, [recipes, session, visibilityFilter, categoryFilter, tagFilter, searchTerm]);
-
-
   if (status === 'unauthenticated') {
     return (
       <div className="flex flex-col items-center justify-center min-h-[calc(100vh-200px)] text-center">
@@ -171,6 +174,22 @@ function HomePageContent() {
               </SelectContent>
             </Select>
           )}
+          {session && (
+            // Search results are ordered by relevance, so sorting only applies when browsing.
+            <Select value={sort} onValueChange={handleSortChange} disabled={!!debouncedSearchTerm}>
+              <SelectTrigger className="w-full sm:w-[180px]" aria-label={t('sort_by_label')}>
+                <div className="flex items-center gap-2">
+                  <ArrowUpDown className="h-4 w-4 text-muted-foreground" />
+                  <SelectValue placeholder={t('sort_by_label')} />
+                </div>
+              </SelectTrigger>
+              <SelectContent>
+                {sortOptions.map(opt => (
+                  <SelectItem key={opt.value} value={opt.value}>{t(opt.labelKey)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
           {session && isUserApproved && (
             <Button asChild className="w-full sm:w-auto">
               <Link href="/recipes/new">
@@ -234,10 +253,22 @@ function HomePageContent() {
           ))}
         </div>
       ) : session && filteredRecipes.length > 0 ? ( 
-        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-          {filteredRecipes.map((recipe) => (
-            <RecipeCard key={recipe.id} recipe={recipe} />
-          ))}
+        <div className="space-y-6">
+          <p className="text-sm text-muted-foreground">{t('recipes_found_count', { count: totalRecipes })}</p>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+            {filteredRecipes.map((recipe) => (
+              <RecipeCard key={recipe.id} recipe={recipe} />
+            ))}
+          </div>
+          {hasMore && (
+            <div ref={loadMoreRef} className="flex justify-center py-4">
+              {isLoadingMore ? (
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              ) : (
+                <Button variant="outline" onClick={loadMore}>{t('load_more_recipes')}</Button>
+              )}
+            </div>
+          )}
         </div>
       ) : session ? ( 
         <div className="text-center py-12">
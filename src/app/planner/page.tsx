@@ -0,0 +1,306 @@
+"use client";
+
+import { useAuth } from "@/contexts/AuthContext";
+import { useShoppingList } from "@/contexts/ShoppingListContext";
+import { useRouter } from "next/navigation";
+import { useEffect, useState } from "react";
+import useSWR from "swr";
+import { DragDropContext, Droppable, Draggable, type DropResult } from "@hello-pangea/dnd";
+import { useTranslation } from "@/lib/i18n";
+import { useRecipeList } from "@/hooks/use-recipe-list";
+import { MEAL_SLOTS, getWeekDates, getWeekStart, shiftWeek } from "@/lib/meal-plan";
+import type { MealPlanEntry, MealPlanResponse, MealSlot, NewShoppingListItem } from "@/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChevronLeft, ChevronRight, GripVertical, Loader2, Search, ShoppingCart, X } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import Link from "next/link";
+
+const fetcher = (url: string): Promise<MealPlanResponse> => fetch(url).then(res => {
+  if (!res.ok) throw new Error(res.statusText);
+  return res.json();
+});
+
+const slotDroppableId = (day: number, slot: MealSlot) => `slot-${day}-${slot}`;
+
+export default function PlannerPage() {
+  const { user, loading: authLoading } = useAuth();
+  const { addMultipleItems } = useShoppingList();
+  const router = useRouter();
+  const { t, currentLanguage } = useTranslation();
+
+  const [weekStart, setWeekStart] = useState(() => getWeekStart());
+  const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState("");
+  const [newServings, setNewServings] = useState(""); // Empty means "use the recipe's own servings"
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.replace("/login");
+    }
+  }, [user, authLoading, router]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearchTerm(searchTerm.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  const { data: plan, isLoading: isLoadingPlan, mutate } = useSWR<MealPlanResponse>(user ? `/api/meal-plans?week=${weekStart}` : null, fetcher);
+  const { recipes, isLoading: isLoadingRecipes } = useRecipeList({ query: debouncedSearchTerm, visibility: "all-viewable", pageSize: 20 }, !!user);
+
+  const entries = plan?.entries ?? [];
+  const weekDates = getWeekDates(weekStart);
+
+  const showError = (description: string) => toast({ title: t('error_generic_title'), description, variant: 'destructive' });
+
+  const addEntry = async (recipeId: string, day: number, slot: MealSlot) => {
+    const servings = parseInt(newServings, 10);
+    try {
+      const response = await fetch("/api/meal-plans/entries", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ weekStart, day, slot, recipeId, servings: servings > 0 ? servings : undefined }),
+      });
+      if (!response.ok) throw new Error(`Failed to add meal: ${response.status}`);
+      const entry: MealPlanEntry = await response.json();
+      mutate(current => current && { ...current, entries: [...current.entries, entry] }, { revalidate: false });
+    } catch (error) {
+      console.error("Error adding meal to plan:", error);
+      showError(t('planner_update_failed'));
+    }
+  };
+
+  const updateEntry = async (entryId: string, changes: Partial<Pick<MealPlanEntry, "day" | "slot" | "servings">>) => {
+    mutate(current => current && {
+      ...current,
+      entries: current.entries.map(entry => (entry.id === entryId ? { ...entry, ...changes } : entry)),
+    }, { revalidate: false });
+    try {
+      const response = await fetch(`/api/meal-plans/entries/${entryId}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+      if (!response.ok) throw new Error(`Failed to update meal: ${response.status}`);
+    } catch (error) {
+      console.error("Error updating planned meal:", error);
+      showError(t('planner_update_failed'));
+    }
+    mutate();
+  };
+
+  const removeEntry = async (entryId: string) => {
+    mutate(current => current && { ...current, entries: current.entries.filter(entry => entry.id !== entryId) }, { revalidate: false });
+    try {
+      const response = await fetch(`/api/meal-plans/entries/${entryId}`, { method: "DELETE" });
+      if (!response.ok && response.status !== 404) throw new Error(`Failed to remove meal: ${response.status}`);
+    } catch (error) {
+      console.error("Error removing planned meal:", error);
+      showError(t('planner_update_failed'));
+      mutate();
+    }
+  };
+
+  const onDragEnd = (result: DropResult) => {
+    const { source, destination, draggableId } = result;
+    if (!destination || !destination.droppableId.startsWith("slot-")) return;
+    const [, dayPart, slot] = destination.droppableId.split("-");
+    const day = parseInt(dayPart, 10);
+
+    if (source.droppableId === "recipes") {
+      addEntry(draggableId.replace(/^recipe-/, ""), day, slot as MealSlot);
+    } else if (source.droppableId !== destination.droppableId) {
+      updateEntry(draggableId.replace(/^entry-/, ""), { day, slot: slot as MealSlot });
+    }
+  };
+
+  const handleServingsChange = (entry: MealPlanEntry, value: string) => {
+    const servings = parseInt(value, 10);
+    if (servings > 0 && servings !== entry.servings) {
+      updateEntry(entry.id, { servings });
+    }
+  };
+
+  const handleGenerateShoppingList = async () => {
+    setIsGenerating(true);
+    try {
+      const response = await fetch(`/api/meal-plans/shopping-list?week=${weekStart}&lang=${currentLanguage}`);
+      if (!response.ok) throw new Error(`Failed to build shopping list: ${response.status}`);
+      const { items }: { items: NewShoppingListItem[] } = await response.json();
+      if (items.length === 0) {
+        toast({ title: t('planner_no_ingredients') });
+        return;
+      }
+      addMultipleItems(items);
+      toast({
+        title: t('items_added_to_shopping_list'),
+        description: <Link href="/shopping-list" className="underline">{t('planner_view_shopping_list')}</Link>,
+      });
+    } catch (error) {
+      console.error("Error generating shopping list from meal plan:", error);
+      showError(t('planner_shopping_list_failed'));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  if (authLoading || !user) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-10 w-1/3" />
+        <Skeleton className="h-96 w-full" />
+      </div>
+    );
+  }
+
+  const weekLabel = `${weekDates[0].toLocaleDateString(currentLanguage, { day: 'numeric', month: 'short' })} – ${weekDates[6].toLocaleDateString(currentLanguage, { day: 'numeric', month: 'short', year: 'numeric' })}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap justify-between items-center gap-4">
+        <h1 className="text-3xl font-bold">{t('meal_planner')}</h1>
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => setWeekStart(shiftWeek(weekStart, -1))} aria-label={t('planner_previous_week')}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="min-w-[12rem] text-center font-medium">{weekLabel}</span>
+          <Button variant="outline" size="icon" onClick={() => setWeekStart(shiftWeek(weekStart, 1))} aria-label={t('planner_next_week')}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" onClick={() => setWeekStart(getWeekStart())}>{t('planner_this_week')}</Button>
+          <Button onClick={handleGenerateShoppingList} disabled={isGenerating || entries.length === 0}>
+            {isGenerating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <ShoppingCart className="mr-2 h-4 w-4" />}
+            {t('planner_generate_shopping_list')}
+          </Button>
+        </div>
+      </div>
+
+      <DragDropContext onDragEnd={onDragEnd}>
+        <div className="grid gap-6 lg:grid-cols-[18rem_1fr]">
+          <Card className="shadow-lg h-fit">
+            <CardHeader>
+              <CardTitle className="text-lg">{t('planner_recipes')}</CardTitle>
+              <CardDescription>{t('planner_drag_hint')}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="relative">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input
+                  type="search"
+                  placeholder={t('search_recipes')}
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-8"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="planner-servings">{t('planner_servings_for_new')}</Label>
+                <Input
+                  id="planner-servings"
+                  type="number"
+                  min={1}
+                  placeholder={t('planner_servings_recipe_default')}
+                  value={newServings}
+                  onChange={(e) => setNewServings(e.target.value)}
+                />
+              </div>
+              <Droppable droppableId="recipes" isDropDisabled>
+                {(provided) => (
+                  <ul ref={provided.innerRef} {...provided.droppableProps} className="max-h-[60vh] space-y-2 overflow-y-auto">
+                    {isLoadingRecipes && <li><Skeleton className="h-9 w-full" /></li>}
+                    {!isLoadingRecipes && recipes.length === 0 && (
+                      <li className="text-sm text-muted-foreground">{t('planner_no_recipes')}</li>
+                    )}
+                    {recipes.map((recipe, index) => (
+                      <Draggable key={recipe.id} draggableId={`recipe-${recipe.id}`} index={index}>
+                        {(providedDraggable, snapshot) => (
+                          <li
+                            ref={providedDraggable.innerRef}
+                            {...providedDraggable.draggableProps}
+                            {...providedDraggable.dragHandleProps}
+                            className={`flex items-center gap-2 rounded-md border bg-card px-3 py-2 text-sm ${snapshot.isDragging ? "shadow-lg ring-2 ring-primary" : ""}`}
+                          >
+                            <GripVertical className="h-4 w-4 shrink-0 text-muted-foreground" />
+                            <span className="truncate">{recipe.title}</span>
+                          </li>
+                        )}
+                      </Draggable>
+                    ))}
+                    {provided.placeholder}
+                  </ul>
+                )}
+              </Droppable>
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-4 sm:grid-cols-2 xl:grid-cols-4 2xl:grid-cols-7">
+            {weekDates.map((date, day) => (
+              <Card key={day} className="shadow-sm">
+                <CardHeader className="p-3 pb-1">
+                  <CardTitle className="text-base capitalize">
+                    {date.toLocaleDateString(currentLanguage, { weekday: 'long', day: 'numeric', month: 'short' })}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3 p-3">
+                  {MEAL_SLOTS.map(slot => (
+                    <div key={slot}>
+                      <p className="mb-1 text-xs font-semibold uppercase text-muted-foreground">{t(`meal_slot_${slot}`)}</p>
+                      <Droppable droppableId={slotDroppableId(day, slot)}>
+                        {(provided, snapshot) => (
+                          <ul
+                            ref={provided.innerRef}
+                            {...provided.droppableProps}
+                            className={`min-h-[3rem] space-y-1 rounded-md border border-dashed p-1 transition-colors ${snapshot.isDraggingOver ? "border-primary bg-primary/10" : ""}`}
+                          >
+                            {isLoadingPlan && <li><Skeleton className="h-8 w-full" /></li>}
+                            {entries.filter(entry => entry.day === day && entry.slot === slot).map((entry, index) => (
+                              <Draggable key={entry.id} draggableId={`entry-${entry.id}`} index={index}>
+                                {(providedDraggable, draggableSnapshot) => (
+                                  <li
+                                    ref={providedDraggable.innerRef}
+                                    {...providedDraggable.draggableProps}
+                                    {...providedDraggable.dragHandleProps}
+                                    className={`rounded bg-muted px-2 py-1 text-sm ${draggableSnapshot.isDragging ? "shadow-lg ring-2 ring-primary" : ""}`}
+                                  >
+                                    <div className="flex items-start justify-between gap-1">
+                                      <Link href={`/recipes/${entry.recipe.id}`} className="line-clamp-2 font-medium hover:underline">{entry.recipe.title}</Link>
+                                      <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" onClick={() => removeEntry(entry.id)} aria-label={t('planner_remove_meal')}>
+                                        <X className="h-3 w-3" />
+                                      </Button>
+                                    </div>
+                                    <div className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+                                      <Input
+                                        type="number"
+                                        min={1}
+                                        key={entry.servings}
+                                        defaultValue={entry.servings}
+                                        onBlur={(e) => handleServingsChange(entry, e.target.value)}
+                                        onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                                        className="h-6 w-14 px-1 text-xs"
+                                        aria-label={t('number_of_servings')}
+                                      />
+                                      <span>{t(entry.recipe.servingsUnit === 'pieces' ? 'servings_unit_pieces' : 'servings_unit_servings')}</span>
+                                    </div>
+                                  </li>
+                                )}
+                              </Draggable>
+                            ))}
+                            {provided.placeholder}
+                          </ul>
+                        )}
+                      </Droppable>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      </DragDropContext>
+    </div>
+  );
+}
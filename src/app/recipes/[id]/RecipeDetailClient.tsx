@@ -3,7 +3,7 @@
 import { useState, useEffect, useMemo, useRef, useCallback, Suspense } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { useRecipes } from "@/contexts/RecipeContext";
-import type { Recipe as RecipeType, Ingredient as IngredientType, IngredientGroup as IngredientGroupType, InstructionStep as InstructionStepType, TipStep as TipStepType, ServingsUnit } from "@/types";
+import type { Recipe as RecipeType, Ingredient as IngredientType, IngredientGroup as IngredientGroupType, InstructionStep as InstructionStepType, TipStep as TipStepType, ServingsUnit, UnitDisplayPreference } from "@/types";
 import { useSession } from "next-auth/react";
 import { useShoppingList } from "@/contexts/ShoppingListContext";
 import { useTranslation } from "@/lib/i18n";
@@ -16,12 +16,14 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Separator } from "@/components/ui/separator";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Clock, Users, Tag, Bookmark, Edit, Trash2, ShoppingCart, Minus, Plus, ArrowLeft, Globe, EyeOff, FileText, FileCode, Loader2, Download, Smartphone, Info, Lightbulb, Utensils, Star as StarIcon, Link as LinkIcon } from "lucide-react";
+import { Clock, Users, Tag, Bookmark, Edit, Trash2, ShoppingCart, Minus, Plus, ArrowLeft, Globe, EyeOff, FileText, FileCode, Loader2, Download, Smartphone, Info, Lightbulb, Utensils, Star as StarIcon, Link as LinkIcon, Share2, Printer } from "lucide-react";
 import Link from "next/link";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Switch } from "@/components/ui/switch";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { StarRating } from "@/components/recipe/StarRating";
+import { ShareRecipeDialog } from "@/components/recipe/ShareRecipeDialog";
+import { NutritionPanel } from "@/components/recipe/NutritionPanel";
 import {
   AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
@@ -30,25 +32,24 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { toast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
+import { scaleQuantity } from "@/lib/quantity";
+import { convertAmount } from "@/lib/units";
 import useSWR from 'swr';
 import { v4 as uuidv4 } from "uuid";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 
+const unitDisplayOptions: { value: UnitDisplayPreference; labelKey: string }[] = [
+  { value: "original", labelKey: "unit_system_original_short" },
+  { value: "metric", labelKey: "unit_system_metric_short" },
+  { value: "us", labelKey: "unit_system_us_short" },
+];
+
 interface ScaledIngredientGroup extends Omit<IngredientGroupType, 'ingredients'> {
-  ingredients: { name: string; quantity: string; unit: string; id: string; }[];
+  ingredients: { name: string; quantity: string; unit: string; id: string; weight?: string; }[];
 }
 
 
 
-const scaleIngredientQuantityForDisplay = (quantityStr: string, originalServingsValue: number, newServingsValue: number): string => {
-    if (typeof quantityStr !== 'string') return '';
-    const quantityNum = parseFloat(quantityStr.replace(',', '.'));
-    if (isNaN(quantityNum) || originalServingsValue <= 0 || newServingsValue <= 0) return quantityStr;
-    const scaledQuantity = (quantityNum / originalServingsValue) * newServingsValue;
-    let formattedQuantity = Number.isInteger(scaledQuantity) ? scaledQuantity.toString() : Number(scaledQuantity.toFixed(2)).toString().replace(/\.?0+$/, '');
-    return formattedQuantity.replace('.', ',');
-};
-
 const linkifyText = (text: string): React.ReactNode[] => {
   if (!text) return [];
   const urlRegex = /(https?:\/\/[^\s]+)/g;
@@ -77,14 +78,14 @@ function RecipeDetailPageContent() {
   const router = useRouter();
   const recipeId = params.id as string;
 
-  const { updateRecipe, deleteRecipe, exportSingleRecipeAsHTML, exportSingleRecipeAsMarkdown, submitRecipeRating, loading: recipesLoadingFromContext } = useRecipes();
+  const { updateRecipe, deleteRecipe, exportSingleRecipeAsHTML, exportSingleRecipeAsMarkdown, exportSingleRecipeAsCooklang, exportSingleRecipeAsPdf, submitRecipeRating } = useRecipes();
   const { data: session, status } = useSession();
   const { addMultipleItems: addItemsToShoppingList } = useShoppingList();
   const { t, currentLanguage } = useTranslation();
   const { user, isAdmin, loading: authLoading } = useAuth();
 
   const fetcher = (url: string) => fetch(url).then(res => res.json());
-  const { data: recipe, error, isLoading: isLoadingRecipe } = useSWR<RecipeType>(`/api/recipes/${recipeId}`, fetcher);
+  const { data: recipe, error, isLoading: isLoadingRecipe, mutate: mutateRecipe } = useSWR<RecipeType>(`/api/recipes/${recipeId}`, fetcher);
 
   const handleImageError = () => {
     if (recipe && recipe.imageUrl && !recipe.imageUrl.startsWith('data:image') && ((user && recipe.createdBy === user.id) || isAdmin)) {
@@ -101,7 +102,9 @@ function RecipeDetailPageContent() {
   const [showExportDialog, setShowExportDialog] = useState(false);
   const [exportContent, setExportContent] = useState("");
   const [exportContentType, setExportContentType] = useState<"html" | "markdown" | "">("");
+  const [showShareDialog, setShowShareDialog] = useState(false);
   const [keepScreenOn, setKeepScreenOn] = useState(false);
+  const [unitDisplay, setUnitDisplay] = useState<UnitDisplayPreference>("original");
   const wakeLockRef = useRef<WakeLockSentinel | null>(null);
 
   const [instructionStepStates, setInstructionStepStates] = useState<Record<string, boolean>>({});
@@ -150,17 +153,22 @@ function RecipeDetailPageContent() {
     return () => releaseWakeLock();
   }, [keepScreenOn, t]);
 
+  useEffect(() => {
+    if (user?.unitSystem) setUnitDisplay(user.unitSystem);
+  }, [user?.unitSystem]);
+
   const scaledIngredientGroups: ScaledIngredientGroup[] = useMemo(() => {
     if (!recipe || !recipe.ingredientGroups) return [];
 
     return recipe.ingredientGroups.map(group => ({
       ...group,
-      ingredients: group.ingredients.map(ing => ({
-        ...ing,
-        quantity: recipe.servingsValue ? scaleIngredientQuantityForDisplay(ing.quantity, recipe.servingsValue, numServings) : ing.quantity
-      }))
+      ingredients: group.ingredients.map(ing => {
+        const quantity = recipe.servingsValue ? scaleQuantity(ing.quantity, numServings / recipe.servingsValue, { language: currentLanguage }) : ing.quantity;
+        if (unitDisplay === "original") return { ...ing, quantity };
+        return { ...ing, ...convertAmount(quantity, ing.unit, ing.name, unitDisplay, currentLanguage) };
+      })
     }));
-  }, [recipe, numServings]);
+  }, [recipe, numServings, currentLanguage, unitDisplay]);
 
   const handleDisplayServingsInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const rawValue = event.target.value;
@@ -221,7 +229,7 @@ function RecipeDetailPageContent() {
 
   const handleExportHTML = async () => {
     if (!recipe?.id) return; setIsExportingHtml(true);
-    const result = await exportSingleRecipeAsHTML(recipe.id);
+    const result = await exportSingleRecipeAsHTML(recipe.id, numServings);
     if (result.success && result.content) {
       setExportContent(result.content);
       setExportContentType("html");
@@ -233,7 +241,7 @@ function RecipeDetailPageContent() {
   };
   const handleExportMarkdown = async () => {
     if (!recipe?.id) return; setIsExportingMarkdown(true);
-    const result = await exportSingleRecipeAsMarkdown(recipe.id);
+    const result = await exportSingleRecipeAsMarkdown(recipe.id, numServings);
     if (result.success && result.content) {
       setExportContent(result.content);
       setExportContentType("markdown");
@@ -244,6 +252,22 @@ function RecipeDetailPageContent() {
     setIsExportingMarkdown(false);
   };
 
+  const handleExportCooklang = async () => {
+    if (!recipe?.id) return;
+    const result = await exportSingleRecipeAsCooklang(recipe.id, numServings);
+    if (!result.success) {
+      toast({ title: t('error_exporting_cooklang'), description: result.error || t('no_recipe_to_export'), variant: "destructive" });
+    }
+  };
+
+  const handleExportPdf = async () => {
+    if (!recipe?.id) return;
+    const result = await exportSingleRecipeAsPdf(recipe.id, numServings);
+    if (!result.success) {
+      toast({ title: t('error_creating_pdf'), description: result.error || t('no_recipe_to_export'), variant: "destructive" });
+    }
+  };
+
   const handleToggleInstructionStep = useCallback((stepId: string) => {
     setInstructionStepStates(prev => ({ ...prev, [stepId]: !prev[stepId], }));
   }, []);
@@ -270,7 +294,7 @@ function RecipeDetailPageContent() {
   };
 
 
-  if (isLoadingRecipe || authLoading || recipesLoadingFromContext && recipe === undefined) {
+  if (isLoadingRecipe || authLoading) {
     return <div className="max-w-3xl mx-auto space-y-6"> <Skeleton className="h-12 w-3/4" /> <Skeleton className="h-64 w-full rounded-lg" /> <div className="grid md:grid-cols-3 gap-6"> <div className="md:col-span-1 space-y-4"><Skeleton className="h-8 w-full" /><Skeleton className="h-32 w-full" /></div> <div className="md:col-span-2 space-y-4"><Skeleton className="h-8 w-1/2" /><Skeleton className="h-48 w-full" /></div> </div> </div>;
   }
   if (!recipe) return <div className="text-center py-10 text-xl text-muted-foreground">{t('recipe_not_found')}</div>;
@@ -325,7 +349,8 @@ function RecipeDetailPageContent() {
             </div>
             <div className="flex gap-2 flex-shrink-0 items-center">
               <TooltipProvider><Tooltip><TooltipTrigger asChild><div className="flex items-center space-x-2"><Switch id="keep-screen-on" checked={keepScreenOn} onCheckedChange={setKeepScreenOn} aria-label={t('keep_screen_on_label')} /><Label htmlFor="keep-screen-on" className="text-sm text-muted-foreground flex items-center"><Smartphone className="mr-1 h-4 w-4" />{t('keep_screen_on_label_short')}<Info className="ml-1 h-3 w-3 cursor-help" /></Label></div></TooltipTrigger><TooltipContent><p>{t('keep_screen_on_tooltip')}</p></TooltipContent></Tooltip></TooltipProvider>
-              <DropdownMenu><DropdownMenuTrigger asChild><Button variant="outline" size="icon" aria-label={t('export_recipe')} disabled={anyExportInProgress}>{anyExportInProgress ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}</Button></DropdownMenuTrigger><DropdownMenuContent align="end"><DropdownMenuItem onClick={handleExportHTML} disabled={isExportingHtml}><FileCode className="mr-2 h-4 w-4" />{t('export_as_html_item')}</DropdownMenuItem><DropdownMenuItem onClick={handleExportMarkdown} disabled={isExportingMarkdown}><FileText className="mr-2 h-4 w-4" />{t('export_as_markdown_item')}</DropdownMenuItem></DropdownMenuContent></DropdownMenu>
+              <DropdownMenu><DropdownMenuTrigger asChild><Button variant="outline" size="icon" aria-label={t('export_recipe')} disabled={anyExportInProgress}>{anyExportInProgress ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}</Button></DropdownMenuTrigger><DropdownMenuContent align="end"><DropdownMenuItem onClick={handleExportHTML} disabled={isExportingHtml}><FileCode className="mr-2 h-4 w-4" />{t('export_as_html_item')}</DropdownMenuItem><DropdownMenuItem onClick={handleExportMarkdown} disabled={isExportingMarkdown}><FileText className="mr-2 h-4 w-4" />{t('export_as_markdown_item')}</DropdownMenuItem><DropdownMenuItem onClick={handleExportCooklang}><FileText className="mr-2 h-4 w-4" />{t('export_as_cooklang_item')}</DropdownMenuItem><DropdownMenuItem onClick={handleExportPdf}><Printer className="mr-2 h-4 w-4" />{t('export_as_pdf_item')}</DropdownMenuItem></DropdownMenuContent></DropdownMenu>
+              {canEdit && <Button variant="outline" size="icon" onClick={() => setShowShareDialog(true)} aria-label={t('share_recipe')}><Share2 className="h-4 w-4" /></Button>}
               {canEdit && <Button variant="outline" size="icon" asChild><Link href={`/recipes/${recipe.id}/edit`} aria-label={t('edit_recipe')}><Edit className="h-4 w-4" /></Link></Button>}
               {canDelete && <AlertDialog><AlertDialogTrigger asChild><Button variant="destructive" size="icon" aria-label={t('delete_recipe')}><Trash2 className="h-4 w-4" /></Button></AlertDialogTrigger><AlertDialogContent><AlertDialogHeader><AlertDialogTitle>{t('confirm_delete_recipe')}</AlertDialogTitle><AlertDialogDescription>{t('this_action_cannot_be_undone')}</AlertDialogDescription></AlertDialogHeader><AlertDialogFooter><AlertDialogCancel>{t('cancel')}</AlertDialogCancel><AlertDialogAction onClick={handleDeleteRecipe}>{t('delete')}</AlertDialogAction></AlertDialogFooter></AlertDialogContent></AlertDialog>}
             </div>
@@ -392,12 +417,22 @@ function RecipeDetailPageContent() {
                         <Button variant="outline" size="icon" onClick={incrementServings} aria-label={t('increase_servings')}><Plus className="h-4 w-4" /></Button>
                     </div>
                   </div>
+                  <div className="flex items-center gap-1" role="group" aria-label={t('unit_system')}>
+                    {unitDisplayOptions.map(opt => (
+                      <Button key={opt.value} variant={unitDisplay === opt.value ? "default" : "outline"} size="sm" onClick={() => setUnitDisplay(opt.value)}>
+                        {t(opt.labelKey)}
+                      </Button>
+                    ))}
+                  </div>
                   {scaledIngredientGroups.map(group => (
                     <div key={group.id} className="mt-4">
                       { (recipe.ingredientGroups.length > 1 || (group.name && group.name !== t('default_ingredient_group_name'))) && <h4 className="text-md font-medium text-primary mb-1">{group.name}</h4>}
                       <ul className="space-y-1.5 list-disc list-inside pl-1">
                         {group.ingredients.map((ing, index) => (
-                          <li key={ing.id || index} className="text-muted-foreground"><span className="font-medium text-foreground">{ing.quantity} {ing.unit}</span> {ing.name}</li>
+                          <li key={ing.id || index} className="text-muted-foreground">
+                            <span className="font-medium text-foreground">{ing.quantity} {ing.unit}</span> {ing.name}
+                            {ing.weight && <span className="text-xs"> (≈ {ing.weight})</span>}
+                          </li>
                         ))}
                       </ul>
                     </div>
@@ -471,6 +506,15 @@ function RecipeDetailPageContent() {
             </>
           )}
 
+          <NutritionPanel
+            recipeId={recipe.id}
+            nutrition={recipe.nutrition}
+            servings={numServings}
+            servingsUnit={recipe.servingsUnit}
+            canEdit={!!canEdit}
+            onNutritionChange={nutrition => mutateRecipe({ ...recipe, nutrition }, { revalidate: false })}
+          />
+
           {(recipe.categories?.length > 0 || recipe.tags?.length > 0) && <Separator />}
           <div className="space-y-4">
             {recipe.categories?.length > 0 && <div className="flex items-center gap-2 flex-wrap"><Bookmark className="h-5 w-5 text-primary" /><strong className="text-sm">{t('categories')}:</strong>{recipe.categories.map(cat => <Link key={cat.name} href={`/?category=${encodeURIComponent(cat.name)}`} passHref legacyBehavior><a className="no-underline"><Badge variant="secondary" className="cursor-pointer hover:bg-primary/10 hover:border-primary/50 border border-transparent transition-colors">{cat.name}</Badge></a></Link>)}</div>}
@@ -496,6 +540,8 @@ function RecipeDetailPageContent() {
           </div>
         </DialogContent>
       </Dialog>
+
+      {canEdit && <ShareRecipeDialog recipeId={recipe.id} open={showShareDialog} onOpenChange={setShowShareDialog} />}
     </div>
   );
 }
@@ -4,7 +4,6 @@
 import { useEffect, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { RecipeForm } from "@/components/recipe/RecipeForm";
-import { useRecipes } from "@/contexts/RecipeContext";
 import type { Recipe } from "@/types";
 import { useAuth } from "@/contexts/AuthContext";
 import { useTranslation } from "@/lib/i18n";
@@ -13,15 +12,18 @@ import { toast } from "@/hooks/use-toast";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { AlertTriangle, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import useSWR from 'swr';
 
 export default function EditRecipePage() {
   const params = useParams();
   const router = useRouter();
   const recipeId = params.id as string;
   
-  const { getRecipeById, loading: recipesLoading } = useRecipes();
   const { user, loading: authLoading, isUserApproved } = useAuth();
   const { t } = useTranslation();
+
+  const fetcher = (url: string) => fetch(url).then(res => res.ok ? res.json() : null);
+  const { data: fetchedRecipe, isLoading: recipesLoading } = useSWR<Recipe | null>(recipeId ? `/api/recipes/${recipeId}` : null, fetcher);
   
   const [initialData, setInitialData] = useState<Recipe | null | undefined>(undefined); 
 
@@ -38,7 +40,7 @@ export default function EditRecipePage() {
 
   useEffect(() => {
     if (recipeId && !recipesLoading && user) { 
-      if (!isUserApproved && getRecipeById(recipeId)?.createdBy === user.id) {
+      if (!isUserApproved && fetchedRecipe?.createdBy === user.id) {
         // User owns the recipe but is not approved. For simplicity, block edit for now.
         // Or, allow edit but warn that it might not be visible based on their approval status.
         // For now, consistent with add: block if not approved.
@@ -46,7 +48,7 @@ export default function EditRecipePage() {
         return;
       }
 
-      const recipe = getRecipeById(recipeId);
+      const recipe = fetchedRecipe;
       if (recipe) {
         if (recipe.createdBy !== user.id && !(user.roles as string[])?.includes('admin')) { 
           toast({ title: t("error_generic_title"), description: t("unauthorized_edit_recipe"), variant: "destructive" });
@@ -59,7 +61,7 @@ export default function EditRecipePage() {
         setInitialData(null); 
       }
     }
-  }, [recipeId, getRecipeById, recipesLoading, user, router, t, isUserApproved]);
+  }, [recipeId, fetchedRecipe, recipesLoading, user, router, t, isUserApproved]);
 
   const isLoading = authLoading || recipesLoading || initialData === undefined;
 
@@ -73,7 +75,7 @@ export default function EditRecipePage() {
     );
   }
   
-  if (user && !isUserApproved && initialData === null && getRecipeById(recipeId)?.createdBy === user.id) {
+  if (user && !isUserApproved && initialData === null && fetchedRecipe?.createdBy === user.id) {
     // This case means: user owns it, but they are not approved.
     return (
       <div className="max-w-xl mx-auto mt-10">
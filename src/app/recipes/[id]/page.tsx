@@ -1,7 +1,52 @@
 import { Metadata } from "next";
 import { prisma } from "@/lib/prisma";
+import { buildRecipeJsonLd, publicImageUrl, serializeJsonLd } from "@/lib/recipe-jsonld";
 import RecipeDetailClient from "./RecipeDetailClient";
 
+const getBaseUrl = () => (process.env.NEXTAUTH_URL || "http://localhost:3000").replace(/\/$/, "");
+
+// Structured data and link previews are only published for public recipes.
+async function getPublicRecipe(id: string) {
+  return prisma.recipe.findFirst({
+    where: { id, isPublic: true },
+    select: {
+      id: true,
+      title: true,
+      description: true,
+      imageUrl: true,
+      servingsValue: true,
+      servingsUnit: true,
+      prepTime: true,
+      cookTime: true,
+      createdAt: true,
+      updatedAt: true,
+      averageRating: true,
+      numRatings: true,
+      ingredientGroups: {
+        orderBy: { position: "asc" },
+        select: {
+          name: true,
+          ingredients: {
+            orderBy: { position: "asc" },
+            select: { name: true, quantity: true, unit: true },
+          },
+        },
+      },
+      instructions: {
+        orderBy: { position: "asc" },
+        select: { text: true },
+      },
+      tips: {
+        orderBy: { position: "asc" },
+        select: { text: true },
+      },
+      tags: { select: { name: true } },
+      categories: { select: { name: true } },
+      createdById: { select: { displayName: true } },
+    },
+  });
+}
+
 export async function generateMetadata({
   params,
 }: {
@@ -12,7 +57,7 @@ export async function generateMetadata({
   try {
     const recipe = await prisma.recipe.findUnique({
       where: { id },
-      select: { title: true },
+      select: { title: true, description: true, imageUrl: true, isPublic: true },
     });
 
     if (!recipe) {
@@ -21,8 +66,34 @@ export async function generateMetadata({
       };
     }
 
+    if (!recipe.isPublic) {
+      return {
+        title: recipe.title,
+      };
+    }
+
+    const baseUrl = getBaseUrl();
+    const url = `${baseUrl}/recipes/${id}`;
+    const image = publicImageUrl(recipe.imageUrl, baseUrl);
+    const description = recipe.description || undefined;
+
     return {
       title: recipe.title,
+      description,
+      alternates: { canonical: url },
+      openGraph: {
+        type: "article",
+        title: recipe.title,
+        description,
+        url,
+        ...(image ? { images: [{ url: image, alt: recipe.title }] } : {}),
+      },
+      twitter: {
+        card: image ? "summary_large_image" : "summary",
+        title: recipe.title,
+        description,
+        ...(image ? { images: [image] } : {}),
+      },
     };
   } catch (error) {
     return {
@@ -31,6 +102,23 @@ export async function generateMetadata({
   }
 }
 
-export default function RecipeDetailPage() {
-  return <RecipeDetailClient />;
-}
\ No newline at end of file
+export default async function RecipeDetailPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const recipe = await getPublicRecipe(id);
+
+  return (
+    <>
+      {recipe && (
+        <script
+          type="application/ld+json"
+          dangerouslySetInnerHTML={{ __html: serializeJsonLd(buildRecipeJsonLd(recipe, getBaseUrl())) }}
+        />
+      )}
+      <RecipeDetailClient />
+    </>
+  );
+}
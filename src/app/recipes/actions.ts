@@ -0,0 +1,46 @@
+'use server';
+
+import { getServerSession } from 'next-auth/next';
+import { authOptions } from '@/lib/auth';
+import { fetchPage, PageFetchError } from '@/lib/page-fetch';
+import { extractPageContent, parseStructuredRecipe } from '@/lib/structured-recipe';
+import { parseRecipeFromText, type ParseRecipeOutput } from '@/ai/flows/parse-recipe-from-text-flow';
+
+// `error` is a translation key; messages thrown from server actions don't reach the browser in production.
+export type ImportRecipeFromUrlResult =
+  | { recipe: ParseRecipeOutput; usedStructuredData: boolean }
+  | { error: string };
+
+/**
+ * Fetches a recipe page on the server and reads the recipe from it: from the page's
+ * schema.org data when it has any, otherwise by giving the page's main text to the AI
+ * parser. The page's `og:image` becomes the recipe's image.
+ */
+export async function importRecipeFromUrl(url: string): Promise<ImportRecipeFromUrlResult> {
+  const session = await getServerSession(authOptions);
+  if (!session?.user) {
+    return { error: 'unauthorized_action' };
+  }
+
+  let page;
+  try {
+    page = await fetchPage(url);
+  } catch (error) {
+    console.warn(`[importRecipeFromUrl] Could not fetch ${url}:`, error);
+    return { error: error instanceof PageFetchError ? `url_import_error_${error.code}` : 'url_import_error_network_error' };
+  }
+
+  const structuredData = parseStructuredRecipe(page.html, page.url);
+  if (structuredData) {
+    return { recipe: structuredData, usedStructuredData: true };
+  }
+
+  const { text, imageUrl } = extractPageContent(page.html, page.url);
+  try {
+    const recipe = await parseRecipeFromText({ inputText: text });
+    return { recipe: { ...recipe, sourceUrl: page.url, extractedImageUrl: imageUrl }, usedStructuredData: false };
+  } catch (error) {
+    console.error('[importRecipeFromUrl] Error parsing the page text:', error);
+    return { error: 'recipe_import_error_generic' };
+  }
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import type { Recipe } from "@/types";
+import { useTranslation } from "@/lib/i18n";
+import NextImage from "next/image";
+import Link from "next/link";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Clock, Utensils, Lightbulb, Link as LinkIcon, Share2, AlertTriangle } from "lucide-react";
+
+interface SharedRecipeClientProps {
+  recipe: Recipe | null;
+  expiresAt: string | null;
+}
+
+export default function SharedRecipeClient({ recipe, expiresAt }: SharedRecipeClientProps) {
+  const { t, currentLanguage } = useTranslation();
+
+  if (!recipe) {
+    return (
+      <div className="max-w-xl mx-auto mt-10">
+        <Alert variant="destructive">
+          <AlertTriangle className="h-5 w-5" />
+          <AlertTitle>{t('share_link_invalid_title')}</AlertTitle>
+          <AlertDescription>{t('share_link_invalid_or_expired')}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const displayServingsUnit = recipe.servingsUnit === 'pieces' ? t('servings_unit_pieces') : t('servings_unit_servings');
+
+  return (
+    <div className="max-w-4xl mx-auto">
+      <Alert className="mb-4">
+        <Share2 className="h-4 w-4" />
+        <AlertTitle>{t('shared_recipe_notice_title')}</AlertTitle>
+        <AlertDescription>
+          {t('shared_recipe_notice', { date: expiresAt ? new Date(expiresAt).toLocaleDateString(currentLanguage) : '' })}
+        </AlertDescription>
+      </Alert>
+
+      <Card className="overflow-hidden shadow-xl">
+        {recipe.imageUrl && (
+          <div className="relative w-full h-64 md:h-96">
+            {recipe.imageUrl.startsWith('data:image') ? (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img src={recipe.imageUrl} alt={recipe.title} className="w-full h-full object-cover" />
+            ) : (
+              <NextImage src={recipe.imageUrl} alt={recipe.title} fill sizes="100vw" className="object-cover" priority />
+            )}
+          </div>
+        )}
+        <CardHeader className="pt-6">
+          <CardTitle className="text-3xl md:text-4xl font-bold">{recipe.title}</CardTitle>
+          {recipe.description && <CardDescription className="text-lg text-muted-foreground pt-2">{recipe.description}</CardDescription>}
+          {recipe.sourceUrl && (
+            <p className="text-sm text-muted-foreground pt-2">
+              <LinkIcon className="inline-block h-4 w-4 mr-1 align-middle" />
+              {t('source_url_label')}:{' '}
+              <Link href={recipe.sourceUrl} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline break-all">
+                {recipe.sourceUrl}
+              </Link>
+            </p>
+          )}
+        </CardHeader>
+        <CardContent className="py-6 space-y-8">
+          <div className="grid md:grid-cols-3 gap-6 text-sm items-center">
+            {recipe.prepTime && <div className="flex items-center gap-2"><Clock className="h-5 w-5 text-primary" /><div><strong>{t('prep_time')}:</strong> {recipe.prepTime}</div></div>}
+            {recipe.cookTime && <div className="flex items-center gap-2"><Clock className="h-5 w-5 text-primary" /><div><strong>{t('cook_time')}:</strong> {recipe.cookTime}</div></div>}
+            <div className="flex items-center gap-2"><Utensils className="h-5 w-5 text-primary" /><div><strong>{t('servings')}:</strong> {recipe.servingsValue} {displayServingsUnit}</div></div>
+          </div>
+
+          <Separator />
+          <div className="grid md:grid-cols-3 gap-x-8 gap-y-6">
+            <div className="md:col-span-1 space-y-4">
+              <h3 className="text-xl font-semibold">{t('ingredients')}</h3>
+              {recipe.ingredientGroups.map(group => (
+                <div key={group.id}>
+                  {(recipe.ingredientGroups.length > 1 || group.name) && <h4 className="text-md font-medium text-primary mb-1">{group.name}</h4>}
+                  <ul className="space-y-1.5 list-disc list-inside pl-1">
+                    {group.ingredients.map(ing => (
+                      <li key={ing.id} className="text-muted-foreground"><span className="font-medium text-foreground">{ing.quantity} {ing.unit}</span> {ing.name}</li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+            <div className="md:col-span-2">
+              <h3 className="text-xl font-semibold mb-2">{t('instructions')}</h3>
+              {recipe.instructions.length > 0 ? (
+                <ol className="list-decimal list-outside space-y-3 pl-5">
+                  {recipe.instructions.map(step => (
+                    <li key={step.id} className="prose prose-sm sm:prose-base max-w-none text-foreground whitespace-pre-line">{step.text}</li>
+                  ))}
+                </ol>
+              ) : (
+                <p className="text-muted-foreground">{t('no_instructions_provided')}</p>
+              )}
+            </div>
+          </div>
+
+          {recipe.tips && recipe.tips.length > 0 && (
+            <>
+              <Separator />
+              <div>
+                <h3 className="text-xl font-semibold mb-2 flex items-center gap-2">
+                  <Lightbulb className="h-5 w-5 text-primary" />
+                  {t('tips_label')}
+                </h3>
+                <ol className="list-decimal list-outside space-y-3 pl-5">
+                  {recipe.tips.map(tip => (
+                    <li key={tip.id} className="prose prose-sm sm:prose-base max-w-none text-foreground whitespace-pre-line">{tip.text}</li>
+                  ))}
+                </ol>
+              </div>
+            </>
+          )}
+
+          {(recipe.categories.length > 0 || recipe.tags.length > 0) && (
+            <>
+              <Separator />
+              <div className="flex items-center gap-2 flex-wrap">
+                {recipe.categories.map(cat => <Badge key={cat.name} variant="secondary">{cat.name}</Badge>)}
+                {recipe.tags.map(tag => <Badge key={tag.name} variant="outline">{tag.name}</Badge>)}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
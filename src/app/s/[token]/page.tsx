@@ -0,0 +1,97 @@
+import { Metadata } from "next";
+import { prisma } from "@/lib/prisma";
+import SharedRecipeClient from "./SharedRecipeClient";
+import type { Recipe } from "@/types";
+
+// Resolves a share token to its recipe, ignoring tokens that have expired.
+async function getSharedRecipe(token: string) {
+  const shareToken = await prisma.shareToken.findFirst({
+    where: {
+      token,
+      expiresAt: { gt: new Date() },
+    },
+    select: {
+      expiresAt: true,
+      recipe: {
+        select: {
+          id: true,
+          title: true,
+          description: true,
+          servingsValue: true,
+          servingsUnit: true,
+          prepTime: true,
+          cookTime: true,
+          imageUrl: true,
+          sourceUrl: true,
+          ingredientGroups: {
+            orderBy: { position: "asc" },
+            include: {
+              ingredients: {
+                orderBy: { position: "asc" },
+              },
+            },
+          },
+          instructions: {
+            orderBy: { position: "asc" },
+          },
+          tips: {
+            orderBy: { position: "asc" },
+          },
+          tags: {
+            select: {
+              name: true,
+            },
+          },
+          categories: {
+            select: {
+              name: true,
+            },
+          },
+        },
+      },
+    },
+  });
+
+  return shareToken;
+}
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}): Promise<Metadata> {
+  const { token } = await params;
+
+  try {
+    const shareToken = await getSharedRecipe(token);
+    return {
+      title: shareToken ? shareToken.recipe.title : "Recipe Not Found",
+      robots: { index: false, follow: false },
+    };
+  } catch (error) {
+    return {
+      title: "Recipe",
+      robots: { index: false, follow: false },
+    };
+  }
+}
+
+export default async function SharedRecipePage({
+  params,
+}: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await params;
+  const shareToken = await getSharedRecipe(token);
+
+  if (!shareToken) {
+    return <SharedRecipeClient recipe={null} expiresAt={null} />;
+  }
+
+  return (
+    <SharedRecipeClient
+      recipe={shareToken.recipe as unknown as Recipe}
+      expiresAt={shareToken.expiresAt.toISOString()}
+    />
+  );
+}
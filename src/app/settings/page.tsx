@@ -7,6 +7,7 @@ import { useRouter } from "next/navigation";
 import { useEffect, useState, useRef } from "react"; 
 import { useTranslation } from "@/lib/i18n";
 import { useSession } from "next-auth/react";
+import useSWR from "swr";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { LanguageSwitcher } from "@/components/LanguageSwitcher";
 import { ThemeToggle } from "@/components/ThemeToggle";
@@ -14,26 +15,94 @@ import { Label } from "@/components/ui/label";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Button } from "@/components/ui/button"; 
 import { Input } from "@/components/ui/input"; 
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { ImportPreviewTable, defaultImportDecision } from "@/components/recipe/ImportPreviewTable";
+import { CookbookDialog } from "@/components/recipe/CookbookDialog";
+import { translateValidationMessage } from "@/lib/recipe-schema";
+import type { RecipeExportFilters, RecipeImportDecision, RecipeImportPreviewItem, RecipeImportResult, UnitDisplayPreference } from "@/types";
 import { toast } from "@/hooks/use-toast"; 
-import { Download, Upload, Loader2, FileText, FileCode } from "lucide-react"; 
+import { Download, Upload, Loader2, FileText, FileCode, Copy, RefreshCw, CalendarDays, Archive, BookOpen } from "lucide-react"; 
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
 
 export default function SettingsPage() {
-  const { user, loading: authLoading } = useAuth();
-  const { exportUserRecipes, importRecipes, exportUserRecipesAsHTML, exportUserRecipesAsMarkdown, loading: recipesLoading } = useRecipes(); 
+  const { user, loading: authLoading, updateUserProfile } = useAuth();
+  const { exportUserRecipes, previewRecipeImport, importRecipes, exportRecipeBackup, exportUserRecipesAsHTML, exportUserRecipesAsMarkdown, exportUserRecipesAsCooklang } = useRecipes(); 
   const router = useRouter();
-  const { t } = useTranslation();
+  const { t, currentLanguage } = useTranslation();
   const { update: updateSession } = useSession();
+  const { data: calendarFeed, mutate: mutateCalendarFeed } = useSWR<{ token: string | null }>(
+    user ? "/api/user/calendar-token" : null,
+    (url: string) => fetch(url).then(res => res.json())
+  );
   
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isExportingJson, setIsExportingJson] = useState(false);
   const [isExportingHtml, setIsExportingHtml] = useState(false);
   const [isExportingMarkdown, setIsExportingMarkdown] = useState(false);
+  const [isExportingCooklang, setIsExportingCooklang] = useState(false);
+  const [showCookbookDialog, setShowCookbookDialog] = useState(false);
+  const [isExportingBackup, setIsExportingBackup] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
+  const [isPreviewingImport, setIsPreviewingImport] = useState(false);
+  const [importPreview, setImportPreview] = useState<RecipeImportPreviewItem[] | null>(null);
+  const [importDecisions, setImportDecisions] = useState<Record<number, RecipeImportDecision>>({});
+  const [importReport, setImportReport] = useState<RecipeImportResult[]>([]);
   const [showExportDialog, setShowExportDialog] = useState(false);
   const [exportContent, setExportContent] = useState("");
   const [exportContentType, setExportContentType] = useState<"html" | "markdown" | "">("");
+  const [exportFilters, setExportFilters] = useState<RecipeExportFilters>({ visibility: "my-all" });
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [includeCalendarAlarms, setIncludeCalendarAlarms] = useState(true);
+  const [isUpdatingCalendarToken, setIsUpdatingCalendarToken] = useState(false);
+
+  const calendarFeedUrl = calendarFeed?.token && typeof window !== "undefined"
+    ? `${window.location.origin}/api/calendar/${calendarFeed.token}.ics?lang=${currentLanguage}${includeCalendarAlarms ? "" : "&alarms=0"}`
+    : null;
+
+  const handleCalendarTokenChange = async (method: "POST" | "DELETE") => {
+    setIsUpdatingCalendarToken(true);
+    try {
+      const response = await fetch("/api/user/calendar-token", { method });
+      if (!response.ok) throw new Error(`Failed to update calendar feed: ${response.status}`);
+      mutateCalendarFeed(method === "POST" ? await response.json() : { token: null }, { revalidate: false });
+      toast({ title: method === "POST" ? t('calendar_feed_link_created') : t('calendar_feed_disabled') });
+    } catch (error) {
+      console.error("Error updating calendar feed token:", error);
+      toast({ title: t('error_generic_title'), description: t('calendar_feed_update_failed'), variant: "destructive" });
+    } finally {
+      setIsUpdatingCalendarToken(false);
+    }
+  };
+
+  const handleCopyCalendarUrl = async () => {
+    if (!calendarFeedUrl) return;
+    try {
+      await navigator.clipboard.writeText(calendarFeedUrl);
+      toast({ title: t('calendar_feed_link_copied') });
+    } catch (error) {
+      console.error("Failed to copy calendar feed URL:", error);
+      toast({ title: t('error_generic_title'), description: t('failed_to_copy_list'), variant: "destructive" });
+    }
+  };
+
+  const handleUnitSystemChange = async (unitSystem: UnitDisplayPreference) => {
+    const result = await updateUserProfile({ unitSystem });
+    if (!result.success) {
+      toast({ title: t('error_generic_title'), description: t('unit_system_update_failed'), variant: "destructive" });
+    }
+  };
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -42,6 +111,8 @@ export default function SettingsPage() {
   }, [user, authLoading, router]);
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    setImportPreview(null);
+    setImportReport([]);
     if (event.target.files && event.target.files[0]) {
       setSelectedFile(event.target.files[0]);
     } else {
@@ -51,7 +122,7 @@ export default function SettingsPage() {
 
   const handleExportJson = async () => {
     setIsExportingJson(true);
-    const result = await exportUserRecipes();
+    const result = await exportUserRecipes(exportFilters);
     if (result.success) {
       toast({ title: t('recipes_exported_successfully') });
     } else {
@@ -62,7 +133,7 @@ export default function SettingsPage() {
 
   const handleExportHtml = async () => {
     setIsExportingHtml(true);
-    const result = await exportUserRecipesAsHTML();
+    const result = await exportUserRecipesAsHTML(exportFilters);
     if (result.success && result.content) {
       setExportContent(result.content);
       setExportContentType("html");
@@ -75,55 +146,105 @@ export default function SettingsPage() {
 
   const handleExportMarkdown = async () => {
     setIsExportingMarkdown(true);
-    const result = await exportUserRecipesAsMarkdown();
-    if (result.success && result.content) {
-      setExportContent(result.content);
-      setExportContentType("markdown");
-      setShowExportDialog(true);
+    const result = await exportUserRecipesAsMarkdown(exportFilters);
+    if (result.success) {
+      toast({ title: t('export_markdown_zip_downloaded') });
     } else {
       toast({ title: t('error_exporting_markdown'), description: result.error || t('error_generic_title'), variant: "destructive" });
     }
     setIsExportingMarkdown(false);
   };
 
+  const handleExportCooklang = async () => {
+    setIsExportingCooklang(true);
+    const result = await exportUserRecipesAsCooklang(exportFilters);
+    if (result.success) {
+      toast({ title: t('export_cooklang_zip_downloaded') });
+    } else {
+      toast({ title: t('error_exporting_cooklang'), description: result.error || t('error_generic_title'), variant: "destructive" });
+    }
+    setIsExportingCooklang(false);
+  };
+
+  const handleExportBackup = async () => {
+    setIsExportingBackup(true);
+    const result = await exportRecipeBackup();
+    if (result.success) {
+      toast({ title: t('backup_exported_successfully') });
+    } else {
+      toast({ title: t('error_exporting_recipes'), description: result.error || t('error_generic_title'), variant: "destructive" });
+    }
+    setIsExportingBackup(false);
+  };
+
+  const resetImport = () => {
+    setSelectedFile(null); 
+    setImportPreview(null);
+    setImportDecisions({});
+    if (fileInputRef.current) {
+      fileInputRef.current.value = ""; 
+    }
+  };
+
+  // First step of an import: upload the file for a dry run and let the user decide per recipe.
+  const handlePreviewImport = async () => {
+    if (!selectedFile) {
+      toast({ title: t('no_file_selected'), variant: "destructive" });
+      return;
+    }
+    setIsPreviewingImport(true);
+    setImportReport([]);
+    const result = await previewRecipeImport(selectedFile);
+    if (result.success && result.items) {
+      setImportPreview(result.items);
+      setImportDecisions(Object.fromEntries(result.items.map(item => [item.index, defaultImportDecision(item)])));
+    } else {
+      toast({ title: t('error_importing_recipes'), description: result.error || t('invalid_json_file_format'), variant: "destructive" });
+    }
+    setIsPreviewingImport(false);
+  };
+
+  const setDecisionForDuplicates = (decision: RecipeImportDecision) => {
+    setImportDecisions(decisions => ({
+      ...decisions,
+      ...Object.fromEntries((importPreview ?? [])
+        .filter(item => item.status === "duplicate-title" || item.status === "duplicate-content")
+        .map(item => [item.index, decision])),
+    }));
+  };
+
   const handleImport = async () => {
     if (!selectedFile) {
       toast({ title: t('no_file_selected'), variant: "destructive" });
       return;
     }
     setIsImporting(true);
-    const reader = new FileReader();
-    reader.onload = async (e) => {
-      const jsonString = e.target?.result as string;
-      if (jsonString) {
-        const result = await importRecipes(jsonString);
-        if (result.success) {
-          toast({ title: t('recipes_imported_successfully_count', { count: result.count }) });
-          const skippedCount = (result as any).skippedCount;
-          if (skippedCount && skippedCount > 0) {
-            toast({ title: t('recipes_skipped_duplicates', { count: skippedCount }), variant: "default" });
-          }
-          updateSession(); // Re-fetch session after successful import
-        } else {
-          toast({ title: t('error_importing_recipes'), description: result.error || t('invalid_json_file_format'), variant: "destructive" });
-        }
-      } else {
-        toast({ title: t('error_reading_file'), variant: "destructive" });
+    const result = await importRecipes(selectedFile, importDecisions);
+    if (result.success) {
+      toast({ title: t('recipes_imported_successfully_count', { count: result.count }) });
+      if (result.overwrittenCount && result.overwrittenCount > 0) {
+        toast({ title: t('recipes_overwritten_count', { count: result.overwrittenCount }) });
       }
-      setIsImporting(false);
-      setSelectedFile(null); 
-      if (fileInputRef.current) {
-        fileInputRef.current.value = ""; 
+      if (result.failedCount && result.failedCount > 0) {
+        toast({ title: t('recipes_failed_count', { count: result.failedCount }), variant: "destructive" });
       }
-    };
-    reader.onerror = () => {
-      toast({ title: t('error_reading_file'), variant: "destructive" });
-      setIsImporting(false);
-    };
-    reader.readAsText(selectedFile);
+      if (result.ratingsRestored && result.ratingsRestored > 0) {
+        toast({ title: t('backup_ratings_restored', { count: result.ratingsRestored }) });
+      }
+      // Skipped recipes were the user's choice; only failures need their attention.
+      setImportReport((result.results ?? []).filter(entry => entry.status === "failed"));
+      updateSession(); // Re-fetch session after successful import
+      resetImport();
+    } else {
+      toast({ title: t('error_importing_recipes'), description: result.error || t('invalid_json_file_format'), variant: "destructive" });
+    }
+    setIsImporting(false);
   };
 
-  const anyExportInProgress = isExportingJson || isExportingHtml || isExportingMarkdown;
+  const importableCount = importPreview?.filter(item => item.status !== "invalid" && importDecisions[item.index] !== "skip").length ?? 0;
+  const hasDuplicates = importPreview?.some(item => item.status === "duplicate-title" || item.status === "duplicate-content") ?? false;
+
+  const anyExportInProgress = isExportingJson || isExportingHtml || isExportingMarkdown || isExportingCooklang || isExportingBackup;
 
   if (authLoading || !user) { 
     return (
@@ -175,6 +296,70 @@ export default function SettingsPage() {
             </div>
             <p className="text-sm text-muted-foreground">{t('choose_display_language')}</p>
           </div>
+          <div className="space-y-2">
+            <Label htmlFor="unit-system-select" className="text-base font-medium">{t('unit_system')}</Label>
+            <Select value={user?.unitSystem || "original"} onValueChange={handleUnitSystemChange}>
+              <SelectTrigger id="unit-system-select" className="w-full sm:w-[240px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="original">{t('unit_system_original')}</SelectItem>
+                <SelectItem value="metric">{t('unit_system_metric')}</SelectItem>
+                <SelectItem value="us">{t('unit_system_us')}</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">{t('unit_system_desc')}</p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle>{t('calendar_feed')}</CardTitle>
+          <CardDescription>{t('calendar_feed_desc')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {calendarFeedUrl ? (
+            <>
+              <div className="flex gap-2">
+                <Input readOnly value={calendarFeedUrl} onFocus={(e) => e.target.select()} aria-label={t('calendar_feed')} />
+                <Button variant="outline" size="icon" onClick={handleCopyCalendarUrl} aria-label={t('calendar_feed_copy_link')}>
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch id="calendar-alarms" checked={includeCalendarAlarms} onCheckedChange={setIncludeCalendarAlarms} />
+                <Label htmlFor="calendar-alarms">{t('calendar_feed_include_alarms')}</Label>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" disabled={isUpdatingCalendarToken}>
+                      <RefreshCw className="mr-2 h-4 w-4" /> {t('calendar_feed_rotate')}
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>{t('calendar_feed_rotate_confirm_title')}</AlertDialogTitle>
+                      <AlertDialogDescription>{t('calendar_feed_rotate_confirm_desc')}</AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>{t('cancel')}</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => handleCalendarTokenChange("POST")}>{t('calendar_feed_rotate')}</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+                <Button variant="ghost" onClick={() => handleCalendarTokenChange("DELETE")} disabled={isUpdatingCalendarToken}>
+                  {t('calendar_feed_disable')}
+                </Button>
+              </div>
+            </>
+          ) : (
+            <Button onClick={() => handleCalendarTokenChange("POST")} disabled={!calendarFeed || isUpdatingCalendarToken}>
+              {isUpdatingCalendarToken ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <CalendarDays className="mr-2 h-4 w-4" />}
+              {t('calendar_feed_enable')}
+            </Button>
+          )}
         </CardContent>
       </Card>
 
@@ -187,20 +372,70 @@ export default function SettingsPage() {
           <div>
             <h3 className="text-lg font-medium mb-2">{t('export_my_recipes')}</h3>
             <p className="text-sm text-muted-foreground mb-3">{t('export_recipes_description')}</p>
+            <div className="grid gap-3 sm:grid-cols-3 mb-3">
+              <div className="space-y-1">
+                <Label htmlFor="export-visibility">{t('visibility_filter_label')}</Label>
+                <Select
+                  value={exportFilters.visibility}
+                  onValueChange={value => setExportFilters(filters => ({ ...filters, visibility: value as RecipeExportFilters["visibility"] }))}
+                >
+                  <SelectTrigger id="export-visibility">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="my-all">{t('visibility_option_my_all')}</SelectItem>
+                    <SelectItem value="my-public">{t('visibility_option_my_public')}</SelectItem>
+                    <SelectItem value="my-private">{t('visibility_option_my_private')}</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="export-tag">{t('tag')}</Label>
+                <Input
+                  id="export-tag"
+                  value={exportFilters.tag ?? ""}
+                  onChange={e => setExportFilters(filters => ({ ...filters, tag: e.target.value }))}
+                  placeholder={t('export_filter_tag_placeholder')}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="export-category">{t('category')}</Label>
+                <Input
+                  id="export-category"
+                  value={exportFilters.category ?? ""}
+                  onChange={e => setExportFilters(filters => ({ ...filters, category: e.target.value }))}
+                  placeholder={t('export_filter_category_placeholder')}
+                />
+              </div>
+            </div>
             <div className="flex flex-wrap gap-2">
-              <Button onClick={handleExportJson} disabled={anyExportInProgress || recipesLoading}>
+              <Button onClick={handleExportJson} disabled={anyExportInProgress}>
                 {isExportingJson ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
                 {isExportingJson ? t('exporting') : t('export_my_recipes_button')}
               </Button>
-              <Button onClick={handleExportHtml} disabled={anyExportInProgress || recipesLoading} variant="outline">
+              <Button onClick={handleExportHtml} disabled={anyExportInProgress} variant="outline">
                 {isExportingHtml ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileCode className="mr-2 h-4 w-4" />}
                 {isExportingHtml ? t('exporting_html') : t('export_all_html')}
               </Button>
-              <Button onClick={handleExportMarkdown} disabled={anyExportInProgress || recipesLoading} variant="outline">
+              <Button onClick={handleExportMarkdown} disabled={anyExportInProgress} variant="outline">
                 {isExportingMarkdown ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileText className="mr-2 h-4 w-4" />}
                 {isExportingMarkdown ? t('exporting_markdown') : t('export_all_markdown')}
               </Button>
+              <Button onClick={handleExportCooklang} disabled={anyExportInProgress} variant="outline">
+                {isExportingCooklang ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileText className="mr-2 h-4 w-4" />}
+                {isExportingCooklang ? t('exporting') : t('export_all_cooklang')}
+              </Button>
+              <Button onClick={() => setShowCookbookDialog(true)} disabled={anyExportInProgress} variant="outline">
+                <BookOpen className="mr-2 h-4 w-4" />
+                {t('export_cookbook_pdf')}
+              </Button>
+              <Button onClick={handleExportBackup} disabled={anyExportInProgress} variant="outline">
+                {isExportingBackup ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Archive className="mr-2 h-4 w-4" />}
+                {isExportingBackup ? t('exporting') : t('export_backup_button')}
+              </Button>
             </div>
+            <p className="text-sm text-muted-foreground mt-2">{t('export_backup_description')}</p>
+            <CookbookDialog filters={exportFilters} open={showCookbookDialog} onOpenChange={setShowCookbookDialog} />
           </div>
           <hr className="my-6" />
           <div>
@@ -209,16 +444,70 @@ export default function SettingsPage() {
             <div className="space-y-3">
               <Input
                 type="file"
-                accept=".json"
+                accept=".json,.zip,.paprikarecipes,.paprikarecipe,.cook"
                 onChange={handleFileChange}
                 ref={fileInputRef}
                 className="max-w-xs"
                 aria-label={t('select_json_file')}
               />
-              <Button onClick={handleImport} disabled={!selectedFile || isImporting || recipesLoading}>
-                {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
-                {isImporting ? t('importing') : t('import_recipes_button')}
-              </Button>
+              {importPreview === null ? (
+                <Button onClick={handlePreviewImport} disabled={!selectedFile || isPreviewingImport}>
+                  {isPreviewingImport ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                  {isPreviewingImport ? t('import_checking_file') : t('import_recipes_button')}
+                </Button>
+              ) : (
+                <div className="space-y-3">
+                  <p className="text-sm text-muted-foreground">{t('import_preview_description')}</p>
+                  {hasDuplicates && (
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm">{t('import_preview_all_duplicates')}</span>
+                      {(["skip", "overwrite", "copy"] as const).map(decision => (
+                        <Button key={decision} size="sm" variant="outline" onClick={() => setDecisionForDuplicates(decision)}>
+                          {t(`import_decision_${decision}`)}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                  <div className="max-h-[400px] overflow-auto rounded-md border">
+                    <ImportPreviewTable
+                      items={importPreview}
+                      decisions={importDecisions}
+                      onDecisionChange={(index, decision) => setImportDecisions(decisions => ({ ...decisions, [index]: decision }))}
+                    />
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button onClick={handleImport} disabled={isImporting || importableCount === 0}>
+                      {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+                      {isImporting ? t('importing') : t('import_confirm_button', { count: importableCount })}
+                    </Button>
+                    <Button variant="outline" onClick={resetImport} disabled={isImporting}>
+                      {t('cancel')}
+                    </Button>
+                  </div>
+                </div>
+              )}
+              {importReport.length > 0 && (
+                <div className="rounded-md border p-3 text-sm">
+                  <p className="font-medium mb-2">{t('import_report_title')}</p>
+                  <ul className="space-y-1">
+                    {importReport.map((entry, index) => (
+                      <li key={`${entry.file ?? entry.title}-${index}`}>
+                        <span className={entry.status === "failed" ? "text-destructive" : "text-muted-foreground"}>
+                          {t(`import_status_${entry.status}`)}
+                        </span>
+                        {": "}
+                        {entry.title || entry.file}
+                        {entry.message && <span className="text-muted-foreground"> — {entry.message}</span>}
+                        {entry.issues?.map((issue, issueIndex) => (
+                          <div key={issueIndex} className="text-xs text-destructive">
+                            {issue.path && <code>{issue.path}</code>} {translateValidationMessage(t, issue.message)}
+                          </div>
+                        ))}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           </div>
         </CardContent>
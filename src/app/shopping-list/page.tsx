@@ -3,12 +3,13 @@
 import { useAuth } from "@/contexts/AuthContext";
 import { useShoppingList } from "@/contexts/ShoppingListContext";
 import { useRouter } from "next/navigation";
-import { useEffect } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useTranslation } from "@/lib/i18n";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Printer, Copy, Download, Trash2, X } from "lucide-react";
+import { Printer, Copy, Download, Trash2, X, CloudOff, ChevronDown, Split, Merge } from "lucide-react";
+import { groupShoppingListItems } from "@/lib/shopping-list-groups";
 import { Skeleton } from "@/components/ui/skeleton";
 import { toast } from "@/hooks/use-toast";
 import {
@@ -23,11 +24,25 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 
+const SPLIT_STORAGE_KEY = "oppskriftShoppingListSplit";
+
 export default function ShoppingListPage() {
   const { user, loading: authLoading } = useAuth();
-  const { items: shoppingItems, toggleItemChecked, removeItem, clearList, loading: shoppingListLoading } = useShoppingList();
+  const { items: shoppingItems, toggleItemChecked, setItemsChecked, removeItem, removeItems, clearList, loading: shoppingListLoading, pendingChanges } = useShoppingList();
   const router = useRouter();
-  const { t } = useTranslation();
+  const { t, currentLanguage } = useTranslation();
+  const [expandedKeys, setExpandedKeys] = useState<Set<string>>(new Set());
+  // Ingredients the user chose to keep as separate lines instead of one merged line.
+  const [splitKeys, setSplitKeys] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    setSplitKeys(new Set(JSON.parse(localStorage.getItem(SPLIT_STORAGE_KEY) || "[]")));
+  }, []);
+
+  const groups = useMemo(
+    () => groupShoppingListItems(shoppingItems, currentLanguage, splitKeys),
+    [shoppingItems, currentLanguage, splitKeys]
+  );
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -45,10 +60,30 @@ export default function ShoppingListPage() {
     toast({ title: t('item_removed_from_shopping_list') });
   };
 
+  const handleRemoveItems = (itemIds: string[]) => {
+    removeItems(itemIds);
+    toast({ title: t('item_removed_from_shopping_list') });
+  };
+
+  const toggleExpanded = (key: string) => {
+    setExpandedKeys(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  const updateSplitKeys = (key: string, split: boolean) => {
+    const next = new Set(splitKeys);
+    if (split) next.add(key); else next.delete(key);
+    localStorage.setItem(SPLIT_STORAGE_KEY, JSON.stringify(Array.from(next)));
+    setSplitKeys(next);
+  };
+
   const formatShoppingListForExport = () => {
-    return shoppingItems.map(item => {
-      let line = `- ${item.name}`;
-      if (item.quantity) line += ` (${item.quantity}${item.unit ? ` ${item.unit}` : ''})`;
+    return groups.map(group => {
+      let line = `- ${group.name}`;
+      if (group.amounts.length > 0) line += ` (${group.amounts.join(' + ')})`;
       return line;
     }).join('\n');
   };
@@ -165,37 +200,96 @@ export default function ShoppingListPage() {
         <CardHeader>
           <CardTitle>{t('your_consolidated_list')}</CardTitle>
           <CardDescription>{t('shopping_list_desc_placeholder')}</CardDescription>
+          {pendingChanges > 0 && (
+            <p className="flex items-center gap-1 text-xs text-muted-foreground">
+              <CloudOff className="h-3 w-3" /> {t('shopping_list_pending_sync')}
+            </p>
+          )}
         </CardHeader>
         <CardContent>
           {shoppingItems.length > 0 ? (
             <ul className="space-y-3 divide-y divide-border -mx-6">
-              {shoppingItems.map((item) => (
-                <li key={item.id} className="flex items-center justify-between py-3 px-6 hover:bg-muted/50 transition-colors">
-                  <div className="flex items-center space-x-3">
-                    <Checkbox
-                      id={`item-${item.id}`}
-                      checked={item.isChecked}
-                      onCheckedChange={() => toggleItemChecked(item.id)}
-                      aria-label={item.isChecked ? t('mark_as_unchecked') : t('mark_as_checked')}
-                    />
-                    <label
-                      htmlFor={`item-${item.id}`}
-                      className={`font-medium ${item.isChecked ? "line-through text-muted-foreground" : "text-foreground"}`}
-                    >
-                      {item.name}
-                    </label>
-                  </div>
-                  <div className="flex items-center space-x-3">
-                    <span className={`text-sm ${item.isChecked ? "line-through text-muted-foreground" : "text-muted-foreground"}`}>
-                      {item.quantity} {item.unit}
-                      {item.recipeTitle && <span className="text-xs block">({t('from_recipe')}: {item.recipeTitle})</span>}
-                    </span>
-                    <Button variant="ghost" size="icon" onClick={() => handleRemoveItem(item.id)} aria-label={t('remove_item')}>
-                      <X className="h-4 w-4" />
-                    </Button>
-                  </div>
-                </li>
-              ))}
+              {groups.map((group) => {
+                const itemIds = group.items.map(item => item.id);
+                const isExpanded = expandedKeys.has(group.key);
+                // Split lines share the ingredient key before the "#" and can be merged back.
+                const splitKey = group.key.split('#')[0];
+                const isSplit = splitKeys.has(splitKey);
+                return (
+                  <li key={group.key} className="py-3 px-6 hover:bg-muted/50 transition-colors">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-3">
+                        <Checkbox
+                          id={`group-${group.key}`}
+                          checked={group.isChecked}
+                          onCheckedChange={() => setItemsChecked(itemIds, !group.isChecked)}
+                          aria-label={group.isChecked ? t('mark_as_unchecked') : t('mark_as_checked')}
+                        />
+                        <label
+                          htmlFor={`group-${group.key}`}
+                          className={`font-medium ${group.isChecked ? "line-through text-muted-foreground" : "text-foreground"}`}
+                        >
+                          {group.name}
+                        </label>
+                      </div>
+                      <div className="flex items-center space-x-1">
+                        <span className={`text-sm mr-2 ${group.isChecked ? "line-through text-muted-foreground" : "text-muted-foreground"}`}>
+                          {group.amounts.join(' + ')}
+                          {group.items.length === 1 && group.items[0].recipeTitle && (
+                            <span className="text-xs block">({t('from_recipe')}: {group.items[0].recipeTitle})</span>
+                          )}
+                        </span>
+                        {group.items.length > 1 && (
+                          <>
+                            <Button variant="ghost" size="icon" onClick={() => updateSplitKeys(splitKey, true)} aria-label={t('shopping_list_split_line')} title={t('shopping_list_split_line')}>
+                              <Split className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="icon" onClick={() => toggleExpanded(group.key)} aria-label={t('shopping_list_show_sources')} aria-expanded={isExpanded} title={t('shopping_list_show_sources')}>
+                              <ChevronDown className={`h-4 w-4 transition-transform ${isExpanded ? "rotate-180" : ""}`} />
+                            </Button>
+                          </>
+                        )}
+                        {isSplit && (
+                          <Button variant="ghost" size="icon" onClick={() => updateSplitKeys(splitKey, false)} aria-label={t('shopping_list_merge_lines')} title={t('shopping_list_merge_lines')}>
+                            <Merge className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="icon" onClick={() => handleRemoveItems(itemIds)} aria-label={t('remove_item')}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    {isExpanded && group.items.length > 1 && (
+                      <ul className="mt-2 ml-7 space-y-1 border-l pl-4" aria-label={t('shopping_list_contributions')}>
+                        {group.items.map((item) => (
+                          <li key={item.id} className="flex items-center justify-between text-sm">
+                            <div className="flex items-center space-x-2">
+                              <Checkbox
+                                id={`item-${item.id}`}
+                                checked={item.isChecked}
+                                onCheckedChange={() => toggleItemChecked(item.id)}
+                                aria-label={item.isChecked ? t('mark_as_unchecked') : t('mark_as_checked')}
+                              />
+                              <label
+                                htmlFor={`item-${item.id}`}
+                                className={item.isChecked ? "line-through text-muted-foreground" : "text-foreground"}
+                              >
+                                {[item.quantity, item.unit].filter(Boolean).join(' ') || item.name}
+                              </label>
+                              <span className="text-xs text-muted-foreground">
+                                {item.recipeTitle ? `${t('from_recipe')}: ${item.recipeTitle}` : t('shopping_list_added_manually')}
+                              </span>
+                            </div>
+                            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleRemoveItem(item.id)} aria-label={t('remove_item')}>
+                              <X className="h-3 w-3" />
+                            </Button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                );
+              })}
             </ul>
           ) : (
             <p className="text-muted-foreground text-center py-6">{t('no_items_in_shopping_list')}</p>
@@ -54,6 +54,9 @@ export function Header() {
                     <Link href="/recipes/new">{t('add_recipe')}</Link>
                   </Button>
                 )}
+                <Button variant="ghost" asChild>
+                  <Link href="/planner">{t('meal_planner')}</Link>
+                </Button>
                 <Button variant="ghost" asChild>
                   <Link href="/shopping-list">{t('shopping_list')}</Link>
                 </Button>
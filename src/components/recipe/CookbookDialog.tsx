@@ -0,0 +1,127 @@
+"use client";
+
+import React, { useState } from "react";
+import useSWR from "swr";
+import type { CookbookFormat, RecipeExportFilters, RecipeListResponse } from "@/types";
+import { useTranslation } from "@/lib/i18n";
+import { useRecipes } from "@/contexts/RecipeContext";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { BookOpen, Loader2, Tablet } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+
+interface CookbookDialogProps {
+  filters: RecipeExportFilters;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// The list endpoint's largest page; bigger collections are narrowed with the export filters.
+const PICKER_LIMIT = 100;
+
+const fetcher = (url: string): Promise<RecipeListResponse> => fetch(url).then(res => {
+  if (!res.ok) throw new Error(res.statusText);
+  return res.json();
+});
+
+export function CookbookDialog({ filters, open, onOpenChange }: CookbookDialogProps) {
+  const { t } = useTranslation();
+  const { exportCookbook } = useRecipes();
+  const [title, setTitle] = useState("");
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [creatingFormat, setCreatingFormat] = useState<CookbookFormat | null>(null);
+
+  const query = new URLSearchParams({ visibility: filters.visibility ?? "my-all", sort: "title", limit: String(PICKER_LIMIT) });
+  if (filters.tag?.trim()) query.set("tag", filters.tag.trim());
+  if (filters.category?.trim()) query.set("category", filters.category.trim());
+  const { data, isLoading } = useSWR(open ? `/api/recipes?${query}` : null, fetcher);
+  const recipes = data?.recipes ?? [];
+
+  const toggleRecipe = (recipeId: string, checked: boolean) => {
+    setSelectedIds(ids => {
+      const next = new Set(ids);
+      if (checked) next.add(recipeId);
+      else next.delete(recipeId);
+      return next;
+    });
+  };
+
+  const handleCreate = async (format: CookbookFormat) => {
+    setCreatingFormat(format);
+    const result = await exportCookbook(format, { ...filters, title, recipeIds: Array.from(selectedIds) });
+    if (result.success) {
+      toast({ title: t('cookbook_downloaded') });
+      onOpenChange(false);
+    } else {
+      toast({ title: t('error_creating_cookbook'), description: result.error || t('error_generic_title'), variant: "destructive" });
+    }
+    setCreatingFormat(null);
+  };
+
+  const recipeCount = selectedIds.size > 0 ? selectedIds.size : data?.total ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>{t('cookbook_dialog_title')}</DialogTitle>
+          <DialogDescription>{t('cookbook_dialog_description')}</DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="cookbook-title">{t('cookbook_title_label')}</Label>
+            <Input id="cookbook-title" value={title} onChange={e => setTitle(e.target.value)} placeholder={t('export_collection_title')} />
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>{t('cookbook_recipes_label')}</Label>
+              {selectedIds.size > 0 && (
+                <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setSelectedIds(new Set())}>
+                  {t('cookbook_clear_selection')}
+                </Button>
+              )}
+            </div>
+            <ScrollArea className="h-64 rounded-md border p-3">
+              {isLoading ? (
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              ) : recipes.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{t('cookbook_no_recipes')}</p>
+              ) : (
+                <div className="space-y-2">
+                  {recipes.map(recipe => (
+                    <div key={recipe.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`cookbook-recipe-${recipe.id}`}
+                        checked={selectedIds.has(recipe.id)}
+                        onCheckedChange={checked => toggleRecipe(recipe.id, checked === true)}
+                      />
+                      <Label htmlFor={`cookbook-recipe-${recipe.id}`} className="font-normal">{recipe.title}</Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </ScrollArea>
+            <p className="text-xs text-muted-foreground">
+              {selectedIds.size > 0 ? t('cookbook_selected_count', { count: selectedIds.size }) : t('cookbook_all_matching')}
+            </p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>{t('cancel')}</Button>
+          <Button variant="outline" onClick={() => handleCreate("epub")} disabled={creatingFormat !== null || recipeCount === 0}>
+            {creatingFormat === "epub" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Tablet className="mr-2 h-4 w-4" />}
+            {creatingFormat === "epub" ? t('cookbook_creating') : t('cookbook_create_epub_button')}
+          </Button>
+          <Button onClick={() => handleCreate("pdf")} disabled={creatingFormat !== null || recipeCount === 0}>
+            {creatingFormat === "pdf" ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <BookOpen className="mr-2 h-4 w-4" />}
+            {creatingFormat === "pdf" ? t('cookbook_creating') : t('cookbook_create_button', { count: recipeCount })}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
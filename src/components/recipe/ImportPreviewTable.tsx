@@ -0,0 +1,87 @@
+"use client";
+
+import React from "react";
+import type { RecipeImportDecision, RecipeImportPreviewItem, RecipeImportPreviewStatus } from "@/types";
+import { useTranslation } from "@/lib/i18n";
+import { translateValidationMessage } from "@/lib/recipe-schema";
+import { Badge, type BadgeProps } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+interface ImportPreviewTableProps {
+  items: RecipeImportPreviewItem[];
+  decisions: Record<number, RecipeImportDecision>;
+  onDecisionChange: (index: number, decision: RecipeImportDecision) => void;
+}
+
+const statusBadges: Record<RecipeImportPreviewStatus, { labelKey: string; variant: BadgeProps["variant"] }> = {
+  "new": { labelKey: "import_preview_status_new", variant: "default" },
+  "duplicate-title": { labelKey: "import_preview_status_duplicate_title", variant: "secondary" },
+  "duplicate-content": { labelKey: "import_preview_status_duplicate_content", variant: "secondary" },
+  "invalid": { labelKey: "import_preview_status_invalid", variant: "destructive" },
+};
+
+// New recipes can only be imported or left out; duplicates can also replace the recipe they match.
+const decisionOptions = (status: RecipeImportPreviewStatus): RecipeImportDecision[] =>
+  status === "new" ? ["import", "skip"] : ["skip", "overwrite", "copy"];
+
+export const defaultImportDecision = (item: RecipeImportPreviewItem): RecipeImportDecision =>
+  item.status === "new" ? "import" : "skip";
+
+export function ImportPreviewTable({ items, decisions, onDecisionChange }: ImportPreviewTableProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{t('recipe_title')}</TableHead>
+          <TableHead>{t('import_preview_status')}</TableHead>
+          <TableHead className="w-[180px]">{t('import_preview_action')}</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {items.map(item => {
+          const badge = statusBadges[item.status];
+          return (
+            <TableRow key={item.index}>
+              <TableCell>
+                <div className="font-medium">{item.title || item.file || `#${item.index + 1}`}</div>
+                {item.existingRecipeTitle && (
+                  <div className="text-xs text-muted-foreground">{t('import_preview_matches', { title: item.existingRecipeTitle })}</div>
+                )}
+                {item.issues?.map((issue, issueIndex) => (
+                  <div key={issueIndex} className="text-xs text-destructive">
+                    {issue.path && <code>{issue.path}</code>} {translateValidationMessage(t, issue.message)}
+                  </div>
+                ))}
+              </TableCell>
+              <TableCell>
+                <Badge variant={badge.variant}>{t(badge.labelKey)}</Badge>
+              </TableCell>
+              <TableCell>
+                {item.status === "invalid" ? (
+                  <span className="text-sm text-muted-foreground">{t('import_decision_skip')}</span>
+                ) : (
+                  <Select
+                    value={decisions[item.index] ?? defaultImportDecision(item)}
+                    onValueChange={value => onDecisionChange(item.index, value as RecipeImportDecision)}
+                  >
+                    <SelectTrigger aria-label={t('import_preview_action')}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {decisionOptions(item.status).map(decision => (
+                        <SelectItem key={decision} value={decision}>{t(`import_decision_${decision}`)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
@@ -1,12 +1,15 @@
 
 "use client";
 
-import React from "react";
+import React, { useState } from "react";
+import useSWR from "swr";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Grab, Trash2 } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Apple, Grab, Trash2 } from "lucide-react";
 import { useTranslation } from "@/lib/i18n";
-import type { Control } from 'react-hook-form';
+import type { FoodSummary } from "@/types";
+import { useWatch, type Control } from 'react-hook-form';
 import { FormField, FormItem, FormControl, FormMessage } from "@/components/ui/form";
 import { cn } from "@/lib/utils";
 import type { DraggableProvidedDraggableProps, DraggableProvidedDragHandleProps } from '@hello-pangea/dnd';
@@ -22,6 +25,81 @@ interface IngredientFieldProps {
   className?: string;
 }
 
+const fetcher = (url: string) => fetch(url).then(res => {
+  if (!res.ok) throw new Error(res.statusText);
+  return res.json();
+});
+
+interface FoodPickerProps {
+  control: Control<RecipeFormValues>;
+  baseName: IngredientFieldProps["baseName"];
+  value?: string;
+  onChange: (foodId: string | undefined) => void;
+}
+
+// Picks the food the nutrition calculator counts an ingredient as, when matching by name gets it wrong.
+function FoodPicker({ control, baseName, value, onChange }: FoodPickerProps) {
+  const { t, currentLanguage } = useTranslation();
+  const ingredientName = useWatch({ control, name: `${baseName}.name` });
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+
+  const { data: chosenFood } = useSWR<FoodSummary>(open && value ? `/api/foods?id=${encodeURIComponent(value)}` : null, fetcher);
+  const { data: foods } = useSWR<FoodSummary[]>(
+    open && query.trim() ? `/api/foods?q=${encodeURIComponent(query)}&lang=${currentLanguage}` : null,
+    fetcher,
+    { keepPreviousData: true }
+  );
+  const foodName = (food: FoodSummary) => food.names[currentLanguage as keyof FoodSummary["names"]] || food.names.en;
+
+  const handleOpenChange = (isOpen: boolean) => {
+    if (isOpen) setQuery(ingredientName || "");
+    setOpen(isOpen);
+  };
+
+  const choose = (foodId: string | undefined) => {
+    onChange(foodId);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          aria-label={t('ingredient_food_button')}
+          title={t('ingredient_food_button')}
+          className={cn("shrink-0 self-center justify-self-center", value ? "text-primary" : "text-muted-foreground")}
+        >
+          <Apple className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="space-y-2">
+        <p className="text-sm font-medium">{t('ingredient_food_title')}</p>
+        <p className="text-xs text-muted-foreground">
+          {value ? t('ingredient_food_chosen', { food: chosenFood ? foodName(chosenFood) : value }) : t('ingredient_food_automatic')}
+        </p>
+        <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder={t('ingredient_food_search_placeholder')} className="h-8 text-sm" />
+        <div className="max-h-48 overflow-y-auto space-y-0.5">
+          {foods?.map(food => (
+            <Button key={food.id} type="button" variant={food.id === value ? "secondary" : "ghost"} size="sm" className="w-full justify-start font-normal" onClick={() => choose(food.id)}>
+              {foodName(food)}
+            </Button>
+          ))}
+          {foods?.length === 0 && <p className="text-xs text-muted-foreground py-1">{t('ingredient_food_no_results')}</p>}
+        </div>
+        {value && (
+          <Button type="button" variant="outline" size="sm" className="w-full" onClick={() => choose(undefined)}>
+            {t('ingredient_food_use_automatic')}
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
 export const IngredientField = React.forwardRef<HTMLDivElement, IngredientFieldProps>(
   ({ control, baseName, remove, isDragging, draggableProps, dragHandleProps, className }, ref) => {
     const { t } = useTranslation();
@@ -31,7 +109,7 @@ export const IngredientField = React.forwardRef<HTMLDivElement, IngredientFieldP
         ref={ref}
         {...draggableProps}
         className={cn(
-          "grid grid-cols-[auto_1fr_1fr_1fr_auto] gap-x-2 gap-y-1 items-center p-2 border rounded-md transition-colors",
+          "grid grid-cols-[auto_1fr_1fr_1fr_auto_auto] gap-x-2 gap-y-1 items-center p-2 border rounded-md transition-colors",
           isDragging ? "shadow-xl bg-muted opacity-90" : "bg-card hover:bg-muted/50",
           className
         )}
@@ -80,6 +158,13 @@ export const IngredientField = React.forwardRef<HTMLDivElement, IngredientFieldP
             </FormItem>
           )}
         />
+        <FormField
+          control={control}
+          name={`${baseName}.foodId`}
+          render={({ field }) => (
+            <FoodPicker control={control} baseName={baseName} value={field.value} onChange={field.onChange} />
+          )}
+        />
         <Button
           type="button"
           variant="ghost"
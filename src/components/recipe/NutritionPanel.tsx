@@ -0,0 +1,145 @@
+"use client";
+
+import React, { useState } from "react";
+import useSWR from "swr";
+import type { CalculatedNutrition, FoodSummary, NutrientKey, RecipeNutrition, ServingsUnit } from "@/types";
+import { useTranslation } from "@/lib/i18n";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Sparkles, Apple } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+
+interface NutritionPanelProps {
+  recipeId: string;
+  nutrition?: RecipeNutrition | null; // The AI estimate stored with the recipe
+  servings: number; // The number of servings the recipe page is scaled to
+  servingsUnit: ServingsUnit;
+  canEdit: boolean;
+  onNutritionChange: (nutrition: RecipeNutrition | null) => void;
+}
+
+type NutritionSource = "calculated" | "estimated";
+
+const nutrients: { key: NutrientKey; unit: string }[] = [
+  { key: "calories", unit: "kcal" },
+  { key: "protein", unit: "g" },
+  { key: "fat", unit: "g" },
+  { key: "carbohydrates", unit: "g" },
+  { key: "fiber", unit: "g" },
+  { key: "salt", unit: "g" },
+];
+
+const fetcher = (url: string) => fetch(url).then(res => {
+  if (!res.ok) throw new Error(res.statusText);
+  return res.json();
+});
+
+export function NutritionPanel({ recipeId, nutrition, servings, servingsUnit, canEdit, onNutritionChange }: NutritionPanelProps) {
+  const { t, currentLanguage } = useTranslation();
+  const [isEstimating, setIsEstimating] = useState(false);
+  const [chosenSource, setChosenSource] = useState<NutritionSource | null>(null);
+  const { data: calculated } = useSWR<CalculatedNutrition>(`/api/recipes/${recipeId}/nutrition`, fetcher);
+
+  const hasCalculation = !!calculated && calculated.matched.length > 0;
+  const sources: NutritionSource[] = [...(hasCalculation ? ["calculated" as const] : []), ...(nutrition ? ["estimated" as const] : [])];
+  if (sources.length === 0 && !canEdit) return null;
+  const source = chosenSource && sources.includes(chosenSource) ? chosenSource : sources[0];
+  const perServing = source === "calculated" ? calculated?.perServing : source === "estimated" ? nutrition : null;
+
+  const formatAmount = (key: NutrientKey, amount: number) =>
+    amount.toLocaleString(currentLanguage, { maximumFractionDigits: key === "calories" || amount >= 100 ? 0 : 1 });
+  const foodName = (food: FoodSummary) => food.names[currentLanguage as keyof FoodSummary["names"]] || food.names.en;
+
+  const handleEstimate = async () => {
+    setIsEstimating(true);
+    try {
+      const response = await fetch(`/api/recipes/${recipeId}/nutrition`, { method: "POST" });
+      if (!response.ok) throw new Error(await response.text());
+      onNutritionChange(await response.json());
+      setChosenSource("estimated");
+      toast({ title: t("nutrition_estimated") });
+    } catch (error: any) {
+      console.error("Failed to estimate nutrition:", error);
+      toast({ title: t("nutrition_estimate_error"), description: error.message, variant: "destructive" });
+    } finally {
+      setIsEstimating(false);
+    }
+  };
+
+  const perUnitLabel = servingsUnit === "pieces" ? t("nutrition_per_piece") : t("nutrition_per_serving");
+  const servingsLabel = `${servings.toLocaleString(currentLanguage)} ${servingsUnit === "pieces" ? t("servings_unit_pieces") : t("servings_unit_servings")}`;
+
+  return (
+    <>
+      <Separator />
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <h3 className="text-xl font-semibold flex items-center gap-2">
+            <Apple className="h-5 w-5 text-primary" />
+            {t("nutrition_title")}
+            {source === "estimated" && <Badge variant="outline" className="font-normal">{t("nutrition_estimated_badge")}</Badge>}
+          </h3>
+          <div className="flex items-center gap-1">
+            {sources.length > 1 && sources.map(option => (
+              <Button key={option} variant={source === option ? "default" : "outline"} size="sm" onClick={() => setChosenSource(option)}>
+                {t(`nutrition_source_${option}`)}
+              </Button>
+            ))}
+            {canEdit && (
+              <Button variant="outline" size="sm" onClick={handleEstimate} disabled={isEstimating}>
+                {isEstimating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+                {nutrition ? t("nutrition_reestimate_button") : t("nutrition_estimate_button")}
+              </Button>
+            )}
+          </div>
+        </div>
+        {perServing ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("nutrition_nutrient")}</TableHead>
+                <TableHead className="text-right">{perUnitLabel}</TableHead>
+                <TableHead className="text-right">{t("nutrition_for_servings", { servings: servingsLabel })}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {nutrients.map(({ key, unit }) => (
+                <TableRow key={key}>
+                  <TableCell>{t(`nutrient_${key}`)}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatAmount(key, perServing[key])} {unit}</TableCell>
+                  <TableCell className="text-right tabular-nums">{formatAmount(key, perServing[key] * servings)} {unit}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">{t("nutrition_none")}</p>
+        )}
+        {source === "estimated" && nutrition && (
+          <p className="text-xs text-muted-foreground">
+            {t("nutrition_estimated_note", { date: new Date(nutrition.calculatedAt).toLocaleDateString(currentLanguage) })}
+          </p>
+        )}
+        {source === "calculated" && calculated && (
+          <div className="space-y-1 text-xs text-muted-foreground">
+            <p>{t("nutrition_calculated_note", { matched: calculated.matched.length, total: calculated.matched.length + calculated.unmatched.length })}</p>
+            {calculated.unmatched.length > 0 && (
+              <>
+                <p className="font-medium text-foreground">{t("nutrition_unmatched_title")}</p>
+                <ul className="list-disc list-inside">
+                  {calculated.unmatched.map((ingredient, index) => (
+                    <li key={ingredient.ingredientId || index}>
+                      {ingredient.name}: {t(`nutrition_unmatched_${ingredient.reason}`, { food: ingredient.food ? foodName(ingredient.food) : "" })}
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
@@ -1,7 +1,8 @@
 
 "use client";
 
-import type { Recipe } from "@/types";
+import { Fragment } from "react";
+import type { RecipeSummary } from "@/types";
 import Link from "next/link";
 import NextImage from "next/image";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
@@ -13,7 +14,7 @@ import { useRecipes } from "@/contexts/RecipeContext";
 import { useAuth } from "@/contexts/AuthContext";
 
 interface RecipeCardProps {
-  recipe: Recipe;
+  recipe: RecipeSummary;
 }
 
 export function RecipeCard({ recipe }: RecipeCardProps) {
@@ -33,13 +34,13 @@ export function RecipeCard({ recipe }: RecipeCardProps) {
     // and if the user has permissions to update this recipe.
     if (recipe.imageUrl && !isDataUrl && !isPlaceholder && ((user && recipe.createdBy === user.id) || isAdmin)) {
       console.log(`Clearing broken image URL for recipe ${recipe.id}: ${recipe.imageUrl}`);
-      updateRecipe({ ...recipe, imageUrl: null });
+      updateRecipe({ id: recipe.id, imageUrl: null });
     }
   };
 
   const displayServingsUnitShort = recipe.servingsUnit === 'pieces' ? t('pieces_short') : t('servings_short');
 
-  const getRecipeHintForPlaceholder = (recipe: Recipe): string => {
+  const getRecipeHintForPlaceholder = (recipe: RecipeSummary): string => {
     const hints: string[] = [];
     if (recipe.categories && recipe.categories.length > 0) {
         hints.push(recipe.categories[0].name.split(" ")[0].toLowerCase());
@@ -108,7 +109,17 @@ export function RecipeCard({ recipe }: RecipeCardProps) {
             {recipe.title}
           </CardTitle>
         </Link>
-        {recipe.description && (
+        {recipe.snippet ? (
+          <CardDescription className="text-sm text-muted-foreground line-clamp-3 mb-2">
+            {recipe.snippet.map((part, index) =>
+              part.match ? (
+                <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">{part.text}</mark>
+              ) : (
+                <Fragment key={index}>{part.text}</Fragment>
+              )
+            )}
+          </CardDescription>
+        ) : recipe.description && (
           <CardDescription className="text-sm text-muted-foreground line-clamp-2 mb-2">
             {recipe.description}
           </CardDescription>
@@ -4,7 +4,7 @@
 import { useState, useEffect, useRef } from "react";
 import DOMPurify from "dompurify";
 import { useRouter } from "next/navigation";
-import { useForm, useFieldArray, type Control } from "react-hook-form";
+import { useForm, useFieldArray, type Control, type FieldPath } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
 import type { Recipe, IngredientGroup, Ingredient, InstructionStep, TipStep, ServingsUnit } from "@/types";
@@ -23,8 +23,12 @@ import { TipStepField } from "./TipStepField";
 import { useTranslation } from "@/lib/i18n";
 import { parseRecipeFromText, type ParseRecipeOutput } from "@/ai/flows/parse-recipe-from-text-flow";
 import { ocrAndParseRecipeFromImage } from "@/ai/flows/ocr-and-parse-recipe-flow";
+import { suggestRecipeImage, type SuggestRecipeImageOutput } from "@/ai/flows/suggest-recipe-image";
+import { htmlToPlainText, looksLikeHtml, parseStructuredRecipe } from "@/lib/structured-recipe";
+import { importRecipeFromUrl } from "@/app/recipes/actions";
+import { recipeSchema, RecipeValidationError, translateValidationMessage } from "@/lib/recipe-schema";
 import { toast } from "@/hooks/use-toast";
-import { Loader2, Eye, EyeOff, PlusCircle, Trash2, Wand2, FileImage, UploadCloud, XCircle, ImageUp, Sparkles, ExternalLink } from "lucide-react";
+import { Loader2, Eye, EyeOff, PlusCircle, Trash2, Wand2, FileImage, UploadCloud, XCircle, ImageUp, Sparkles, ExternalLink, FileCode } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
 import { v4 as uuidv4 } from "uuid";
 import { DragDropContext, Droppable, Draggable, type DropResult } from '@hello-pangea/dnd';
@@ -32,53 +36,14 @@ import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import Link from "next/link";
 import { cn } from "@/lib/utils";
 
-const ingredientSchema = z.object({
-  id: z.string().optional(),
-  fieldId: z.string().optional(),
-  name: z.string().min(1, "ingredient_name_required"),
-  quantity: z.string().optional(),
-  unit: z.string().optional(),
-});
-
-const ingredientGroupSchema = z.object({
-  id: z.string().optional(),
-  fieldId: z.string().optional(),
-  name: z.string().optional(),
-  ingredients: z.array(ingredientSchema).min(1, "group_ingredients_min_length"),
-});
-
-const instructionStepSchema = z.object({
-  id: z.string().optional(),
-  fieldId: z.string().optional(),
-  text: z.string().min(1, "instruction_step_text_required"),
-  isChecked: z.boolean().default(false).optional(),
-});
-
-const tipStepSchema = z.object({
-  id: z.string().optional(),
-  fieldId: z.string().optional(),
-  text: z.string().min(1, "tip_step_text_required"),
-  isChecked: z.boolean().default(false).optional(),
-});
-
-const recipeFormSchemaFactory = (t: (key: string) => string) => z.object({
-  title: z.string().min(3, "title_min_length"),
-  description: z.string().optional(),
-  ingredientGroups: z.array(ingredientGroupSchema).min(1, "ingredient_groups_min_length"),
-  instructions: z.array(instructionStepSchema).min(1, "instructions_min_length_array"),
-  tips: z.array(tipStepSchema).optional(),
+// The form edits tags and categories as comma-separated text; everything else is the shared schema.
+const recipeFormSchema = recipeSchema.extend({
   tags: z.union([z.array(z.string()), z.string()]).optional(),
   categories: z.union([z.array(z.string()), z.string()]).optional(),
-  servingsValue: z.coerce.number().min(1, "servings_min_value"),
-  servingsUnit: z.enum(['servings', 'pieces'], { errorMap: () => ({ message: t("servings_unit_required") }) }),
-  prepTime: z.string().optional(),
-  cookTime: z.string().optional(),
-  imageUrl: z.string().optional(), 
-  sourceUrl: z.string().url({ message: t("invalid_url_format") }).optional().or(z.literal("")),
   isPublic: z.boolean().default(true).optional(), // Default isPublic to true
 });
 
-export type RecipeFormValues = z.infer<ReturnType<typeof recipeFormSchemaFactory>>;
+export type RecipeFormValues = z.infer<typeof recipeFormSchema>;
 
 interface RecipeFormProps {
   initialData?: Recipe;
@@ -148,6 +113,8 @@ export function RecipeForm({ initialData, isEditMode = false }: RecipeFormProps)
   const [imageError, setImageError] = useState<string | null>(null);
   const imageFileInputRef = useRef<HTMLInputElement>(null);
   const [externalImageUrlInput, setExternalImageUrlInput] = useState(initialData?.imageUrl && initialData.imageUrl.startsWith('http') ? initialData.imageUrl : "");
+  const [suggestedImage, setSuggestedImage] = useState<SuggestRecipeImageOutput | null>(null);
+  const [isSuggestingImage, setIsSuggestingImage] = useState(false);
 
 
   const [recipeImportText, setRecipeImportText] = useState("");
@@ -160,13 +127,13 @@ export function RecipeForm({ initialData, isEditMode = false }: RecipeFormProps)
   const [isImportingOcr, setIsImportingOcr] = useState(false);
   const [ocrImportError, setOcrImportError] = useState<string | null>(null);
   const ocrFileInputRef = useRef<HTMLInputElement>(null);
+  const htmlFileInputRef = useRef<HTMLInputElement>(null);
   const [isDraggingOverOcr, setIsDraggingOverOcr] = useState(false);
   const [isDraggingOverRecipeImage, setIsDraggingOverRecipeImage] = useState(false);
 
-  const currentRecipeFormSchema = recipeFormSchemaFactory(t);
 
   const form = useForm<RecipeFormValues>({
-    resolver: zodResolver(currentRecipeFormSchema),
+    resolver: zodResolver(recipeFormSchema),
     defaultValues: initialData
       ? {
           ...initialData,
@@ -187,6 +154,7 @@ export function RecipeForm({ initialData, isEditMode = false }: RecipeFormProps)
                   name: String(ing.name || ""),
                   quantity: String(ing.quantity || ""),
                   unit: String(ing.unit || ""),
+                  foodId: ing.foodId || undefined, // Stored as null when matched by name
                 })) : [defaultIngredientWithIds()],
               }))
             : [defaultIngredientGroup(t)],
@@ -414,6 +382,44 @@ export function RecipeForm({ initialData, isEditMode = false }: RecipeFormProps)
     }
   };
 
+  const handleSuggestImage = async () => {
+    const recipeTitle = form.getValues("title")?.trim();
+    if (!recipeTitle) {
+      toast({ title: t("image_suggestion_title_required"), variant: "destructive" });
+      return;
+    }
+    const categories = form.getValues("categories");
+    const category = (Array.isArray(categories) ? categories[0] : categories?.split(",")[0])?.trim() || undefined;
+    setIsSuggestingImage(true);
+    try {
+      setSuggestedImage(await suggestRecipeImage({ recipeTitle, category }));
+    } catch (error: any) {
+      toast({ title: t("image_suggestion_error"), description: error.message, variant: "destructive" });
+    } finally {
+      setIsSuggestingImage(false);
+    }
+  };
+
+  const handleUseSuggestedImage = async () => {
+    if (!suggestedImage) return;
+    const { imageUri } = suggestedImage;
+    setSuggestedImage(null);
+    if (imageUri.startsWith("http")) {
+      form.setValue("imageUrl", imageUri, { shouldValidate: true, shouldDirty: true });
+      setImagePreview(imageUri);
+      setExternalImageUrlInput(imageUri);
+      setImageError(null);
+    } else if (imageUri.startsWith("data:image/svg+xml")) {
+      // Placeholders are small already and would lose their sharpness if rasterised.
+      form.setValue("imageUrl", imageUri, { shouldValidate: true, shouldDirty: true });
+      setImagePreview(imageUri);
+      setExternalImageUrlInput("");
+      setImageError(null);
+    } else {
+      await processAndSetUploadedImage(imageUri);
+    }
+  };
+
   const commonResetFormWithParsedData = (parsedData: ParseRecipeOutput) => {
     const formValuesToSet: Partial<RecipeFormValues> = {
       title: parsedData.title,
@@ -453,23 +459,47 @@ export function RecipeForm({ initialData, isEditMode = false }: RecipeFormProps)
     }
   };
 
-  const handleImportRecipeText = async () => {
-    if (!recipeImportText.trim()) {
-      setImportTextError(t("recipe_import_empty_input_error"));
-      return;
-    }
+  // Recipe data embedded in a web page (schema.org JSON-LD or microdata) is read directly;
+  // the AI is only asked when there is none. A URL is fetched by the server, which does the same.
+  const importRecipeFromInput = async (input: string) => {
     setIsImportingRecipeText(true); setImportTextError(null); setImportedSourceUrl(undefined); form.setValue("sourceUrl", "");
     try {
-      const parsedData: ParseRecipeOutput = await parseRecipeFromText({ inputText: recipeImportText });
+      let parsedData: ParseRecipeOutput;
+      let usedStructuredData: boolean;
+      if (/^https?:\/\/\S+$/i.test(input.trim())) {
+        const result = await importRecipeFromUrl(input.trim());
+        if ("error" in result) throw new Error(t(result.error));
+        ({ recipe: parsedData, usedStructuredData } = result);
+      } else {
+        const isHtml = looksLikeHtml(input);
+        const structuredData = isHtml ? parseStructuredRecipe(input) : null;
+        parsedData = structuredData ?? await parseRecipeFromText({ inputText: isHtml ? htmlToPlainText(input) : input });
+        usedStructuredData = !!structuredData;
+      }
       commonResetFormWithParsedData(parsedData);
       if (parsedData.sourceUrl) setImportedSourceUrl(parsedData.sourceUrl);
-      toast({ title: t("recipe_import_success_title") }); setRecipeImportText("");
+      toast({ title: t("recipe_import_success_title"), description: usedStructuredData ? t("recipe_import_structured_data_used") : undefined }); setRecipeImportText("");
     } catch (error: any) {
       const errorMessage = error.message || t("recipe_import_error_generic");
       setImportTextError(errorMessage); toast({ title: t("recipe_import_error_title"), description: errorMessage, variant: "destructive" });
     } finally { setIsImportingRecipeText(false); }
   };
 
+  const handleImportRecipeText = async () => {
+    if (!recipeImportText.trim()) {
+      setImportTextError(t("recipe_import_empty_input_error"));
+      return;
+    }
+    await importRecipeFromInput(recipeImportText);
+  };
+
+  const handleHtmlFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (htmlFileInputRef.current) htmlFileInputRef.current.value = "";
+    if (!file) return;
+    await importRecipeFromInput(await file.text());
+  };
+
   const processOcrImageFile = (file: File | null) => {
     if (!file) { setOcrImageFile(null); setOcrImagePreview(null); setOcrImportError(null); return; }
     if (file.size > MAX_OCR_IMAGE_SIZE_MB * 1024 * 1024) {
@@ -548,7 +578,13 @@ export function RecipeForm({ initialData, isEditMode = false }: RecipeFormProps)
         toast({ title: t('recipe_added_successfully') }); router.push(`/recipes/${newRecipe.id}`);
       }
     } catch (error) {
-      const errorMessage = (error as Error).message || t('error_saving_recipe');
+      if (error instanceof RecipeValidationError) {
+        // Server-side checks mirror the form's, so point at the fields it rejected.
+        error.issues.forEach(issue => form.setError(issue.path as FieldPath<RecipeFormValues>, { message: translateValidationMessage(t, issue.message) }));
+      }
+      const errorMessage = error instanceof RecipeValidationError && error.issues.length > 0
+        ? error.issues.map(issue => `${issue.path}: ${translateValidationMessage(t, issue.message)}`).join("\n")
+        : (error as Error).message || t('error_saving_recipe');
       toast({ title: t('error_saving_recipe'), description: errorMessage, variant: "destructive" });
     } finally { setIsSubmitting(false); }
   };
@@ -577,6 +613,10 @@ export function RecipeForm({ initialData, isEditMode = false }: RecipeFormProps)
             <Button type="button" onClick={handleImportRecipeText} disabled={anyImportInProgress || !recipeImportText.trim()}>
               {isImportingRecipeText ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Wand2 className="mr-2 h-4 w-4" />} {t('recipe_import_button')}
             </Button>
+            <Button type="button" variant="outline" className="ml-2" onClick={() => htmlFileInputRef.current?.click()} disabled={anyImportInProgress}>
+              <FileCode className="mr-2 h-4 w-4" /> {t('recipe_import_html_file_button')}
+            </Button>
+            <Input type="file" accept=".html,.htm,text/html" ref={htmlFileInputRef} onChange={handleHtmlFileChange} className="hidden" aria-label={t('recipe_import_html_file_button')} />
             {importTextError && <Alert variant="destructive"><AlertTitle>{t('recipe_import_error_title')}</AlertTitle><AlertDescription>{importTextError}</AlertDescription></Alert>}
             {importedSourceUrl && !form.getValues("sourceUrl") && (
               <div className="text-sm text-muted-foreground mt-2">
@@ -675,6 +715,31 @@ export function RecipeForm({ initialData, isEditMode = false }: RecipeFormProps)
                         </div>
                     </div>
                     {imageError && <FormMessage>{imageError}</FormMessage>}
+
+                    {suggestedImage ? (
+                        <div className="space-y-2 rounded-md border p-3 bg-muted/30">
+                            <p className="text-sm font-medium">{t('image_suggestion_title')}</p>
+                            <img src={suggestedImage.imageUri} alt={t('image_suggestion_title')} className="rounded-md object-cover border w-full aspect-[16/9]" />
+                            <p className="text-xs text-muted-foreground">
+                                {t(`image_suggestion_source_${suggestedImage.source}`)}
+                                {suggestedImage.attribution && (
+                                    <> · <a href={suggestedImage.attribution.url} target="_blank" rel="noopener noreferrer" className="underline hover:text-primary">{t('image_suggestion_photo_by', { name: suggestedImage.attribution.name })}</a></>
+                                )}
+                            </p>
+                            <div className="flex gap-2">
+                                <Button type="button" size="sm" onClick={handleUseSuggestedImage} disabled={isProcessingImage}>{t('image_suggestion_use')}</Button>
+                                <Button type="button" size="sm" variant="outline" onClick={handleSuggestImage} disabled={isSuggestingImage}>
+                                    {isSuggestingImage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}{t('image_suggestion_retry')}
+                                </Button>
+                                <Button type="button" size="sm" variant="ghost" onClick={() => setSuggestedImage(null)}>{t('image_suggestion_dismiss')}</Button>
+                            </div>
+                        </div>
+                    ) : (
+                        <Button type="button" variant="outline" size="sm" onClick={handleSuggestImage} disabled={isSuggestingImage || isProcessingImage}>
+                            {isSuggestingImage ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+                            {t('image_suggest_button')}
+                        </Button>
+                    )}
                 </CardContent>
               </Card>
 
@@ -0,0 +1,150 @@
+"use client";
+
+import React, { useState } from "react";
+import useSWR from "swr";
+import type { ShareToken } from "@/types";
+import { useTranslation } from "@/lib/i18n";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Copy, Link as LinkIcon, Loader2, Trash2 } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+
+interface ShareRecipeDialogProps {
+  recipeId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const expiryOptions: { days: number; labelKey: string }[] = [
+  { days: 1, labelKey: "share_expiry_1_day" },
+  { days: 7, labelKey: "share_expiry_7_days" },
+  { days: 30, labelKey: "share_expiry_30_days" },
+  { days: 365, labelKey: "share_expiry_365_days" },
+];
+
+const fetcher = (url: string) => fetch(url).then(res => {
+  if (!res.ok) throw new Error(res.statusText);
+  return res.json();
+});
+
+export function ShareRecipeDialog({ recipeId, open, onOpenChange }: ShareRecipeDialogProps) {
+  const { t, currentLanguage } = useTranslation();
+  const [expiresInDays, setExpiresInDays] = useState("7");
+  const [isCreating, setIsCreating] = useState(false);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const shareUrl = `/api/recipes/${recipeId}/share`;
+  const { data: shareTokens, isLoading, mutate } = useSWR<ShareToken[]>(open ? shareUrl : null, fetcher);
+
+  const buildShareLink = (token: string) => `${window.location.origin}/s/${token}`;
+
+  const handleCopyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(buildShareLink(token));
+      toast({ title: t('share_link_copied') });
+    } catch (error) {
+      console.error("Failed to copy share link:", error);
+      toast({ title: t('error_generic_title'), description: t('failed_to_copy_share_link'), variant: "destructive" });
+    }
+  };
+
+  const handleCreateLink = async () => {
+    setIsCreating(true);
+    try {
+      const response = await fetch(shareUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ expiresInDays: Number(expiresInDays) }),
+      });
+      if (!response.ok) {
+        throw new Error(t('failed_to_create_share_link'));
+      }
+      const newToken: ShareToken = await response.json();
+      await mutate();
+      toast({ title: t('share_link_created') });
+      handleCopyLink(newToken.token);
+    } catch (error: any) {
+      toast({ title: t('error_generic_title'), description: error.message, variant: "destructive" });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevokeLink = async (tokenId: string) => {
+    setRevokingId(tokenId);
+    try {
+      const response = await fetch(`${shareUrl}/${tokenId}`, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error(t('failed_to_revoke_share_link'));
+      }
+      await mutate();
+      toast({ title: t('share_link_revoked') });
+    } catch (error: any) {
+      toast({ title: t('error_generic_title'), description: error.message, variant: "destructive" });
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px]">
+        <DialogHeader>
+          <DialogTitle>{t('share_recipe_title')}</DialogTitle>
+          <DialogDescription>{t('share_recipe_description')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="share-expiry">{t('share_link_expires_after')}</Label>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+              <SelectTrigger id="share-expiry" className="w-full sm:w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {expiryOptions.map(opt => (
+                  <SelectItem key={opt.days} value={String(opt.days)}>{t(opt.labelKey)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleCreateLink} disabled={isCreating}>
+              {isCreating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <LinkIcon className="mr-2 h-4 w-4" />}
+              {t('create_share_link')}
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">{t('active_share_links')}</h4>
+          {isLoading ? (
+            <div className="flex justify-center py-4"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+          ) : shareTokens && shareTokens.length > 0 ? (
+            <ul className="space-y-2">
+              {shareTokens.map(shareToken => (
+                <li key={shareToken.id} className="flex items-center gap-2">
+                  <div className="flex-grow min-w-0">
+                    <Input readOnly value={buildShareLink(shareToken.token)} className="h-9 text-xs" onFocus={(e) => e.target.select()} />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {t('share_link_expires_on', { date: new Date(shareToken.expiresAt).toLocaleDateString(currentLanguage) })}
+                    </p>
+                  </div>
+                  <Button variant="outline" size="icon" onClick={() => handleCopyLink(shareToken.token)} aria-label={t('copy_share_link')}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button variant="destructive" size="icon" onClick={() => handleRevokeLink(shareToken.id)} disabled={revokingId === shareToken.id} aria-label={t('revoke_share_link')}>
+                    {revokingId === shareToken.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground">{t('no_active_share_links')}</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -13,6 +13,8 @@ import {
 } from "react-hook-form"
 
 import { cn } from "@/lib/utils"
+import { useTranslation } from "@/lib/i18n"
+import { translateValidationMessage } from "@/lib/recipe-schema"
 import { Label } from "@/components/ui/label"
 
 const Form = FormProvider
@@ -163,7 +165,9 @@ const FormMessage = React.forwardRef<
   React.HTMLAttributes<HTMLParagraphElement>
 >(({ className, children, ...props }, ref) => {
   const { error, formMessageId } = useFormField()
-  const body = error ? String(error?.message ?? "") : children
+  const { t } = useTranslation()
+  // Shared schemas give translation keys as messages (see `translateValidationMessage`).
+  const body = error ? translateValidationMessage(t, String(error?.message ?? "")) : children
 
   if (!body) {
     return null
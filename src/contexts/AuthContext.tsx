@@ -52,6 +52,7 @@ export function AuthProvider({ children, t }: { children: ReactNode; t: (key: st
               isApproved: data.isApproved, // Use the fetched status
               roles: nextAuthUser.roles || ["user"], // Custom property
               theme: nextAuthUser.theme || "dark", // Custom property
+              unitSystem: data.unitSystem || "original",
             };
             setUser(appUser);
             setIsAdmin((appUser.roles || []).includes("admin"));
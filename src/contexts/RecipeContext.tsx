@@ -1,43 +1,77 @@
 "use client";
 
-import type { Recipe } from "@/types";
+import type { CookbookExportOptions, CookbookFormat, Recipe, RecipeExportFilters, RecipeImportDecision, RecipeImportPreviewItem, RecipeImportPreviewResponse, RecipeImportResponse } from "@/types";
 import React, { createContext, useContext, ReactNode } from "react";
 import { useLanguage } from "@/contexts/LanguageContext";
-import useSWR, { useSWRConfig } from 'swr';
-import { useSession } from "next-auth/react";
+import { useSWRConfig } from 'swr';
 import { useTranslation } from "@/lib/i18n";
 import { toast } from "@/hooks/use-toast";
+import { RecipeValidationError } from "@/lib/recipe-schema";
+
+type ImportRecipesResult = { success: boolean; count: number; error?: string } & Partial<Omit<RecipeImportResponse, "count" | "message">>;
 
 interface RecipeContextType {
-  recipes: Recipe[];
   addRecipe: (recipe: Omit<Recipe, "id" | "createdAt" | "updatedAt">) => Promise<Recipe>; 
-  updateRecipe: (recipe: Recipe) => Promise<void>;
+  updateRecipe: (recipe: Partial<Recipe> & Pick<Recipe, "id">) => Promise<void>;
   deleteRecipe: (recipeId: string) => Promise<void>;
-  getRecipeById: (recipeId: string) => Recipe | undefined;
   submitRecipeRating: (recipeId: string, userId: string, rating: number) => Promise<void>;
-  loading: boolean;
-  exportUserRecipes: () => Promise<{ success: boolean; error?: string }>;
-  importRecipes: (jsonString: string) => Promise<{ success: boolean; count: number; error?: string }>;
-  exportUserRecipesAsHTML: () => Promise<{ success: boolean; content?: string; error?: string }>;
-  exportUserRecipesAsMarkdown: () => Promise<{ success: boolean; content?: string; error?: string }>;
-  exportSingleRecipeAsHTML: (recipeId: string) => Promise<{ success: boolean; content?: string; error?: string }>;
-  exportSingleRecipeAsMarkdown: (recipeId: string) => Promise<{ success: boolean; content?: string; error?: string }>;
+  exportUserRecipes: (filters?: RecipeExportFilters) => Promise<{ success: boolean; error?: string }>;
+  previewRecipeImport: (file: File) => Promise<{ success: boolean; items?: RecipeImportPreviewItem[]; error?: string }>;
+  importRecipes: (file: File, decisions?: Record<number, RecipeImportDecision>) => Promise<ImportRecipesResult>;
+  exportRecipeBackup: () => Promise<{ success: boolean; error?: string }>;
+  exportUserRecipesAsHTML: (filters?: RecipeExportFilters) => Promise<{ success: boolean; content?: string; error?: string }>;
+  exportUserRecipesAsMarkdown: (filters?: RecipeExportFilters) => Promise<{ success: boolean; error?: string }>;
+  exportUserRecipesAsCooklang: (filters?: RecipeExportFilters) => Promise<{ success: boolean; error?: string }>;
+  exportCookbook: (format: CookbookFormat, options?: CookbookExportOptions) => Promise<{ success: boolean; error?: string }>;
+  exportSingleRecipeAsHTML: (recipeId: string, servings?: number) => Promise<{ success: boolean; content?: string; error?: string }>;
+  exportSingleRecipeAsMarkdown: (recipeId: string, servings?: number) => Promise<{ success: boolean; content?: string; error?: string }>;
+  exportSingleRecipeAsCooklang: (recipeId: string, servings?: number) => Promise<{ success: boolean; error?: string }>;
+  exportSingleRecipeAsPdf: (recipeId: string, servings?: number) => Promise<{ success: boolean; error?: string }>;
 }
 
-const RecipeContext = createContext<RecipeContextType | undefined>(undefined);
+const exportQuery = (params: Record<string, string | undefined>) => {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value?.trim()) query.set(key, value.trim());
+  });
+  return query.toString();
+};
 
-const fetcher = (url: string) => fetch(url).then(res => res.json());
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// The file name the export route chose, from its Content-Disposition header.
+const downloadFileName = (response: Response, fallback: string) => {
+  const fileName = response.headers.get("Content-Disposition")?.match(/filename\*=UTF-8''([^;]+)/)?.[1];
+  return fileName ? decodeURIComponent(fileName) : fallback;
+};
+
+// A 422 carries the fields the server rejected so the form can show them where they belong.
+const recipeSaveError = async (response: Response, fallbackMessage: string): Promise<Error> => {
+  if (response.status === 422) {
+    const data = await response.json().catch(() => null);
+    return new RecipeValidationError(fallbackMessage, Array.isArray(data?.errors) ? data.errors : []);
+  }
+  return new Error(fallbackMessage);
+};
+
+const RecipeContext = createContext<RecipeContextType | undefined>(undefined);
 
 export const RecipeProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const { data: session } = useSession();
   const { t } = useTranslation();
   const { mutate } = useSWRConfig();
   const { language } = useLanguage();
 
-  const { data: recipes, error, isLoading } = useSWR<Recipe[]>(
-    session && session.user.isApproved ? "/api/recipes" : null,
-    fetcher
-  );
+  // Revalidates the paged recipe lists and any cached recipe details.
+  const revalidateRecipes = () => mutate((key) => typeof key === "string" && key.startsWith("/api/recipes"));
 
   const addRecipe = async (recipeData: Omit<Recipe, "id" | "createdAt" | "updatedAt">): Promise<Recipe> => {
     const response = await fetch("/api/recipes", {
@@ -47,15 +81,15 @@ export const RecipeProvider: React.FC<{ children: ReactNode }> = ({ children })
     });
 
     if (!response.ok) {
-      throw new Error(t("failed_to_create_recipe"));
+      throw await recipeSaveError(response, t("failed_to_create_recipe"));
     }
 
     const newRecipe = await response.json();
-    mutate("/api/recipes");
+    revalidateRecipes();
     return newRecipe;
   };
 
-  const updateRecipe = async (updatedRecipe: Recipe): Promise<void> => {
+  const updateRecipe = async (updatedRecipe: Partial<Recipe> & Pick<Recipe, "id">): Promise<void> => {
     const response = await fetch(`/api/recipes/${updatedRecipe.id}`, {
       method: "PUT",
       headers: { "Content-Type": "application/json" },
@@ -63,10 +97,10 @@ export const RecipeProvider: React.FC<{ children: ReactNode }> = ({ children })
     });
 
     if (!response.ok) {
-      throw new Error(t("failed_to_update_recipe"));
+      throw await recipeSaveError(response, t("failed_to_update_recipe"));
     }
 
-    mutate("/api/recipes");
+    revalidateRecipes();
   };
 
   const deleteRecipe = async (recipeId: string): Promise<void> => {
@@ -78,11 +112,7 @@ export const RecipeProvider: React.FC<{ children: ReactNode }> = ({ children })
       throw new Error(t("failed_to_delete_recipe"));
     }
 
-    mutate("/api/recipes");
-  };
-
-  const getRecipeById = (recipeId: string): Recipe | undefined => {
-    return recipes?.find((r) => r.id === recipeId);
+    revalidateRecipes();
   };
 
   const submitRecipeRating = async (recipeId: string, userId: string, rating: number): Promise<void> => {
@@ -97,27 +127,19 @@ export const RecipeProvider: React.FC<{ children: ReactNode }> = ({ children })
     }
 
     // Revalidate recipes data after rating submission
-    mutate("/api/recipes");
-    mutate(`/api/recipes/${recipeId}`);
+    revalidateRecipes();
   };
 
-  const exportUserRecipes = async (): Promise<{ success: boolean; error?: string }> => {
+  const exportUserRecipes = async (filters: RecipeExportFilters = {}): Promise<{ success: boolean; error?: string }> => {
     try {
-      const response = await fetch("/api/recipes/export");
+      const response = await fetch(`/api/recipes/export?${exportQuery({ ...filters })}`);
       if (!response.ok) {
         const errorData = await response.json();
         throw new Error(errorData.message || t("failed_to_export_recipes"));
       }
       const data = await response.json();
       const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `recipes-${new Date().toISOString().split("T")[0]}.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadBlob(blob, `recipes-${new Date().toISOString().split("T")[0]}.json`);
       return { success: true };
     } catch (error: any) {
       console.error("Error exporting recipes:", error);
@@ -125,37 +147,66 @@ export const RecipeProvider: React.FC<{ children: ReactNode }> = ({ children })
     }
   };
 
-  const importRecipes = async (jsonString: string): Promise<{ success: boolean; count: number; error?: string; skippedCount?: number }> => {
+  // Uploads a JSON export or zip backup for a dry run that classifies every recipe in it.
+  const previewRecipeImport = async (file: File): Promise<{ success: boolean; items?: RecipeImportPreviewItem[]; error?: string }> => {
     try {
-      const recipesToImport = JSON.parse(jsonString);
-      if (!Array.isArray(recipesToImport)) {
-        throw new Error(t("invalid_json_file_format"));
+      const formData = new FormData();
+      formData.append("file", file);
+      const response = await fetch("/api/recipes/import/preview", { method: "POST", body: formData });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || t("failed_to_import_recipes"));
       }
 
-      const response = await fetch("/api/recipes/import", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(recipesToImport),
-      });
+      const result: RecipeImportPreviewResponse = await response.json();
+      return { success: true, items: result.items };
+    } catch (error: any) {
+      console.error("Error previewing recipe import:", error);
+      return { success: false, error: error.message };
+    }
+  };
+
+  const importRecipes = async (file: File, decisions: Record<number, RecipeImportDecision> = {}): Promise<ImportRecipesResult> => {
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("decisions", JSON.stringify(decisions));
+      const response = await fetch("/api/recipes/import", { method: "POST", body: formData });
 
       if (!response.ok) {
         const errorData = await response.json();
         throw new Error(errorData.message || t("failed_to_import_recipes"));
       }
 
-      const result = await response.json();
-      mutate("/api/recipes"); // Revalidate recipes after import
-      return { success: true, count: result.count, skippedCount: result.skippedCount };
+      const result: RecipeImportResponse = await response.json();
+      revalidateRecipes(); // Revalidate recipes after import
+      return { ...result, success: true };
     } catch (error: any) {
       console.error("Error importing recipes:", error);
       return { success: false, count: 0, error: error.message };
     }
   };
 
-  const exportUserRecipesAsHTML = async (): Promise<{ success: boolean; content?: string; error?: string }> => {
+  const exportRecipeBackup = async (): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const response = await fetch("/api/recipes/export?format=backup");
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || t("failed_to_export_recipes"));
+      }
+      downloadBlob(await response.blob(), `recipes-backup-${new Date().toISOString().split("T")[0]}.zip`);
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error exporting recipe backup:", error);
+      return { success: false, error: error.message };
+    }
+  };
+
+  const exportUserRecipesAsHTML = async (filters: RecipeExportFilters = {}): Promise<{ success: boolean; content?: string; error?: string }> => {
     try {
       const lang = language || 'en'; // Fallback to 'en'
-      const response = await fetch(`/api/recipes/export?format=html&lang=${lang}`);
+      const response = await fetch(`/api/recipes/export?${exportQuery({ format: "html", lang, ...filters })}`);
       if (!response.ok) {
         const errorData = await response.json();
         throw new Error(errorData.message || t("failed_to_export_recipes"));
@@ -168,26 +219,28 @@ export const RecipeProvider: React.FC<{ children: ReactNode }> = ({ children })
     }
   };
 
-  const exportUserRecipesAsMarkdown = async (): Promise<{ success: boolean; content?: string; error?: string }> => {
+  // The collection comes back as a zip with one Markdown file per recipe.
+  const exportUserRecipesAsMarkdown = async (filters: RecipeExportFilters = {}): Promise<{ success: boolean; error?: string }> => {
     try {
       const lang = language || 'en'; // Fallback to 'en'
-      const response = await fetch(`/api/recipes/export?format=markdown&lang=${lang}`);
+      const response = await fetch(`/api/recipes/export?${exportQuery({ format: "markdown", lang, ...filters })}`);
       if (!response.ok) {
         const errorData = await response.json();
         throw new Error(errorData.message || t("failed_to_export_recipes"));
       }
-      const content = await response.text();
-      return { success: true, content };
+      downloadBlob(await response.blob(), `recipes-${new Date().toISOString().split("T")[0]}.zip`);
+      return { success: true };
     } catch (error: any) {
       console.error("Error exporting recipes as Markdown:", error);
       return { success: false, error: error.message };
     }
   };
 
-  const exportSingleRecipeAsHTML = async (recipeId: string): Promise<{ success: boolean; content?: string; error?: string }> => {
+  const exportSingleRecipeAsHTML = async (recipeId: string, servings?: number): Promise<{ success: boolean; content?: string; error?: string }> => {
     try {
       const lang = language || 'en'; // Fallback to 'en'
-      const response = await fetch(`/api/recipes/export?id=${recipeId}&format=html&lang=${lang}`);
+      const servingsParam = servings ? `&servings=${servings}` : '';
+      const response = await fetch(`/api/recipes/export?id=${recipeId}&format=html&lang=${lang}${servingsParam}`);
       if (!response.ok) {
         const errorData = await response.json();
         throw new Error(errorData.message || t("failed_to_export_recipe"));
@@ -200,10 +253,11 @@ export const RecipeProvider: React.FC<{ children: ReactNode }> = ({ children })
     }
   };
 
-  const exportSingleRecipeAsMarkdown = async (recipeId: string): Promise<{ success: boolean; content?: string; error?: string }> => {
+  const exportSingleRecipeAsMarkdown = async (recipeId: string, servings?: number): Promise<{ success: boolean; content?: string; error?: string }> => {
     try {
       const lang = language || 'en'; // Fallback to 'en'
-      const response = await fetch(`/api/recipes/export?id=${recipeId}&format=markdown&lang=${lang}`);
+      const servingsParam = servings ? `&servings=${servings}` : '';
+      const response = await fetch(`/api/recipes/export?id=${recipeId}&format=markdown&lang=${lang}${servingsParam}`);
       if (!response.ok) {
         const errorData = await response.json();
         throw new Error(errorData.message || t("failed_to_export_recipe"));
@@ -216,8 +270,72 @@ export const RecipeProvider: React.FC<{ children: ReactNode }> = ({ children })
     }
   };
 
+  const exportUserRecipesAsCooklang = async (filters: RecipeExportFilters = {}): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const response = await fetch(`/api/recipes/export?${exportQuery({ format: "cooklang", lang: language || "en", ...filters })}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || t("failed_to_export_recipes"));
+      }
+      downloadBlob(await response.blob(), `recipes-cooklang-${new Date().toISOString().split("T")[0]}.zip`);
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error exporting recipes as Cooklang:", error);
+      return { success: false, error: error.message };
+    }
+  };
+
+  const exportCookbook = async (format: CookbookFormat, { recipeIds, ...options }: CookbookExportOptions = {}): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const query = exportQuery({ format, lang: language || "en", ...options, ids: recipeIds?.join(",") });
+      const response = await fetch(`/api/recipes/export?${query}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || t("failed_to_export_recipes"));
+      }
+      downloadBlob(await response.blob(), downloadFileName(response, `cookbook.${format}`));
+      return { success: true };
+    } catch (error: any) {
+      console.error(`Error exporting cookbook as ${format}:`, error);
+      return { success: false, error: error.message };
+    }
+  };
+
+  const exportSingleRecipeAsPdf = async (recipeId: string, servings?: number): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const servingsParam = servings ? `&servings=${servings}` : '';
+      const response = await fetch(`/api/recipes/export?id=${recipeId}&format=pdf&lang=${language || 'en'}${servingsParam}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || t("failed_to_export_recipe"));
+      }
+      downloadBlob(await response.blob(), downloadFileName(response, "recipe.pdf"));
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error exporting single recipe as PDF:", error);
+      return { success: false, error: error.message };
+    }
+  };
+
+  // A .cook file is meant to be saved and kept, e.g. in git, so it is downloaded rather than shown.
+  const exportSingleRecipeAsCooklang = async (recipeId: string, servings?: number): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const servingsParam = servings ? `&servings=${servings}` : '';
+      const response = await fetch(`/api/recipes/export?id=${recipeId}&format=cooklang&lang=${language || 'en'}${servingsParam}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || t("failed_to_export_recipe"));
+      }
+      downloadBlob(await response.blob(), downloadFileName(response, "recipe.cook"));
+      return { success: true };
+    } catch (error: any) {
+      console.error("Error exporting single recipe as Cooklang:", error);
+      return { success: false, error: error.message };
+    }
+  };
+
   return (
-    <RecipeContext.Provider value={{ recipes: recipes || [], addRecipe, updateRecipe, deleteRecipe, getRecipeById, submitRecipeRating, loading: isLoading, exportUserRecipes, importRecipes, exportUserRecipesAsHTML, exportUserRecipesAsMarkdown, exportSingleRecipeAsHTML, exportSingleRecipeAsMarkdown }}>
+    <RecipeContext.Provider value={{ addRecipe, updateRecipe, deleteRecipe, submitRecipeRating, exportUserRecipes, previewRecipeImport, importRecipes, exportRecipeBackup, exportUserRecipesAsHTML, exportUserRecipesAsMarkdown, exportUserRecipesAsCooklang, exportCookbook, exportSingleRecipeAsHTML, exportSingleRecipeAsMarkdown, exportSingleRecipeAsCooklang, exportSingleRecipeAsPdf }}>
       {children}
     </RecipeContext.Provider>
   );
@@ -1,73 +1,292 @@
 "use client";
 
-import type { ShoppingListItem } from "@/types";
-import React, { createContext, useState, useContext, ReactNode, useEffect, useCallback } from "react";
+import type { NewShoppingListItem, PendingShoppingListOperation, ShoppingListItem, ShoppingListResponse } from "@/types";
+import React, { createContext, useState, useContext, ReactNode, useEffect, useCallback, useRef } from "react";
+import { useSession } from "next-auth/react";
 import { v4 as uuidv4 } from "uuid";
+import { addQuantities } from "@/lib/quantity";
+import { normalizeUnit } from "@/lib/units";
+import { useTranslation } from "@/lib/i18n";
+import { toast } from "@/hooks/use-toast";
 
 interface ShoppingListContextType {
   items: ShoppingListItem[];
-  addItem: (itemDetails: Omit<ShoppingListItem, "id" | "isChecked">) => void;
-  addMultipleItems: (itemsDetails: Omit<ShoppingListItem, "id" | "isChecked">[]) => void;
+  addItem: (itemDetails: NewShoppingListItem) => void;
+  addMultipleItems: (itemsDetails: NewShoppingListItem[]) => void;
   removeItem: (itemId: string) => void;
+  removeItems: (itemIds: string[]) => void;
   toggleItemChecked: (itemId: string) => void;
+  setItemsChecked: (itemIds: string[], isChecked: boolean) => void;
   clearList: () => void;
   loading: boolean;
+  pendingChanges: number; // Local changes not yet saved to the server
 }
 
+const ITEMS_STORAGE_KEY = "oppskriftShoppingList";
+const PENDING_STORAGE_KEY = "oppskriftShoppingListPending";
+
+// Each account keeps its own copy, so signing in as someone else never sends one user's list to another.
+const storageKey = (key: string, userId: string) => `${key}:${userId}`;
+
+// Client errors the server will answer the same way however often the change is sent.
+// An expired session, a timeout or rate limiting can pass, so those changes stay queued.
+const isRejected = (status: number) => status >= 400 && status < 500 && ![401, 408, 429].includes(status);
+
 const ShoppingListContext = createContext<ShoppingListContextType | undefined>(undefined);
 
+const isSameLine = (item: ShoppingListItem, details: NewShoppingListItem) =>
+  !item.isChecked &&
+  (item.recipeId ?? null) === (details.recipeId ?? null) &&
+  item.name.trim().toLowerCase() === details.name.trim().toLowerCase() &&
+  normalizeUnit(item.unit) === normalizeUnit(details.unit);
+
+const applyOperation = (items: ShoppingListItem[], operation: PendingShoppingListOperation): ShoppingListItem[] => {
+  switch (operation.type) {
+    case "add": {
+      const addedIds = new Set(operation.items.map(item => item.id));
+      return [...items.filter(item => !addedIds.has(item.id)), ...operation.items];
+    }
+    case "update":
+      return items.map(item => (item.id === operation.id ? { ...item, ...operation.changes } : item));
+    case "remove":
+      return items.filter(item => item.id !== operation.id);
+    case "clear":
+      return [];
+  }
+};
+
+/** Sends one queued change; resolves to false when the server rejected it for good. */
+const sendOperation = async (operation: PendingShoppingListOperation): Promise<boolean> => {
+  let response: Response;
+  switch (operation.type) {
+    case "add":
+      response = await fetch("/api/shopping-list/items", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ items: operation.items }),
+      });
+      break;
+    case "update":
+      response = await fetch(`/api/shopping-list/items/${operation.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(operation.changes),
+      });
+      break;
+    case "remove":
+      response = await fetch(`/api/shopping-list/items/${operation.id}`, { method: "DELETE" });
+      break;
+    case "clear":
+      response = await fetch("/api/shopping-list", { method: "DELETE" });
+      break;
+  }
+  // A 404 means the item was already removed on another device, so there is nothing left to apply.
+  if (response.ok || response.status === 404) return true;
+  if (isRejected(response.status)) return false;
+  throw new Error(`Shopping list sync failed with status ${response.status}`);
+};
+
 export const ShoppingListProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [items, setItems] = useState<ShoppingListItem[]>([]);
   const [loading, setLoading] = useState(true);
+  const [pendingChanges, setPendingChanges] = useState(0);
+  const { t, currentLanguage } = useTranslation();
+  const { data: session, status } = useSession();
+  const userId = status === "authenticated" ? session.user.id : null;
 
-  useEffect(() => {
-    const storedItems = localStorage.getItem("oppskriftShoppingList");
-    if (storedItems) {
-      setItems(JSON.parse(storedItems));
+  const userIdRef = useRef<string | null>(null);
+  const itemsRef = useRef<ShoppingListItem[]>([]);
+  const pendingRef = useRef<PendingShoppingListOperation[]>([]);
+  const isSyncingRef = useRef(false);
+  const resyncRequestedRef = useRef(false);
+
+  const updateItems = useCallback((nextItems: ShoppingListItem[]) => {
+    itemsRef.current = nextItems;
+    setItems(nextItems);
+    if (userIdRef.current) {
+      localStorage.setItem(storageKey(ITEMS_STORAGE_KEY, userIdRef.current), JSON.stringify(nextItems));
+    }
+  }, []);
+
+  const setPending = useCallback((operations: PendingShoppingListOperation[]) => {
+    pendingRef.current = operations;
+    setPendingChanges(operations.length);
+    if (userIdRef.current) {
+      localStorage.setItem(storageKey(PENDING_STORAGE_KEY, userIdRef.current), JSON.stringify(operations));
     }
-    setLoading(false);
   }, []);
 
+  // Loads the signed-in account's list, and swaps it out when another account signs in.
   useEffect(() => {
-    if (!loading) {
-      localStorage.setItem("oppskriftShoppingList", JSON.stringify(items));
+    if (status === "loading") return;
+    userIdRef.current = userId;
+    if (!userId) {
+      updateItems([]);
+      setPending([]);
+      setLoading(false);
+      return;
     }
-  }, [items, loading]);
 
-  const addItem = useCallback((itemDetails: Omit<ShoppingListItem, "id" | "isChecked">) => {
-    const newItem: ShoppingListItem = {
-      ...itemDetails,
-      id: uuidv4(),
-      isChecked: false,
+    const storedItems: ShoppingListItem[] = JSON.parse(localStorage.getItem(storageKey(ITEMS_STORAGE_KEY, userId)) || "[]");
+    const storedPending = localStorage.getItem(storageKey(PENDING_STORAGE_KEY, userId));
+    const pending: PendingShoppingListOperation[] = storedPending !== null ? JSON.parse(storedPending) : [];
+
+    // Lists saved before server sync existed only live on this device, under keys shared by
+    // every account; the first account to sign in uploads it once. A queue under those keys
+    // can't be traced back to the account it came from, so it is dropped with its list.
+    const legacyItems = localStorage.getItem(ITEMS_STORAGE_KEY);
+    if (legacyItems !== null && localStorage.getItem(PENDING_STORAGE_KEY) === null) {
+      const uploadedItems: ShoppingListItem[] = JSON.parse(legacyItems);
+      if (uploadedItems.length > 0) pending.push({ type: "add", items: uploadedItems });
+    }
+    localStorage.removeItem(ITEMS_STORAGE_KEY);
+    localStorage.removeItem(PENDING_STORAGE_KEY);
+
+    updateItems(pending.reduce(applyOperation, storedItems));
+    setPending(pending);
+    setLoading(false);
+  }, [status, userId, updateItems, setPending]);
+
+  /**
+   * Sends queued local changes to the server in order, then replaces the local list with
+   * the server's copy so changes made on other devices show up. On a network or server
+   * error the queue is kept and retried when the browser comes back online; a change the
+   * server rejects is dropped so it can't hold up the ones after it.
+   */
+  const syncWithServer = useCallback(async () => {
+    if (!userIdRef.current || !navigator.onLine) return;
+    if (isSyncingRef.current) {
+      resyncRequestedRef.current = true;
+      return;
+    }
+
+    isSyncingRef.current = true;
+    let rejectedChanges = 0;
+    try {
+      do {
+        resyncRequestedRef.current = false;
+        const syncingUserId = userIdRef.current;
+        if (!syncingUserId) break;
+        // When another account signs in mid-sync, its own queue is synced from the start.
+        const switchedAccount = () => userIdRef.current !== syncingUserId;
+
+        while (pendingRef.current.length > 0 && !switchedAccount()) {
+          const accepted = await sendOperation(pendingRef.current[0]);
+          if (switchedAccount()) break;
+          if (!accepted) rejectedChanges++;
+          setPending(pendingRef.current.slice(1));
+        }
+        if (switchedAccount()) {
+          resyncRequestedRef.current = true;
+          continue;
+        }
+        const response = await fetch("/api/shopping-list");
+        if (!response.ok) {
+          throw new Error(`Failed to fetch shopping list: ${response.status}`);
+        }
+        const serverList: ShoppingListResponse = await response.json();
+        if (switchedAccount()) {
+          resyncRequestedRef.current = true;
+          continue;
+        }
+        // Changes made while the request was in flight are re-applied on top of the server copy.
+        updateItems(pendingRef.current.reduce(applyOperation, serverList.items));
+      } while (resyncRequestedRef.current);
+    } catch (error) {
+      console.error("Error syncing shopping list:", error);
+    } finally {
+      isSyncingRef.current = false;
+      if (rejectedChanges > 0) {
+        toast({ title: t("shopping_list_sync_rejected", { count: rejectedChanges }), variant: "destructive" });
+      }
+    }
+  }, [setPending, updateItems, t]);
+
+  useEffect(() => {
+    if (loading || !userId) return;
+    syncWithServer();
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") syncWithServer();
     };
-    setItems((prevItems) => [...prevItems, newItem]);
-  }, []);
+    window.addEventListener("online", syncWithServer);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      window.removeEventListener("online", syncWithServer);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [loading, userId, syncWithServer]);
 
-  const addMultipleItems = useCallback((itemsDetails: Omit<ShoppingListItem, "id" | "isChecked">[]) => {
-    const newItems: ShoppingListItem[] = itemsDetails.map(detail => ({
-      ...detail,
-      id: uuidv4(),
-      isChecked: false,
-    }));
-    setItems((prevItems) => [...prevItems, ...newItems]);
-  }, []);
+  // Applies changes locally straight away and queues them for the server.
+  const commit = useCallback((operations: PendingShoppingListOperation[]) => {
+    if (operations.length === 0) return;
+    updateItems(operations.reduce(applyOperation, itemsRef.current));
+    setPending([...pendingRef.current, ...operations]);
+    syncWithServer();
+  }, [updateItems, setPending, syncWithServer]);
+
+  // Adding an ingredient that is already on the list (same recipe, name and unit) sums the
+  // quantities instead of adding a second line, as long as both amounts are numeric.
+  const addMultipleItems = useCallback((itemsDetails: NewShoppingListItem[]) => {
+    const quantities = new Map(itemsRef.current.map(item => [item.id, item.quantity]));
+    const added: ShoppingListItem[] = [];
+    const updatedIds = new Set<string>();
+
+    itemsDetails.forEach(detail => {
+      const existing = [...itemsRef.current, ...added].find(item => isSameLine(item, detail));
+      const mergedQuantity = existing
+        ? addQuantities(quantities.get(existing.id) ?? existing.quantity, detail.quantity, { language: currentLanguage })
+        : null;
+      if (existing && mergedQuantity !== null) {
+        quantities.set(existing.id, mergedQuantity);
+        updatedIds.add(existing.id);
+      } else {
+        const newItem = { ...detail, id: uuidv4(), isChecked: false };
+        added.push(newItem);
+        quantities.set(newItem.id, newItem.quantity);
+      }
+    });
+
+    const operations: PendingShoppingListOperation[] = [];
+    if (added.length > 0) {
+      operations.push({ type: "add", items: added.map(item => ({ ...item, quantity: quantities.get(item.id)! })) });
+    }
+    updatedIds.forEach(id => {
+      if (!added.some(item => item.id === id)) {
+        operations.push({ type: "update", id, changes: { quantity: quantities.get(id)! } });
+      }
+    });
+    commit(operations);
+  }, [commit, currentLanguage]);
 
+  const addItem = useCallback((itemDetails: NewShoppingListItem) => {
+    addMultipleItems([itemDetails]);
+  }, [addMultipleItems]);
+
+  const removeItems = useCallback((itemIds: string[]) => {
+    commit(itemIds.map(id => ({ type: "remove", id })));
+  }, [commit]);
 
   const removeItem = useCallback((itemId: string) => {
-    setItems((prevItems) => prevItems.filter((item) => item.id !== itemId));
-  }, []);
+    removeItems([itemId]);
+  }, [removeItems]);
+
+  const setItemsChecked = useCallback((itemIds: string[], isChecked: boolean) => {
+    const ids = new Set(itemIds);
+    commit(itemsRef.current
+      .filter(item => ids.has(item.id) && item.isChecked !== isChecked)
+      .map(item => ({ type: "update", id: item.id, changes: { isChecked } })));
+  }, [commit]);
 
   const toggleItemChecked = useCallback((itemId: string) => {
-    setItems((prevItems) =>
-      prevItems.map((item) =>
-        item.id === itemId ? { ...item, isChecked: !item.isChecked } : item
-      )
-    );
-  }, []);
+    const item = itemsRef.current.find(existing => existing.id === itemId);
+    if (!item) return;
+    commit([{ type: "update", id: itemId, changes: { isChecked: !item.isChecked } }]);
+  }, [commit]);
 
   const clearList = useCallback(() => {
-    setItems([]);
-  }, []);
+    commit([{ type: "clear" }]);
+  }, [commit]);
 
   // Prevent hydration mismatch for localStorage access
   const [hasMounted, setHasMounted] = React.useState(false);
@@ -76,11 +295,11 @@ export const ShoppingListProvider: React.FC<{ children: ReactNode }> = ({ childr
   }, []);
 
   if (!hasMounted && loading) {
-    return null; 
+    return null;
   }
 
   return (
-    <ShoppingListContext.Provider value={{ items, addItem, addMultipleItems, removeItem, toggleItemChecked, clearList, loading }}>
+    <ShoppingListContext.Provider value={{ items, addItem, addMultipleItems, removeItem, removeItems, toggleItemChecked, setItemsChecked, clearList, loading, pendingChanges }}>
       {children}
     </ShoppingListContext.Provider>
   );
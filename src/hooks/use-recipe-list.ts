@@ -0,0 +1,53 @@
+"use client";
+
+import useSWRInfinite from "swr/infinite";
+import type { RecipeListResponse, RecipeSort, RecipeSummary, RecipeVisibilityFilter } from "@/types";
+
+export interface RecipeListParams {
+  query?: string;
+  category?: string | null;
+  tag?: string | null;
+  visibility?: RecipeVisibilityFilter;
+  sort?: RecipeSort;
+  pageSize?: number;
+}
+
+const fetcher = (url: string): Promise<RecipeListResponse> => fetch(url).then(res => {
+  if (!res.ok) throw new Error(res.statusText);
+  return res.json();
+});
+
+/**
+ * Pages through `GET /api/recipes` (or `GET /api/recipes/search` when there is a query) with the given filters. Each page is requested
+ * with the previous page's `nextCursor`; pass `enabled: false` to skip fetching.
+ */
+export function useRecipeList(params: RecipeListParams, enabled = true) {
+  const getKey = (pageIndex: number, previousPage: RecipeListResponse | null) => {
+    if (!enabled) return null;
+    if (previousPage && !previousPage.nextCursor) return null; // Reached the end
+
+    const searchParams = new URLSearchParams();
+    if (params.query) searchParams.set("q", params.query);
+    if (params.category) searchParams.set("category", params.category);
+    if (params.tag) searchParams.set("tag", params.tag);
+    if (params.visibility) searchParams.set("visibility", params.visibility);
+    if (params.sort) searchParams.set("sort", params.sort);
+    if (params.pageSize) searchParams.set("limit", String(params.pageSize));
+    if (pageIndex > 0 && previousPage?.nextCursor) searchParams.set("cursor", previousPage.nextCursor);
+    // Free-text queries go through the ranked full-text search endpoint.
+    return `${params.query ? "/api/recipes/search" : "/api/recipes"}?${searchParams.toString()}`;
+  };
+
+  const { data, error, isLoading, isValidating, size, setSize, mutate } = useSWRInfinite<RecipeListResponse>(getKey, fetcher);
+
+  const recipes: RecipeSummary[] = data ? data.flatMap(page => page.recipes) : [];
+  const total = data?.[0]?.total ?? 0;
+  const hasMore = !!data && !!data[data.length - 1]?.nextCursor;
+  const isLoadingMore = isLoading || (size > 0 && !!data && typeof data[size - 1] === "undefined");
+
+  const loadMore = () => {
+    if (hasMore && !isLoadingMore) setSize(size + 1);
+  };
+
+  return { recipes, total, hasMore, loadMore, isLoading, isLoadingMore, isValidating, error, mutate };
+}
@@ -0,0 +1,161 @@
+import { describe, expect, it } from "vitest";
+import type { Recipe } from "@/types/recipe";
+import { generateCooklang, looksLikeCooklang, parseCooklang } from "@/lib/cooklang";
+
+const options = { scale: 1, lang: "no" };
+
+let nextId = 0;
+const id = () => String(++nextId);
+
+function recipe(overrides: Partial<Recipe> = {}): Recipe {
+  return {
+    id: id(),
+    title: "Pannekaker",
+    description: "Tynne pannekaker som hos mormor.",
+    ingredientGroups: [{
+      id: id(),
+      name: "",
+      ingredients: [
+        { id: id(), name: "hvetemel", quantity: "3", unit: "dl" },
+        { id: id(), name: "melk", quantity: "6", unit: "dl" },
+        { id: id(), name: "egg", quantity: "3", unit: "" },
+        { id: id(), name: "smør, smeltet", quantity: "2", unit: "ss" },
+        { id: id(), name: "salt", quantity: "½", unit: "ts" },
+      ],
+    }],
+    instructions: [
+      { id: id(), text: "Visp hvetemel og melk til en klumpfri røre.", isChecked: false },
+      { id: id(), text: "Visp inn egg og smør.", isChecked: false },
+      { id: id(), text: "Stek tynne kaker i en varm panne.", isChecked: false },
+    ],
+    tips: [{ id: id(), text: "Server med blåbærsyltetøy.", isChecked: false }],
+    tags: [{ name: "frokost" }, { name: "søtt" }],
+    categories: [{ name: "Dessert" }],
+    servingsValue: 4,
+    servingsUnit: "servings",
+    prepTime: "10 min",
+    cookTime: "30 min",
+    sourceUrl: "https://mormor.example/pannekaker",
+    createdAt: "2024-05-01T12:00:00.000Z",
+    updatedAt: "2024-05-01T12:00:00.000Z",
+    ...overrides,
+  };
+}
+
+const steps = (texts: string[]) => texts.map(text => ({ id: id(), text, isChecked: false }));
+
+describe("generateCooklang and parseCooklang", () => {
+  it("round-trip a recipe's details, ingredients, steps and notes", () => {
+    const cooklang = generateCooklang(recipe(), options);
+    expect(cooklang).toContain("Visp @hvetemel{3%dl} og @melk{6%dl} til en klumpfri røre.");
+    expect(cooklang).toContain("Visp inn @egg{3} og @smør{2%ss}(smeltet).");
+
+    expect(parseCooklang(cooklang)).toEqual({
+      title: "Pannekaker",
+      description: "Tynne pannekaker som hos mormor.",
+      ingredientGroups: [{
+        name: "",
+        ingredients: [
+          { name: "salt", quantity: "½", unit: "ts" }, // No step mentions it, so it is listed ahead of them
+          { name: "hvetemel", quantity: "3", unit: "dl" },
+          { name: "melk", quantity: "6", unit: "dl" },
+          { name: "egg", quantity: "3", unit: "" },
+          { name: "smør, smeltet", quantity: "2", unit: "ss" },
+        ],
+      }],
+      instructions: [
+        { text: "Visp hvetemel og melk til en klumpfri røre." },
+        { text: "Visp inn egg og smør." },
+        { text: "Stek tynne kaker i en varm panne." },
+      ],
+      tips: [{ text: "Server med blåbærsyltetøy." }],
+      tags: ["frokost", "søtt"],
+      categories: ["Dessert"],
+      servingsValue: 4,
+      servingsUnit: "servings",
+      prepTime: "10 min",
+      cookTime: "30 min",
+      sourceUrl: "https://mormor.example/pannekaker",
+      imageUrl: undefined,
+    });
+  });
+
+  it("keep ingredient groups as sections", () => {
+    const groups = [
+      { id: id(), name: "Deig", ingredients: [{ id: id(), name: "hvetemel", quantity: "500", unit: "g" }] },
+      { id: id(), name: "Fyll", ingredients: [{ id: id(), name: "kanel", quantity: "2", unit: "ss" }] },
+    ];
+    const parsed = parseCooklang(generateCooklang(recipe({ ingredientGroups: groups, instructions: steps(["Elt deigen.", "Strø over kanel."]) }), options));
+    expect(parsed.ingredientGroups).toEqual([
+      { name: "Deig", ingredients: [{ name: "hvetemel", quantity: "500", unit: "g" }] },
+      { name: "Fyll", ingredients: [{ name: "kanel", quantity: "2", unit: "ss" }] },
+    ]);
+    expect(parsed.instructions).toEqual([{ text: "Elt deigen." }, { text: "Strø over kanel." }]);
+  });
+
+  it("keep text that reads as Cooklang syntax from being lost", () => {
+    const cooklang = generateCooklang(recipe({
+      instructions: steps([
+        "Visp mel og melk sammen -- ikke for lenge.",
+        "= ferdig",
+        "Rør inn sukker [- etter smak -] og vent.",
+        "> 180 grader i ovnen",
+        "Send bilde til @mormor og bruk #hashtag.",
+      ]),
+      tips: steps(["Kan fryses -- tines i kjøleskapet.", "> dobbel porsjon", "= to brett"]),
+    }), options);
+
+    const parsed = parseCooklang(cooklang);
+    expect(parsed.instructions).toEqual([
+      { text: "Visp mel og melk sammen – ikke for lenge." },
+      { text: "= ferdig" },
+      { text: "Rør inn sukker [– etter smak -] og vent." },
+      { text: "> 180 grader i ovnen" },
+      { text: "Send bilde til @mormor og bruk #hashtag." },
+    ]);
+    expect(parsed.tips).toEqual([
+      { text: "Kan fryses – tines i kjøleskapet." },
+      { text: "> dobbel porsjon" },
+      { text: "= to brett" },
+    ]);
+  });
+
+  it("scale quantities and servings", () => {
+    const cooklang = generateCooklang(recipe({ servingsValue: 12, servingsUnit: "pieces" }), { scale: 0.5, lang: "no" });
+    expect(cooklang).toContain("servings: 6 pieces");
+    expect(parseCooklang(cooklang).ingredientGroups[0].ingredients[1]).toEqual({ name: "hvetemel", quantity: "1½", unit: "dl" });
+  });
+});
+
+describe("parseCooklang", () => {
+  it("reads metadata lines, comments, cookware and timers", () => {
+    const parsed = parseCooklang([
+      ">> servings: 2",
+      ">> time: 1 hour",
+      "-- A comment on its own line",
+      "Boil @water{1%l} in a #large pot{} [- not the small one -] for ~{10%minutes}. -- no lid",
+      "",
+      "Add @pasta{200%g}.",
+    ].join("\n"), "recipes/Pasta.cook");
+    expect(parsed).toMatchObject({
+      title: "Pasta",
+      servingsValue: 2,
+      cookTime: "1 h",
+      instructions: [{ text: "Boil water in a large pot for 10 minutes." }, { text: "Add pasta." }],
+    });
+    expect(parsed.ingredientGroups).toEqual([{ name: "", ingredients: [
+      { name: "water", quantity: "1", unit: "l" },
+      { name: "pasta", quantity: "200", unit: "g" },
+    ] }]);
+  });
+});
+
+describe("looksLikeCooklang", () => {
+  it("needs front matter, metadata lines or an ingredient with an amount", () => {
+    expect(looksLikeCooklang("---\ntitle: Pasta\n---\nBoil water.")).toBe(true);
+    expect(looksLikeCooklang(">> servings: 2\nBoil water.")).toBe(true);
+    expect(looksLikeCooklang("Boil @water{1%l}.")).toBe(true);
+    expect(looksLikeCooklang("Send questions to chef@example.com.")).toBe(false);
+    expect(looksLikeCooklang("200 g hvetemel\n3 dl melk")).toBe(false);
+  });
+});
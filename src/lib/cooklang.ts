@@ -0,0 +1,341 @@
+/**
+ * Reads and writes Cooklang (https://cooklang.org), a plain-text recipe format where
+ * ingredients, cookware and timers are marked up inside the steps:
+ *
+ *   ---
+ *   title: Pancakes
+ *   servings: 4
+ *   ---
+ *
+ *   Whisk @flour{3%dl} and @milk{6%dl} in a #bowl{}.
+ *
+ *   Fry in a #pan{} for ~{2%minutes} per side.
+ *
+ * Steps are paragraphs, `= Name` starts a section, `> text` is a note and metadata comes
+ * from YAML front matter or `>> key: value` lines. Ingredients are collected from the steps;
+ * a paragraph holding nothing but ingredients adds them to the list without adding a step,
+ * which is how ingredients that no step mentions are written.
+ */
+
+import type { Recipe } from "@/types/recipe";
+import type { BackupRecipe } from "@/lib/recipe-backup";
+import type { ExportOptions } from "@/lib/recipe-export";
+import type { ParsedIngredientGroup } from "@/lib/ingredient-line";
+import { addQuantities, scaleQuantity } from "@/lib/quantity";
+import { formatDurationMinutes, parseDurationMinutes } from "@/lib/duration";
+import { parseRecipeYield } from "@/lib/structured-recipe";
+
+const DEFAULT_SERVINGS = 4;
+
+// `@name`, `@two words{qty%unit}`, `#cookware{}`, `~{25%minutes}`, with an optional `(preparation)`
+// after an ingredient. A backslash in front of a sigil makes it plain text, as it does in
+// front of a line's leading "=" or ">".
+const TOKEN_PATTERN = /(?<!\\)([@#~])(?:([^@#~{}\n]*?)\{([^}]*)\}|([^\s@#~{}.,;:!?()]+))(?:\(([^)]*)\))?/gu;
+
+const SECTION_PATTERN = /^=+\s*(.*?)\s*=*$/;
+
+interface CooklangToken {
+  kind: "ingredient" | "cookware" | "timer";
+  name: string;
+  quantity: string;
+  unit: string;
+  preparation: string;
+}
+
+const readAmount = (amount: string) => {
+  const [quantity, unit = ""] = amount.split("%");
+  // A leading "=" marks a quantity that shouldn't scale; we scale everything the same.
+  return { quantity: quantity.trim().replace(/^[=*]\s*/, ""), unit: unit.trim() };
+};
+
+const unescapeText = (text: string) => text.replace(/\\([@#~=>])/g, "$1").replace(/[ \t]+/g, " ").trim();
+
+/** Splits a step into plain text and the ingredients, cookware and timers marked up in it. */
+function readStep(paragraph: string): { text: string; tokens: CooklangToken[] } {
+  const tokens: CooklangToken[] = [];
+  const text = paragraph.replace(TOKEN_PATTERN, (match, sigil: string, bracedName?: string, amount?: string, word?: string, preparation?: string) => {
+    const kind = sigil === "@" ? "ingredient" : sigil === "#" ? "cookware" : "timer";
+    const name = (bracedName ?? word ?? "").trim();
+    const token = { kind, name, ...readAmount(amount ?? ""), preparation: preparation?.trim() ?? "" } as CooklangToken;
+    tokens.push(token);
+    const prepText = preparation !== undefined && kind !== "ingredient" ? `(${preparation})` : "";
+    if (kind === "timer") return [token.quantity, token.unit].filter(Boolean).join(" ") || name;
+    return name + prepText;
+  });
+  return { text: unescapeText(text), tokens };
+}
+
+// A paragraph that only lists ingredients, apart from commas, "and" and the like, is not a step.
+const isIngredientList = (text: string, tokens: CooklangToken[]) =>
+  tokens.length > 0
+  && tokens.every(token => token.kind === "ingredient")
+  && text.replace(new RegExp(tokens.map(token => token.name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|"), "g"), "")
+    .replace(/[\s,;.:&+-]|\b(and|og|y)\b/gi, "") === "";
+
+const unquote = (value: string) => {
+  const text = value.trim();
+  if (/^"(.*)"$/.test(text)) {
+    try {
+      return JSON.parse(text) as string;
+    } catch {
+      return text.slice(1, -1);
+    }
+  }
+  return text.replace(/^'(.*)'$/, "$1");
+};
+
+const readListValue = (value: string) =>
+  /^\[.*\]$/.test(value.trim()) ? value.trim().slice(1, -1).split(",").map(unquote).filter(Boolean) : value;
+
+/**
+ * Reads the simple YAML found in Cooklang front matter: `key: value`, inline `[a, b]` lists,
+ * `- item` lists and one level of nested keys, which are flattened to `parent.key`.
+ */
+function readFrontMatter(yaml: string): Record<string, string | string[]> {
+  const metadata: Record<string, string | string[]> = {};
+  let parent = "";
+  yaml.split("\n").forEach(line => {
+    if (!line.trim() || line.trim().startsWith("#")) return;
+    const indented = /^\s/.test(line);
+    const item = line.match(/^\s*-\s+(.*)$/);
+    if (item && parent) {
+      const list = metadata[parent];
+      metadata[parent] = [...(Array.isArray(list) ? list : []), unquote(item[1])];
+      return;
+    }
+    const pair = line.match(/^\s*([^:]+):\s*(.*)$/);
+    if (!pair) return;
+    const key = pair[1].trim().toLowerCase();
+    if (indented && parent) {
+      metadata[`${parent}.${key}`] = readListValue(unquote(pair[2]));
+    } else {
+      parent = pair[2].trim() ? "" : key;
+      if (pair[2].trim()) metadata[key] = readListValue(pair[2].trim().startsWith("[") ? pair[2] : unquote(pair[2]));
+    }
+  });
+  return metadata;
+}
+
+const metadataValue = (metadata: Record<string, string | string[]>, ...keys: string[]) => {
+  for (const key of keys) {
+    const value = metadata[key];
+    if (Array.isArray(value) ? value.length > 0 : value?.trim()) return value;
+  }
+  return undefined;
+};
+
+const metadataText = (metadata: Record<string, string | string[]>, ...keys: string[]) => {
+  const value = metadataValue(metadata, ...keys);
+  return Array.isArray(value) ? value.join(", ") : value?.trim();
+};
+
+const metadataList = (metadata: Record<string, string | string[]>, ...keys: string[]) => {
+  const value = metadataValue(metadata, ...keys);
+  return (Array.isArray(value) ? value : (value ?? "").split(",")).map(item => item.trim()).filter(Boolean);
+};
+
+const metadataDuration = (metadata: Record<string, string | string[]>, ...keys: string[]) => {
+  const minutes = parseDurationMinutes(metadataText(metadata, ...keys));
+  return minutes ? formatDurationMinutes(minutes) : undefined;
+};
+
+const webUrl = (value: string | undefined) => (value && /^https?:\/\/\S+$/i.test(value) ? value : undefined);
+
+/**
+ * Parses a Cooklang recipe into the shape of our JSON export. The title comes from the
+ * metadata or, failing that, from the file name. Ingredients go into a group per section.
+ */
+export function parseCooklang(source: string, fileName?: string): BackupRecipe {
+  let body = source.replace(/\r\n?/g, "\n").replace(/\[-[\s\S]*?-\]/g, "");
+  let metadata: Record<string, string | string[]> = {};
+  const frontMatter = body.match(/^---\n([\s\S]*?)\n---[ \t]*(?:\n|$)/);
+  if (frontMatter) {
+    metadata = readFrontMatter(frontMatter[1]);
+    body = body.slice(frontMatter[0].length);
+  }
+
+  const groups: ParsedIngredientGroup[] = [];
+  const instructions: { text: string }[] = [];
+  const tips: { text: string }[] = [];
+  let section = "";
+  let sectionStart = 0;
+  let paragraph: string[] = [];
+
+  const groupFor = (name: string) => {
+    let group = groups.find(candidate => candidate.name === name);
+    if (!group) {
+      group = { name, ingredients: [] };
+      groups.push(group);
+    }
+    return group;
+  };
+
+  const addIngredient = (token: CooklangToken) => {
+    const name = token.preparation ? `${token.name}, ${token.preparation}` : token.name;
+    const known = groups.flatMap(group => group.ingredients).find(ingredient => ingredient.name.toLowerCase() === name.toLowerCase());
+    // A second mention without an amount refers back to the first one.
+    if (known && !token.quantity) return;
+    if (known && known.unit === token.unit) {
+      const total = addQuantities(known.quantity, token.quantity);
+      if (total !== null) {
+        known.quantity = total;
+        return;
+      }
+    }
+    groupFor(section).ingredients.push({ name, quantity: token.quantity, unit: token.unit });
+  };
+
+  const endParagraph = () => {
+    if (paragraph.length === 0) return;
+    const { text, tokens } = readStep(paragraph.join(" "));
+    paragraph = [];
+    tokens.filter(token => token.kind === "ingredient" && token.name).forEach(addIngredient);
+    if (!text || isIngredientList(text, tokens)) return;
+    // As with web page sections, the section name leads its first step.
+    instructions.push({ text: section && instructions.length === sectionStart ? `${section}: ${text}` : text });
+  };
+
+  body.split("\n").forEach(rawLine => {
+    const line = rawLine.replace(/(^|\s)--(\s.*)?$/, "").trim();
+    const metadataLine = line.match(/^>>\s*([^:]+):\s*(.*)$/);
+    if (metadataLine) {
+      metadata[metadataLine[1].trim().toLowerCase()] = metadataLine[2].trim();
+    } else if (line.startsWith(">")) {
+      endParagraph();
+      const note = readStep(line.slice(1)).text;
+      if (note) tips.push({ text: note });
+    } else if (SECTION_PATTERN.test(line)) {
+      endParagraph();
+      section = line.match(SECTION_PATTERN)?.[1] ?? "";
+      sectionStart = instructions.length;
+    } else if (line) {
+      paragraph.push(line);
+    } else {
+      endParagraph();
+    }
+  });
+  endParagraph();
+
+  const yieldInfo = parseRecipeYield(metadataText(metadata, "servings", "serves", "yield"));
+  return {
+    title: metadataText(metadata, "title") ?? (fileName ?? "").replace(/^.*\//, "").replace(/\.cook$/i, ""),
+    description: metadataText(metadata, "description", "introduction"),
+    ingredientGroups: groups.filter(group => group.ingredients.length > 0),
+    instructions,
+    tips,
+    tags: metadataList(metadata, "tags"),
+    categories: metadataList(metadata, "categories", "category", "course"),
+    servingsValue: yieldInfo.servingsValue ?? DEFAULT_SERVINGS,
+    servingsUnit: yieldInfo.servingsUnit ?? "servings",
+    prepTime: metadataDuration(metadata, "prep time", "prep_time", "time.prep"),
+    cookTime: metadataDuration(metadata, "cook time", "cook_time", "time.cook", "time", "duration"),
+    sourceUrl: webUrl(metadataText(metadata, "source", "source.url", "url")),
+    imageUrl: webUrl(metadataText(metadata, "image", "picture")),
+  };
+}
+
+/**
+ * True when plain text reads as Cooklang: it has front matter, metadata lines or ingredients
+ * with an amount in braces. A bare `@word` isn't enough, as e-mail addresses have one too.
+ */
+export const looksLikeCooklang = (text: string) =>
+  /^---\n/.test(text.replace(/\r\n?/g, "\n")) || /^>>\s*\w/m.test(text) || /(?<!\\)@[^\s@#~{}][^@#~{}\n]*\{[^}\n]*\}/.test(text);
+
+// ---------------------------------------------------------------------------------------
+// Export
+
+const escapeCooklang = (text: string) => text.replace(/([@#~])/g, "\\$1").replace(/\s*\n\s*/g, " ");
+
+// Keeps a step or note from reading as other syntax on import: "--" and "[-" would start a
+// comment, so they get an en dash, and a leading "=" or ">" would start a section or a note.
+const escapeLine = (line: string) =>
+  line.replace(/(^|\s)--(?=\s|$)/g, "$1–").replace(/\[-/g, "[–").replace(/^([=>])/, "\\$1");
+
+// Front matter values are quoted when YAML would read them as something else.
+const yamlValue = (value: string) => (/^[\p{L}\p{N}\s().,'/%&+_-]*$/u.test(value) && !/^[\s'-]/.test(value) ? value : JSON.stringify(value));
+
+const yamlList = (values: string[]) => `[${values.map(yamlValue).join(", ")}]`;
+
+const markupIngredient = (name: string, quantity: string, unit: string, preparation: string) =>
+  `@${name.replace(/[{}@#~]/g, "")}{${quantity}${unit ? `%${unit}` : ""}}${preparation ? `(${preparation.replace(/[()]/g, "")})` : ""}`;
+
+// "butter, melted" is written `@butter{…}(melted)`, the form the importer reads back, so that
+// a step saying "butter" is where the ingredient is marked up.
+const splitPreparation = (name: string) => {
+  const [base, ...preparation] = name.split(",");
+  return { name: base.trim(), preparation: preparation.join(",").trim() };
+};
+
+type Ingredient = Recipe["ingredientGroups"][number]["ingredients"][number];
+
+/**
+ * Marks up the first mention of each ingredient in the steps and returns the ingredients
+ * no step mentions by name.
+ */
+function markUpSteps(steps: string[], ingredients: Ingredient[], options: ExportOptions) {
+  // Each step is a list of parts; marked-up parts are left alone by later ingredients.
+  const parts = steps.map(step => [{ text: step, markup: false }]);
+  const unmentioned = ingredients.filter(ingredient => {
+    const quantity = scaleQuantity(ingredient.quantity, options.scale, { language: options.lang });
+    const { name, preparation } = splitPreparation(ingredient.name);
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}(?![\\p{L}\\p{N}])`, "iu");
+    for (const stepParts of parts) {
+      for (const [index, part] of stepParts.entries()) {
+        const match = part.markup ? null : part.text.match(pattern);
+        if (match && match.index !== undefined && name) {
+          stepParts.splice(index, 1,
+            { text: part.text.slice(0, match.index), markup: false },
+            { text: markupIngredient(match[0], quantity, ingredient.unit, preparation), markup: true },
+            { text: part.text.slice(match.index + match[0].length), markup: false });
+          return false;
+        }
+      }
+    }
+    return true;
+  });
+  const text = parts.map(stepParts => stepParts.map(part => (part.markup ? part.text : escapeCooklang(part.text))).join("").trim());
+  return { text, unmentioned };
+}
+
+/**
+ * Writes a recipe as a `.cook` file. Quantities are placed where the steps first mention
+ * each ingredient; ingredients no step mentions, and every ingredient of a recipe with
+ * named ingredient groups, are listed in paragraphs of their own ahead of the steps.
+ */
+export function generateCooklang(recipe: Recipe, options: ExportOptions): string {
+  const lines = ["---", `title: ${yamlValue(recipe.title)}`];
+  if (recipe.description) lines.push(`description: ${yamlValue(recipe.description.replace(/\s*\n\s*/g, " "))}`);
+  const servings = Math.round(recipe.servingsValue * options.scale * 100) / 100;
+  lines.push(`servings: ${recipe.servingsUnit === "pieces" ? `${servings} pieces` : servings}`);
+  if (recipe.tags?.length) lines.push(`tags: ${yamlList(recipe.tags.map(tag => tag.name))}`);
+  if (recipe.categories?.length) lines.push(`categories: ${yamlList(recipe.categories.map(category => category.name))}`);
+  if (recipe.prepTime) lines.push(`prep time: ${yamlValue(recipe.prepTime)}`);
+  if (recipe.cookTime) lines.push(`cook time: ${yamlValue(recipe.cookTime)}`);
+  if (recipe.sourceUrl) lines.push(`source: ${yamlValue(recipe.sourceUrl)}`);
+  if (recipe.imageUrl && !recipe.imageUrl.startsWith("data:")) lines.push(`image: ${yamlValue(recipe.imageUrl)}`);
+  lines.push("---", "");
+
+  const formatList = (ingredients: Ingredient[]) => ingredients.map(ingredient => {
+    const { name, preparation } = splitPreparation(ingredient.name);
+    return markupIngredient(name, scaleQuantity(ingredient.quantity, options.scale, { language: options.lang }), ingredient.unit, preparation);
+  });
+
+  const steps = recipe.instructions.map(step => step.text);
+  const hasNamedGroups = recipe.ingredientGroups.some(group => group.name);
+  let stepTexts: string[];
+  if (hasNamedGroups) {
+    // Cooklang has no ingredient sections; sections of ingredient lists keep the groups.
+    recipe.ingredientGroups.forEach(group => {
+      lines.push(`= ${group.name}`, ...formatList(group.ingredients), "");
+    });
+    lines.push("=", "");
+    stepTexts = steps.map(escapeCooklang);
+  } else {
+    const { text, unmentioned } = markUpSteps(steps, recipe.ingredientGroups.flatMap(group => group.ingredients), options);
+    if (unmentioned.length > 0) lines.push(...formatList(unmentioned), "");
+    stepTexts = text;
+  }
+  stepTexts.forEach(step => lines.push(escapeLine(step), ""));
+  recipe.tips?.forEach(tip => lines.push(`> ${escapeLine(escapeCooklang(tip.text))}`));
+  return `${lines.join("\n").trimEnd()}\n`;
+}
@@ -0,0 +1,53 @@
+// Unit words recognised in free-text durations, in minutes. Covers English, Norwegian and Spanish.
+const UNIT_MINUTES: Record<string, number> = {
+  d: 1440, day: 1440, days: 1440, dag: 1440, dager: 1440, "día": 1440, "días": 1440, dia: 1440, dias: 1440,
+  h: 60, hr: 60, hrs: 60, hour: 60, hours: 60, t: 60, time: 60, timer: 60, hora: 60, horas: 60,
+  m: 1, min: 1, mins: 1, minute: 1, minutes: 1, minutt: 1, minutter: 1, minuto: 1, minutos: 1,
+};
+
+/**
+ * Reads a preparation or cooking time such as "1 hour 30 min", "1,5 timer", "45-60 min",
+ * "1:30" or an ISO 8601 duration ("PT1H30M") and returns it in minutes. Ranges count as
+ * their upper bound and a bare number is taken as minutes. Returns null when the text
+ * contains no duration.
+ */
+export function parseDurationMinutes(text: string | null | undefined): number | null {
+  if (!text) return null;
+  const value = text.trim().toLowerCase();
+
+  const iso = value.match(/^p(?:(\d+(?:\.\d+)?)d)?(?:t(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m)?(?:(\d+(?:\.\d+)?)s)?)?$/);
+  if (iso && value !== "p" && value !== "pt") {
+    const [, days, hours, minutes, seconds] = iso.map(part => parseFloat(part ?? "0"));
+    return Math.round(days * 1440 + hours * 60 + minutes + seconds / 60);
+  }
+
+  const clock = value.match(/^(\d+):(\d{2})$/);
+  if (clock) return parseInt(clock[1], 10) * 60 + parseInt(clock[2], 10);
+
+  let total = 0;
+  let found = false;
+  const pattern = /(\d+(?:[.,]\d+)?)(?:\s*(?:-|–|to|til|a)\s*(\d+(?:[.,]\d+)?))?\s*([a-zæøåíá]+)?/g;
+  for (const [, first, second, unit] of value.matchAll(pattern)) {
+    const amount = parseFloat((second ?? first).replace(",", "."));
+    const factor = unit === undefined ? 1 : UNIT_MINUTES[unit];
+    if (factor === undefined) continue;
+    total += amount * factor;
+    found = true;
+  }
+  return found ? Math.round(total) : null;
+}
+
+/** Writes a number of minutes as "45 min", "1 h" or "1 h 30 min". */
+export function formatDurationMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  if (hours === 0) return `${rest} min`;
+  return rest === 0 ? `${hours} h` : `${hours} h ${rest} min`;
+}
+
+/** Writes a number of minutes as an ISO 8601 duration ("PT1H30M"), as used by schema.org. */
+export function toIsoDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  return `PT${hours > 0 ? `${hours}H` : ""}${rest > 0 || hours === 0 ? `${rest}M` : ""}`;
+}
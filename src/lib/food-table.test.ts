@@ -0,0 +1,68 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { buildFoodIndex, matchFood, normalizeFoodName, parseFoodTable, searchFoods } from "@/lib/food-table";
+
+const index = buildFoodIndex(parseFoodTable(readFileSync(path.join(__dirname, "..", "data", "food-composition.csv"), "utf8")));
+const match = (name: string) => matchFood(index, name)?.id ?? null;
+
+describe("parseFoodTable", () => {
+  it("reads names, aliases, nutrients and optional numbers, skipping comments", () => {
+    const [food] = parseFoodTable([
+      "# A comment",
+      "id,name_no,name_en,name_es,aliases,kcal,protein,fat,carbohydrates,fiber,salt,density,unit_weight",
+      'garlic,Hvitløk,Garlic,Ajo,"hvitløksfedd|garlic clove",140,"6,5",0.5,28,2,0,,5',
+    ].join("\n"));
+    expect(food).toEqual({
+      id: "garlic",
+      names: { no: "Hvitløk", en: "Garlic", es: "Ajo" },
+      aliases: ["hvitløksfedd", "garlic clove"],
+      per100g: { calories: 140, protein: 6.5, fat: 0.5, carbohydrates: 28, fiber: 2, salt: 0 },
+      density: null,
+      unitWeight: 5,
+    });
+  });
+});
+
+describe("normalizeFoodName", () => {
+  it("lowercases and drops accents, brackets and punctuation", () => {
+    expect(normalizeFoodName("Epler (gjerne gule), skrelt")).toEqual(["epler", "skrelt"]);
+    expect(normalizeFoodName("Azúcar moreno")).toEqual(["azucar", "moreno"]);
+  });
+});
+
+describe("matchFood", () => {
+  it("matches names and aliases in each language, and English plurals", () => {
+    expect(match("hvetemel")).toBe("wheat-flour");
+    expect(match("all-purpose flour")).toBe("wheat-flour");
+    expect(match("Harina de trigo")).toBe("wheat-flour");
+    expect(match("tomatoes")).toBe("tomato");
+    expect(match("smør, smeltet")).toBe("butter");
+  });
+
+  it("prefers the longest, most specific term", () => {
+    expect(match("brunt sukker")).toBe("brown-sugar");
+    expect(match("hakkede tomater")).toBe("canned-tomatoes");
+  });
+
+  it("matches Norwegian compounds by their last part", () => {
+    expect(match("kremfløte")).toBe("cream");
+    expect(match("lettmelk")).toBe("milk");
+    expect(match("rapsolje")).toBe("oil");
+    expect(match("fullkornshvetemel")).toBe("wheat-flour");
+  });
+
+  it("doesn't match words that merely end like a food", () => {
+    expect(match("caramel sauce")).toBeNull();
+    expect(match("licorice")).toBeNull();
+    expect(match("pineapple")).toBeNull();
+  });
+});
+
+describe("searchFoods", () => {
+  it("finds foods from an unfinished word, best matches first", () => {
+    expect(searchFoods(index, "kyll", "no").map(food => food.id)).toContain("chicken-breast");
+    expect(searchFoods(index, "melk", "no")[0].id).toBe("milk");
+    expect(searchFoods(index, "", "no")).toEqual([]);
+  });
+});
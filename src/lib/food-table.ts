@@ -0,0 +1,184 @@
+/**
+ * The food composition table behind the nutrition calculator: loading it from CSV and
+ * finding the food an ingredient is made of. The bundled table (src/data/food-composition.csv)
+ * covers common ingredients; NUTRITION_FOOD_TABLE points at a larger one with the same columns.
+ */
+
+import { readFileSync } from "fs";
+import path from "path";
+import type { FoodSummary, NutrientKey } from "@/types";
+
+export type FoodLanguage = keyof FoodSummary["names"];
+
+export interface Food extends FoodSummary {
+  aliases: string[];
+  per100g: Record<NutrientKey, number>;
+  density: number | null; // Grams per millilitre
+  unitWeight: number | null; // Grams per piece, clove, package or can
+}
+
+const NUTRIENT_COLUMNS: Record<NutrientKey, string> = {
+  calories: "kcal",
+  protein: "protein",
+  fat: "fat",
+  carbohydrates: "carbohydrates",
+  fiber: "fiber",
+  salt: "salt",
+};
+
+const DEFAULT_TABLE_PATH = path.join(process.cwd(), "src", "data", "food-composition.csv");
+
+// Splits one CSV line, allowing quoted fields with commas and doubled quotes in them.
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (quoted) {
+      if (char === '"' && line[index + 1] === '"') { field += '"'; index++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field.trim());
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+const optionalNumber = (value: string | undefined) => {
+  const number = parseFloat((value ?? "").replace(",", "."));
+  return Number.isFinite(number) && number > 0 ? number : null;
+};
+
+/** Reads a food table. Lines starting with "#" are comments; the first other line names the columns. */
+export function parseFoodTable(csv: string): Food[] {
+  const lines = csv.split(/\r?\n/).filter(line => line.trim() && !line.startsWith("#"));
+  const [header, ...rows] = lines.map(splitCsvLine);
+  if (!header) return [];
+  const column = (name: string) => header.indexOf(name);
+
+  return rows.flatMap(row => {
+    const value = (name: string) => row[column(name)] ?? "";
+    const id = value("id");
+    if (!id) return [];
+    const per100g = Object.fromEntries(
+      Object.entries(NUTRIENT_COLUMNS).map(([key, name]) => [key, optionalNumber(value(name)) ?? 0])
+    ) as Record<NutrientKey, number>;
+    return [{
+      id,
+      names: { no: value("name_no"), en: value("name_en"), es: value("name_es") },
+      aliases: value("aliases").split("|").map(alias => alias.trim()).filter(Boolean),
+      per100g,
+      density: optionalNumber(value("density")),
+      unitWeight: optionalNumber(value("unit_weight")),
+    }];
+  });
+}
+
+// Lowercase, without accents, brackets ("epler (gjerne gule)") or punctuation.
+export const normalizeFoodName = (name: string) =>
+  name
+    .toLowerCase()
+    .normalize("NFD").replace(/\p{M}/gu, "").normalize("NFC")
+    .replace(/\([^)]*\)/g, " ")
+    .split(/[^\p{L}]+/u)
+    .filter(Boolean);
+
+interface FoodTerm {
+  words: string[];
+  food: Food;
+  compoundHead: boolean; // Whether the term also matches the end of a word, see `termScore`
+}
+
+export interface FoodIndex {
+  foods: Food[];
+  byId: Map<string, Food>;
+  terms: FoodTerm[];
+}
+
+// Norwegian compounds end in the food they are made of ("hvetemel", "kremfløte"). Only the
+// Norwegian name and aliases, which may be Norwegian, are looked for there, and only when long
+// enough: short ones end too many unrelated words ("caramel" → "mel").
+const MIN_COMPOUND_HEAD_LENGTH = 4;
+
+export function buildFoodIndex(foods: Food[]): FoodIndex {
+  const terms = foods.flatMap(food => [
+    ...[food.names.no, ...food.aliases].map(name => ({ name, compoundHead: true })),
+    ...[food.names.en, food.names.es].map(name => ({ name, compoundHead: false })),
+  ].map(({ name, compoundHead }) => {
+    const words = normalizeFoodName(name);
+    return { words, food, compoundHead: compoundHead && words.length === 1 && words[0].length >= MIN_COMPOUND_HEAD_LENGTH };
+  })).filter(term => term.words.length > 0);
+  return { foods, byId: new Map(foods.map(food => [food.id, food])), terms };
+}
+
+// English plurals ("onions", "tomatoes") count as the word itself.
+const sameWord = (word: string, term: string) => word === term || word === `${term}s` || word === `${term}es`;
+
+// How well a term matches the ingredient's words: a longer match is a more specific food.
+// A compound head also matches the end of a word ("kremfløte" → "fløte").
+function termScore(words: string[], { words: term, compoundHead }: FoodTerm): number {
+  const length = term.join(" ").length;
+  if (term.length === 1) {
+    if (words.some(word => sameWord(word, term[0]))) return length * 2 + (words.length === 1 ? 1 : 0);
+    return compoundHead && words.some(word => word.endsWith(term[0])) ? length : 0;
+  }
+  for (let start = 0; start + term.length <= words.length; start++) {
+    if (term.every((part, offset) => sameWord(words[start + offset], part))) {
+      return length * 2 + (words.length === term.length ? 1 : 0);
+    }
+  }
+  return 0;
+}
+
+/** The food an ingredient name most likely refers to, or null when none fits. */
+export function matchFood(index: FoodIndex, ingredientName: string): Food | null {
+  const words = normalizeFoodName(ingredientName);
+  let best: Food | null = null;
+  let bestScore = 0;
+  for (const term of index.terms) {
+    const score = termScore(words, term);
+    if (score > bestScore) {
+      best = term.food;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/** Foods for the override picker: those matching the query best, then by name. */
+export function searchFoods(index: FoodIndex, query: string, language: FoodLanguage, limit = 20): Food[] {
+  const words = normalizeFoodName(query);
+  if (words.length === 0) return [];
+  const scores = new Map<Food, number>();
+  for (const term of index.terms) {
+    // Typing "kyll" should already find "kylling", so the last word may be unfinished.
+    const prefixMatch = term.words.some(word => word.startsWith(words[words.length - 1])) ? 1 : 0;
+    const score = Math.max(termScore(words, term), prefixMatch);
+    if (score > (scores.get(term.food) ?? 0)) scores.set(term.food, score);
+  }
+  return Array.from(scores)
+    .sort(([a, scoreA], [b, scoreB]) => scoreB - scoreA || a.names[language].localeCompare(b.names[language], language))
+    .slice(0, limit)
+    .map(([food]) => food);
+}
+
+let cachedIndex: FoodIndex | null = null;
+
+/** The configured food table, read once per server process. */
+export function loadFoodIndex(): FoodIndex {
+  if (!cachedIndex) {
+    const tablePath = process.env.NUTRITION_FOOD_TABLE || DEFAULT_TABLE_PATH;
+    cachedIndex = buildFoodIndex(parseFoodTable(readFileSync(tablePath, "utf8")));
+  }
+  return cachedIndex;
+}
+
+export const toFoodSummary = ({ id, names }: Food): FoodSummary => ({ id, names });
@@ -0,0 +1,77 @@
+export interface CalendarEvent {
+  uid: string;
+  start: Date; // Wall-clock time; written as a floating local time so it stays put across time zones
+  durationMinutes: number;
+  summary: string;
+  description?: string;
+  url?: string;
+  updatedAt: Date;
+  alarmMinutesBefore?: number | null; // Adds a display alarm this many minutes before the start
+  alarmText?: string;
+}
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const formatLocal = (date: Date) =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}T${pad(date.getHours())}${pad(date.getMinutes())}00`;
+
+const formatUtc = (date: Date) => date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// RFC 5545 limits lines to 75 octets; longer ones continue on lines starting with a space.
+const foldLine = (line: string) => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (encoder.encode(current + char).length > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+};
+
+/** Serializes events into an iCalendar (.ics) document. */
+export function buildCalendar(name: string, events: CalendarEvent[]): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Oppskrift//Meal Plan//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  events.forEach(event => {
+    const end = new Date(event.start.getTime() + event.durationMinutes * 60000);
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${formatUtc(event.updatedAt)}`,
+      `DTSTART:${formatLocal(event.start)}`,
+      `DTEND:${formatLocal(end)}`,
+      `SUMMARY:${escapeText(event.summary)}`,
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    if (event.alarmMinutesBefore) {
+      lines.push(
+        "BEGIN:VALARM",
+        "ACTION:DISPLAY",
+        `DESCRIPTION:${escapeText(event.alarmText ?? event.summary)}`,
+        `TRIGGER:-PT${event.alarmMinutesBefore}M`,
+        "END:VALARM",
+      );
+    }
+    lines.push("END:VEVENT");
+  });
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { parseIngredientLine, parseIngredientText } from "@/lib/ingredient-line";
+
+describe("parseIngredientLine", () => {
+  it("splits quantity, known unit and name in each language", () => {
+    expect(parseIngredientLine("250 g hvetemel")).toEqual({ quantity: "250", unit: "g", name: "hvetemel" });
+    expect(parseIngredientLine("1 1/2 cups of milk")).toEqual({ quantity: "1 1/2", unit: "cups", name: "milk" });
+    expect(parseIngredientLine("2 tazas de harina")).toEqual({ quantity: "2", unit: "tazas", name: "harina" });
+    expect(parseIngredientLine("2–3 fedd hvitløk")).toEqual({ quantity: "2–3", unit: "fedd", name: "hvitløk" });
+    expect(parseIngredientLine("- 200g smør")).toEqual({ quantity: "200", unit: "g", name: "smør" });
+  });
+
+  it("keeps unknown units in the name and lines without an amount whole", () => {
+    expect(parseIngredientLine("3 store egg")).toEqual({ quantity: "3", unit: "", name: "store egg" });
+    expect(parseIngredientLine("salt og pepper")).toEqual({ quantity: "", unit: "", name: "salt og pepper" });
+    expect(parseIngredientLine("2 dl")).toEqual({ quantity: "2", unit: "", name: "dl" });
+  });
+});
+
+describe("parseIngredientText", () => {
+  it("starts a group at each heading", () => {
+    expect(parseIngredientText("2 egg\n\n# Saus\n1 dl fløte\n**Topping**\nnøtter").map(group => [group.name, group.ingredients.length])).toEqual([
+      ["", 1],
+      ["Saus", 1],
+      ["Topping", 1],
+    ]);
+  });
+});
@@ -0,0 +1,86 @@
+import { parseQuantity } from "@/lib/quantity";
+import { findUnit } from "@/lib/units";
+
+export interface ParsedIngredientLine {
+  name: string;
+  quantity: string;
+  unit: string;
+}
+
+// Longest quantity we look for at the start of a line, in words ("1 1/2", "ca. 2-3", "to og en halv").
+const MAX_QUANTITY_WORDS = 4;
+
+// Joining words between a unit and the ingredient: "1 cup of flour", "2 tazas de harina".
+const UNIT_JOINERS = new Set(["of", "av", "de"]);
+
+/**
+ * Splits a free-text ingredient line such as "250 g hvetemel", "1 1/2 cups of milk" or
+ * "2–3 fedd hvitløk" into quantity, unit and name. Units are only split off when they are
+ * known to the units module; lines without a leading amount come back as a name only.
+ */
+export function parseIngredientLine(line: string): ParsedIngredientLine {
+  const text = line
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/^[-•*]\s*/, "") // List bullets
+    .replace(/^([\d½¼¾⅓⅔⅛]+(?:[.,/]\d+)?)(?=[a-zA-Zæøåé])/, "$1 "); // "200g" → "200 g"
+  const words = text.split(" ");
+
+  let quantityWords = 0;
+  for (let count = Math.min(MAX_QUANTITY_WORDS, words.length - 1); count > 0; count--) {
+    const kind = parseQuantity(words.slice(0, count).join(" ")).kind;
+    if (kind === "number" || kind === "range") {
+      quantityWords = count;
+      break;
+    }
+  }
+  if (quantityWords === 0) {
+    return { name: text, quantity: "", unit: "" };
+  }
+
+  const quantity = words.slice(0, quantityWords).join(" ");
+  let rest = words.slice(quantityWords);
+  let unit = "";
+  for (const unitWords of [2, 1]) {
+    if (rest.length > unitWords && findUnit(rest.slice(0, unitWords).join(" "))) {
+      unit = rest.slice(0, unitWords).join(" ");
+      rest = rest.slice(unitWords);
+      if (rest.length > 1 && UNIT_JOINERS.has(rest[0].toLowerCase())) rest = rest.slice(1);
+      break;
+    }
+  }
+
+  return { name: rest.join(" "), quantity, unit };
+}
+
+export interface ParsedIngredientGroup {
+  name: string;
+  ingredients: ParsedIngredientLine[];
+}
+
+// "For the sauce:", "# Sauce" or "**Sauce**" on a line of its own starts a new group.
+const GROUP_HEADING_PATTERN = /^(?:#+\s*(.+)|\*\*(.+)\*\*|([^:]+):)$/;
+
+/**
+ * Splits an ingredient list written as text, one ingredient per line, into groups and
+ * parsed lines. Lines that look like headings start a new named group; ingredients
+ * before the first heading go into an unnamed group.
+ */
+export function parseIngredientText(text: string): ParsedIngredientGroup[] {
+  const groups: ParsedIngredientGroup[] = [];
+  let current: ParsedIngredientGroup | null = null;
+  text.split(/\r?\n/).map(line => line.trim()).filter(Boolean).forEach(line => {
+    const heading = line.match(GROUP_HEADING_PATTERN);
+    if (heading) {
+      current = { name: (heading[1] ?? heading[2] ?? heading[3]).trim(), ingredients: [] };
+      groups.push(current);
+      return;
+    }
+    if (!current) {
+      current = { name: "", ingredients: [] };
+      groups.push(current);
+    }
+    current.ingredients.push(parseIngredientLine(line));
+  });
+  return groups.filter(group => group.ingredients.length > 0);
+}
@@ -0,0 +1,63 @@
+import type { MealSlot } from "@/types";
+
+export const MEAL_SLOTS: MealSlot[] = ["breakfast", "lunch", "dinner"];
+
+export const DAYS_IN_WEEK = 7;
+
+// Time of day each slot is shown at in the calendar feed (24-hour clock).
+export const MEAL_SLOT_HOURS: Record<MealSlot, number> = { breakfast: 8, lunch: 12, dinner: 18 };
+
+export const mealPlanEntrySelect = {
+  id: true,
+  day: true,
+  slot: true,
+  servings: true,
+  position: true,
+  recipe: {
+    select: { id: true, title: true, imageUrl: true, servingsValue: true, servingsUnit: true },
+  },
+} as const;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const toDateString = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Week starts are plain calendar dates; parsing them at local midnight keeps day arithmetic off UTC.
+export const parseDateString = (value: string) => {
+  const [year, month, day] = value.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export function isMealSlot(value: unknown): value is MealSlot {
+  return typeof value === "string" && (MEAL_SLOTS as string[]).includes(value);
+}
+
+/** True for a YYYY-MM-DD string that falls on a Monday. */
+export function isWeekStart(value: unknown): value is string {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = parseDateString(value);
+  return toDateString(date) === value && date.getDay() === 1;
+}
+
+/** Returns the Monday of the week containing `date`, as YYYY-MM-DD. */
+export function getWeekStart(date: Date = new Date()): string {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  return toDateString(monday);
+}
+
+/** Moves a week start forwards (positive) or backwards (negative) by whole weeks. */
+export function shiftWeek(weekStart: string, weeks: number): string {
+  const date = parseDateString(weekStart);
+  date.setDate(date.getDate() + weeks * DAYS_IN_WEEK);
+  return toDateString(date);
+}
+
+/** The seven dates of the week, Monday first. */
+export function getWeekDates(weekStart: string): Date[] {
+  return Array.from({ length: DAYS_IN_WEEK }, (_, day) => {
+    const date = parseDateString(weekStart);
+    date.setDate(date.getDate() + day);
+    return date;
+  });
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { buildFoodIndex, parseFoodTable } from "@/lib/food-table";
+import { calculateNutrition, ingredientGrams } from "@/lib/nutrition-calculator";
+
+const index = buildFoodIndex(parseFoodTable(`id,name_no,name_en,name_es,aliases,kcal,protein,fat,carbohydrates,fiber,salt,density,unit_weight
+wheat-flour,Hvetemel,Wheat flour,Harina de trigo,mel|flour,340,10,1,70,4,0,0.6,
+milk,Melk,Milk,Leche,lettmelk,60,3.5,3.5,4.5,0,0.1,1,
+egg,Egg,Egg,Huevo,eggs,140,12.5,10,0.5,0,0.4,,60
+salt,Salt,Salt,Sal,,0,0,0,0,0,100,1.2,
+`));
+const food = (id: string) => index.byId.get(id)!;
+
+describe("ingredientGrams", () => {
+  it("converts weights, volumes through the density and pieces through the unit weight", () => {
+    expect(ingredientGrams("250", "g", food("wheat-flour"))).toBe(250);
+    expect(ingredientGrams("1", "kg", food("wheat-flour"))).toBe(1000);
+    expect(ingredientGrams("3", "dl", food("wheat-flour"))).toBeCloseTo(180);
+    expect(ingredientGrams("2–4", "", food("egg"))).toBe(180); // The middle of a range
+    expect(ingredientGrams("1 1/2", "stk", food("egg"))).toBe(90);
+    expect(ingredientGrams("2", "klyper", food("salt"))).toBe(1);
+  });
+
+  it("gives up when the amount, the unit or the food's weight is unknown", () => {
+    expect(ingredientGrams("etter smak", "", food("salt"))).toBeNull();
+    expect(ingredientGrams("2", "neve", food("wheat-flour"))).toBeNull();
+    expect(ingredientGrams("2", "", food("wheat-flour"))).toBeNull(); // No unit weight
+    expect(ingredientGrams("1", "dl", food("egg"))).toBeNull(); // No density
+  });
+});
+
+describe("calculateNutrition", () => {
+  it("adds up matched ingredients per serving and lists the rest with the reason", () => {
+    const result = calculateNutrition(index, [
+      {
+        ingredients: [
+          { id: "1", name: "hvetemel", quantity: "3", unit: "dl" },
+          { id: "2", name: "lettmelk", quantity: "6", unit: "dl" },
+          { id: "3", name: "egg", quantity: "3", unit: "" },
+          { id: "4", name: "salt", quantity: "en", unit: "klype" },
+        ],
+      },
+      {
+        ingredients: [
+          { id: "5", name: "karamellsaus", quantity: "1", unit: "dl" },
+          { id: "6", name: "caramel sauce", quantity: "1", unit: "dl" },
+          { id: "7", name: "melk", quantity: "", unit: "" },
+          { id: "8", name: "mel", quantity: "2", unit: "neve" },
+          { id: "9", name: "kefir", quantity: "1", unit: "dl", foodId: "milk" },
+        ],
+      },
+    ], 4);
+
+    expect(result.matched.map(({ ingredientId, food, grams, chosen }) => [ingredientId, food.id, Math.round(grams), chosen])).toEqual([
+      ["1", "wheat-flour", 180, false],
+      ["2", "milk", 600, false],
+      ["3", "egg", 180, false],
+      ["4", "salt", 1, false],
+      ["9", "milk", 100, true],
+    ]);
+    expect(result.unmatched.map(({ ingredientId, reason, food }) => [ingredientId, reason, food?.id])).toEqual([
+      ["5", "no_food", undefined],
+      ["6", "no_food", undefined],
+      ["7", "no_amount", "milk"],
+      ["8", "unknown_unit", "wheat-flour"],
+    ]);
+    // (180 g × 340 + 700 g × 60 + 180 g × 140) / 100 kcal, over 4 servings
+    expect(result.perServing.calories).toBeCloseTo(321);
+    expect(result.perServing.protein).toBeCloseTo((18 + 24.5 + 22.5) / 4);
+    expect(result.perServing.salt).toBeCloseTo((0.5 + 0.7 + 0.72) / 4);
+  });
+
+  it("counts a recipe without servings as one", () => {
+    const result = calculateNutrition(index, [{ ingredients: [{ name: "mel", quantity: "100", unit: "g" }] }], 0);
+    expect(result.perServing.calories).toBe(340);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Calculates a recipe's nutrition from the food composition table: each ingredient is
+ * matched to a food (or the food picked for it by hand), its amount converted to grams,
+ * and the totals divided by the number of servings. Ingredients that can't be counted are
+ * listed with the reason, so the result is never silently incomplete.
+ */
+
+import { parseQuantity } from "@/lib/quantity";
+import { findUnit } from "@/lib/units";
+import { matchFood, toFoodSummary, type Food, type FoodIndex } from "@/lib/food-table";
+import type { CalculatedNutrition, NutrientKey, UnmatchedIngredientReason } from "@/types";
+
+const NUTRIENT_KEYS: NutrientKey[] = ["calories", "protein", "fat", "carbohydrates", "fiber", "salt"];
+const PINCH_GRAMS = 0.5;
+
+interface CalculatorIngredient {
+  id?: string;
+  name: string;
+  quantity: string;
+  unit: string;
+  foodId?: string | null;
+}
+
+/** Grams of a food in an amount such as "2 dl", "3" or "1 boks"; null when it can't be known. */
+export function ingredientGrams(quantity: string, unit: string, food: Food): number | null {
+  const parsed = parseQuantity(quantity);
+  const amount = parsed.kind === "number" ? parsed.value : parsed.kind === "range" ? (parsed.min + parsed.max) / 2 : null;
+  if (amount === null) return null;
+
+  if (!unit.trim()) return food.unitWeight === null ? null : amount * food.unitWeight;
+  const definition = findUnit(unit);
+  if (!definition) return null;
+  switch (definition.kind) {
+    case "weight":
+      return amount * definition.factor;
+    case "volume":
+      return food.density === null ? null : amount * definition.factor * food.density;
+    case "count":
+      if (definition.id === "pinch") return amount * PINCH_GRAMS;
+      // A bunch of herbs and a can of tomatoes both weigh what the table says one unit weighs.
+      return food.unitWeight === null ? null : amount * food.unitWeight;
+  }
+}
+
+export function calculateNutrition(
+  index: FoodIndex,
+  ingredientGroups: { ingredients: CalculatorIngredient[] }[],
+  servingsValue: number
+): CalculatedNutrition {
+  const totals = Object.fromEntries(NUTRIENT_KEYS.map(key => [key, 0])) as Record<NutrientKey, number>;
+  const result: CalculatedNutrition = { perServing: totals, matched: [], unmatched: [] };
+
+  for (const ingredient of ingredientGroups.flatMap(group => group.ingredients)) {
+    const chosenFood = ingredient.foodId ? index.byId.get(ingredient.foodId) : undefined;
+    const food = chosenFood ?? matchFood(index, ingredient.name);
+    const unmatched = (reason: UnmatchedIngredientReason) =>
+      result.unmatched.push({ ingredientId: ingredient.id, name: ingredient.name, reason, food: food ? toFoodSummary(food) : undefined });
+    if (!food) {
+      unmatched("no_food");
+      continue;
+    }
+    if (["text", "empty"].includes(parseQuantity(ingredient.quantity).kind)) {
+      unmatched("no_amount");
+      continue;
+    }
+    const grams = ingredientGrams(ingredient.quantity, ingredient.unit, food);
+    if (grams === null) {
+      unmatched("unknown_unit");
+      continue;
+    }
+    NUTRIENT_KEYS.forEach(key => { totals[key] += (food.per100g[key] * grams) / 100; });
+    result.matched.push({ ingredientId: ingredient.id, name: ingredient.name, food: toFoodSummary(food), grams, chosen: !!chosenFood });
+  }
+
+  const servings = servingsValue > 0 ? servingsValue : 1;
+  NUTRIENT_KEYS.forEach(key => { totals[key] /= servings; });
+  return result;
+}
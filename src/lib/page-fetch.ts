@@ -0,0 +1,202 @@
+/**
+ * Fetches a web page on the server for recipe import. Because the URL comes from the user,
+ * the request is fenced in:
+ *
+ *   - only http and https, on any port, without credentials in the URL
+ *   - every address the host name resolves to, including after each redirect, must be a
+ *     public one; loopback, private, link-local and other reserved ranges are refused. The
+ *     check runs when the connection is made, so a host can't resolve differently later.
+ *   - at most MAX_REDIRECTS redirects, TIMEOUT_MS for the whole exchange and MAX_BYTES of
+ *     (decompressed) body
+ *   - only HTML responses are read
+ */
+
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import zlib from "zlib";
+import type { Readable } from "stream";
+
+const MAX_REDIRECTS = 5;
+const TIMEOUT_MS = 10_000;
+const MAX_BYTES = 3 * 1024 * 1024;
+const HTML_CONTENT_TYPES = ["text/html", "application/xhtml+xml"];
+const USER_AGENT = "Mozilla/5.0 (compatible; RecipeImport/1.0)";
+
+export type PageFetchErrorCode =
+  | "invalid_url"
+  | "blocked_address"
+  | "timeout"
+  | "too_large"
+  | "too_many_redirects"
+  | "unsupported_content_type"
+  | "http_error"
+  | "network_error";
+
+/** A page that couldn't be fetched; `code` is also the suffix of the error's translation key. */
+export class PageFetchError extends Error {
+  constructor(public readonly code: PageFetchErrorCode, message: string) {
+    super(message);
+    this.name = "PageFetchError";
+  }
+}
+
+export interface FetchedPage {
+  url: string; // After redirects
+  html: string;
+}
+
+export interface PageFetchOptions {
+  allowPrivateAddresses?: boolean; // For fetching from a local test server
+  timeoutMs?: number;
+  maxBytes?: number;
+}
+
+// Kept apart because an IPv6 list would also match every IPv4 address through the mapped range.
+const BLOCKED_IPV4 = new net.BlockList();
+const BLOCKED_IPV6 = new net.BlockList();
+[
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.0.2.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15],
+  ["198.51.100.0", 24], ["203.0.113.0", 24], ["224.0.0.0", 4], ["240.0.0.0", 4],
+].forEach(([network, prefix]) => BLOCKED_IPV4.addSubnet(network as string, prefix as number, "ipv4"));
+[
+  // IPv4-mapped and NAT64 addresses are refused outright rather than unwrapped.
+  ["::", 128], ["::1", 128], ["::ffff:0:0", 96], ["64:ff9b::", 96], ["100::", 64], ["2001:db8::", 32],
+  ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+].forEach(([network, prefix]) => BLOCKED_IPV6.addSubnet(network as string, prefix as number, "ipv6"));
+
+/** True for addresses a public web page can't live at. */
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return family === 4 ? BLOCKED_IPV4.check(address, "ipv4") : BLOCKED_IPV6.check(address, "ipv6");
+}
+
+// Resolves like the default lookup, but fails when any address the name points to is private.
+const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "", 4);
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      return callback(new PageFetchError("blocked_address", `${hostname} resolves to an address that is not public.`), "", 4);
+    }
+    if (options.all) return (callback as unknown as (error: null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+function parseUrl(value: string, options: PageFetchOptions): URL {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    throw new PageFetchError("invalid_url", "Not a valid URL.");
+  }
+  if (!["http:", "https:"].includes(url.protocol) || url.username || url.password) {
+    throw new PageFetchError("invalid_url", "Only plain http and https URLs can be imported.");
+  }
+  // Literal IP addresses never reach the lookup, so they are checked here.
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  if (!options.allowPrivateAddresses && (net.isIP(host) ? isPrivateAddress(host) : host === "localhost" || host.endsWith(".localhost"))) {
+    throw new PageFetchError("blocked_address", `${host} is not a public address.`);
+  }
+  return url;
+}
+
+function decompress(response: http.IncomingMessage): Readable {
+  switch (response.headers["content-encoding"]?.trim().toLowerCase()) {
+    case "gzip": return response.pipe(zlib.createGunzip());
+    case "deflate": return response.pipe(zlib.createInflate());
+    case "br": return response.pipe(zlib.createBrotliDecompress());
+    default: return response;
+  }
+}
+
+function charset(contentType: string): string {
+  const label = contentType.match(/charset=["']?([\w-]+)/i)?.[1] ?? "utf-8";
+  try {
+    return new TextDecoder(label).encoding;
+  } catch {
+    return "utf-8";
+  }
+}
+
+/** Makes one request; resolves with the response, or with the redirect target. */
+function request(url: URL, options: PageFetchOptions, signal: AbortSignal): Promise<{ redirect: string } | { page: FetchedPage }> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === "https:" ? https : http;
+    const req = client.get(url, {
+      signal,
+      lookup: options.allowPrivateAddresses ? undefined : publicOnlyLookup,
+      headers: {
+        "User-Agent": USER_AGENT,
+        Accept: "text/html,application/xhtml+xml;q=0.9,*/*;q=0.1",
+        "Accept-Encoding": "gzip, deflate, br",
+      },
+    }, response => {
+      const status = response.statusCode ?? 0;
+      if (status >= 300 && status < 400 && response.headers.location) {
+        response.resume();
+        return resolve({ redirect: new URL(response.headers.location, url).toString() });
+      }
+      if (status < 200 || status >= 300) {
+        response.resume();
+        return reject(new PageFetchError("http_error", `The page answered with HTTP ${status}.`));
+      }
+      const contentType = response.headers["content-type"] ?? "";
+      if (!HTML_CONTENT_TYPES.some(type => contentType.toLowerCase().startsWith(type))) {
+        response.resume();
+        return reject(new PageFetchError("unsupported_content_type", `Expected an HTML page, got ${contentType || "no content type"}.`));
+      }
+      const maxBytes = options.maxBytes ?? MAX_BYTES;
+      if (Number(response.headers["content-length"]) > maxBytes) {
+        response.destroy();
+        return reject(new PageFetchError("too_large", "The page is too large to import."));
+      }
+
+      const body = decompress(response);
+      const chunks: Buffer[] = [];
+      let size = 0;
+      body.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBytes) {
+          response.destroy();
+          body.destroy();
+          reject(new PageFetchError("too_large", "The page is too large to import."));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      body.on("end", () => {
+        const html = new TextDecoder(charset(contentType)).decode(Buffer.concat(chunks));
+        resolve({ page: { url: url.toString(), html } });
+      });
+      body.on("error", error => reject(error));
+    });
+    req.on("error", reject);
+  });
+}
+
+/** Fetches an HTML page, following redirects, within the limits described above. */
+export async function fetchPage(value: string, options: PageFetchOptions = {}): Promise<FetchedPage> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? TIMEOUT_MS);
+  try {
+    let url = parseUrl(value, options);
+    for (let redirects = 0; ; redirects++) {
+      const result = await request(url, options, controller.signal);
+      if ("page" in result) return result.page;
+      if (redirects >= MAX_REDIRECTS) {
+        throw new PageFetchError("too_many_redirects", "The page redirected too many times.");
+      }
+      url = parseUrl(result.redirect, options);
+    }
+  } catch (error) {
+    if (error instanceof PageFetchError) throw error;
+    if (controller.signal.aborted) throw new PageFetchError("timeout", "The page took too long to load.");
+    throw new PageFetchError("network_error", error instanceof Error ? error.message : String(error));
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * A generated recipe picture for when no photo is available: a plate with cutlery on a
+ * background in the colours of the recipe's first category, with the title underneath.
+ * The same title and category always give the same picture, and nothing is fetched, so it
+ * works offline. Returned as an SVG data URI that fits the 16:9 image slot.
+ */
+
+const WIDTH = 800;
+const HEIGHT = 450;
+const MAX_TITLE_LINE = 28;
+
+// Warm kitchen hues; a category keeps its hue so recipes in it look related.
+const HUES = [8, 24, 38, 52, 88, 140, 168, 196, 262, 330];
+
+// FNV-1a, so the choice of colours is stable across runs and platforms.
+function hash(text: string): number {
+  let value = 0x811c9dc5;
+  for (const char of text.toLowerCase()) {
+    value ^= char.codePointAt(0)!;
+    value = Math.imul(value, 0x01000193) >>> 0;
+  }
+  return value;
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Breaks the title into at most two lines, shortening the second when needed.
+function titleLines(title: string): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of title.trim().split(/\s+/)) {
+    if (line && (line + " " + word).length > MAX_TITLE_LINE) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  if (lines.length <= 2) return lines;
+  const second = lines.slice(1).join(" ");
+  return [lines[0], `${second.slice(0, MAX_TITLE_LINE - 1).trimEnd()}…`];
+}
+
+/** The placeholder as an SVG document. */
+export function placeholderSvg(title: string, category?: string): string {
+  const hue = HUES[hash(category?.trim() || title) % HUES.length];
+  const accentHue = (hue + 30) % 360;
+  const seed = hash(title);
+  // A few dots scattered over the background, placed by the title so each recipe differs.
+  const dots = Array.from({ length: 14 }, (_, index) => {
+    const value = hash(`${title}:${index}`);
+    const x = value % WIDTH;
+    const y = (value >>> 10) % HEIGHT;
+    const radius = 6 + ((value >>> 20) % 18);
+    return `<circle cx="${x}" cy="${y}" r="${radius}" fill="hsl(${accentHue} 70% 85%)" opacity="0.35"/>`;
+  }).join("");
+  const lines = titleLines(title);
+  const text = lines
+    .map((line, index) => `<text x="400" y="${lines.length === 1 ? 390 : 372 + index * 38}" text-anchor="middle" font-family="Georgia, 'Times New Roman', serif" font-size="32" fill="hsl(${hue} 45% 20%)">${escapeXml(line)}</text>`)
+    .join("");
+  const plateY = 185;
+  const tilt = (seed % 21) - 10; // The cutlery lies a little differently on each plate
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${WIDTH}" height="${HEIGHT}" viewBox="0 0 ${WIDTH} ${HEIGHT}">
+<defs><linearGradient id="bg" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="hsl(${hue} 65% 88%)"/><stop offset="1" stop-color="hsl(${accentHue} 60% 76%)"/></linearGradient></defs>
+<rect width="${WIDTH}" height="${HEIGHT}" fill="url(#bg)"/>
+${dots}
+<g transform="rotate(${tilt} 400 ${plateY})">
+<circle cx="400" cy="${plateY}" r="118" fill="#fff" opacity="0.95"/>
+<circle cx="400" cy="${plateY}" r="86" fill="none" stroke="hsl(${hue} 40% 80%)" stroke-width="4"/>
+<circle cx="400" cy="${plateY}" r="54" fill="hsl(${hue} 70% 62%)" opacity="0.85"/>
+<g fill="hsl(${hue} 20% 40%)">
+<rect x="242" y="${plateY - 85}" width="8" height="170" rx="4"/>
+<rect x="230" y="${plateY - 85}" width="4" height="45" rx="2"/><rect x="258" y="${plateY - 85}" width="4" height="45" rx="2"/>
+<path d="M548 ${plateY - 85} q22 40 0 90 v80 h-8 v-170 z"/>
+</g>
+</g>
+${text}
+</svg>`;
+}
+
+/** The placeholder as a data URI, ready to store as a recipe's image. */
+export const placeholderImageUri = (title: string, category?: string) =>
+  `data:image/svg+xml;base64,${Buffer.from(placeholderSvg(title, category)).toString("base64")}`;
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "vitest";
+import { addQuantities, formatQuantity, parseQuantity, scaleQuantity } from "@/lib/quantity";
+
+describe("parseQuantity", () => {
+  it("reads whole numbers and decimals with a point or a comma", () => {
+    expect(parseQuantity("250")).toEqual({ kind: "number", value: 250 });
+    expect(parseQuantity("2.5")).toEqual({ kind: "number", value: 2.5 });
+    expect(parseQuantity("2,5")).toEqual({ kind: "number", value: 2.5 });
+    expect(parseQuantity(",5")).toEqual({ kind: "number", value: 0.5 });
+  });
+
+  it("reads simple and mixed fractions", () => {
+    expect(parseQuantity("3/4")).toEqual({ kind: "number", value: 0.75 });
+    expect(parseQuantity("1 1/4")).toEqual({ kind: "number", value: 1.25 });
+    expect(parseQuantity("2 ⁄ 3")).toEqual({ kind: "number", value: 2 / 3 });
+  });
+
+  it("reads unicode fractions on their own and after a whole number", () => {
+    expect(parseQuantity("½")).toEqual({ kind: "number", value: 0.5 });
+    expect(parseQuantity("1½")).toEqual({ kind: "number", value: 1.5 });
+    expect(parseQuantity("2 ¾")).toEqual({ kind: "number", value: 2.75 });
+  });
+
+  it("reads ranges with dashes and words in each language", () => {
+    expect(parseQuantity("4-5")).toEqual({ kind: "range", min: 4, max: 5 });
+    expect(parseQuantity("4–5")).toEqual({ kind: "range", min: 4, max: 5 });
+    expect(parseQuantity("2 to 3")).toEqual({ kind: "range", min: 2, max: 3 });
+    expect(parseQuantity("2 til 3")).toEqual({ kind: "range", min: 2, max: 3 });
+    expect(parseQuantity("2 a 3")).toEqual({ kind: "range", min: 2, max: 3 });
+    expect(parseQuantity("1½–2")).toEqual({ kind: "range", min: 1.5, max: 2 });
+  });
+
+  it("keeps approximate prefixes", () => {
+    expect(parseQuantity("ca. 200")).toEqual({ kind: "number", value: 200, prefix: "ca. " });
+    expect(parseQuantity("about 2-3")).toEqual({ kind: "range", min: 2, max: 3, prefix: "about " });
+    expect(parseQuantity("aprox. 1,5")).toEqual({ kind: "number", value: 1.5, prefix: "aprox. " });
+  });
+
+  it("reads spelled-out amounts in Norwegian, English and Spanish", () => {
+    expect(parseQuantity("tre")).toEqual({ kind: "number", value: 3 });
+    expect(parseQuantity("en halv")).toEqual({ kind: "number", value: 0.5 });
+    expect(parseQuantity("halvannen")).toEqual({ kind: "number", value: 1.5 });
+    expect(parseQuantity("to og en halv")).toEqual({ kind: "number", value: 2.5 });
+    expect(parseQuantity("a half")).toEqual({ kind: "number", value: 0.5 });
+    expect(parseQuantity("one and a half")).toEqual({ kind: "number", value: 1.5 });
+    expect(parseQuantity("dos")).toEqual({ kind: "number", value: 2 });
+    expect(parseQuantity("media")).toEqual({ kind: "number", value: 0.5 });
+    expect(parseQuantity("una media")).toEqual({ kind: "number", value: 0.5 });
+    expect(parseQuantity("docena")).toEqual({ kind: "number", value: 12 });
+  });
+
+  it("leaves amounts it can't do arithmetic on as text", () => {
+    expect(parseQuantity("en klype")).toEqual({ kind: "text", text: "en klype" });
+    expect(parseQuantity("a pinch")).toEqual({ kind: "text", text: "a pinch" });
+    expect(parseQuantity("una pizca")).toEqual({ kind: "text", text: "una pizca" });
+    expect(parseQuantity("etter smak")).toEqual({ kind: "text", text: "etter smak" });
+  });
+
+  it("treats missing amounts as empty", () => {
+    expect(parseQuantity("")).toEqual({ kind: "empty" });
+    expect(parseQuantity("  ")).toEqual({ kind: "empty" });
+    expect(parseQuantity(null)).toEqual({ kind: "empty" });
+  });
+});
+
+describe("formatQuantity", () => {
+  it("rounds small amounts to kitchen fractions", () => {
+    expect(formatQuantity(0.5)).toBe("½");
+    expect(formatQuantity(1 / 3)).toBe("⅓");
+    expect(formatQuantity(1.25)).toBe("1¼");
+    expect(formatQuantity(0.3)).toBe("⅓");
+    expect(formatQuantity(0.7)).toBe("⅔");
+    expect(formatQuantity(2.9)).toBe("3");
+    expect(formatQuantity(0.13)).toBe("⅛");
+  });
+
+  it("never rounds a small amount down to zero", () => {
+    expect(formatQuantity(0.0625)).toBe("0.063");
+    expect(formatQuantity(0.05)).toBe("0.05");
+    expect(formatQuantity(0.1, { language: "no" })).toBe("0,1");
+    expect(formatQuantity(0.01)).toBe("0.01");
+  });
+
+  it("uses the language's decimal separator when fractions are off", () => {
+    expect(formatQuantity(2.5, { fractions: false })).toBe("2.5");
+    expect(formatQuantity(2.5, { language: "no", fractions: false })).toBe("2,5");
+    expect(formatQuantity(0.75, { language: "es", fractions: false })).toBe("0,75");
+  });
+
+  it("rounds large amounts to whole numbers and to fives", () => {
+    expect(formatQuantity(12.4)).toBe("12");
+    expect(formatQuantity(333.3)).toBe("335");
+  });
+});
+
+describe("scaleQuantity", () => {
+  it("scales numbers, fractions and ranges", () => {
+    expect(scaleQuantity("1 1/4", 2)).toBe("2½");
+    expect(scaleQuantity("½", 3)).toBe("1½");
+    expect(scaleQuantity("4–5", 2)).toBe("8–10");
+    expect(scaleQuantity("ca. 200", 1.5)).toBe("ca. 300");
+    expect(scaleQuantity("2,5", 0.5, { language: "no" })).toBe("1¼");
+    expect(scaleQuantity("½", 0.125)).toBe("0.063");
+    expect(scaleQuantity("¼", 0.25, { language: "es" })).toBe("0,063");
+  });
+
+  it("returns non-numeric amounts and a factor of 1 as written", () => {
+    expect(scaleQuantity("en klype", 2)).toBe("en klype");
+    expect(scaleQuantity("a pinch", 3)).toBe("a pinch");
+    expect(scaleQuantity("una pizca", 0.5)).toBe("una pizca");
+    expect(scaleQuantity("2,50", 1)).toBe("2,50");
+  });
+});
+
+describe("addQuantities", () => {
+  it("adds numbers and ranges", () => {
+    expect(addQuantities("1½", "½")).toBe("2");
+    expect(addQuantities("2", "1-2")).toBe("3–4");
+  });
+
+  it("refuses to add amounts that aren't numeric", () => {
+    expect(addQuantities("1", "en klype")).toBeNull();
+    expect(addQuantities("", "")).toBe("");
+  });
+});
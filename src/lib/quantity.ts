@@ -0,0 +1,202 @@
+/**
+ * Parsing, scaling and formatting of free-text ingredient quantities such as
+ * "1 1/4", "1½", "0,5", "4–5", "ca. 200" or "en klype".
+ */
+
+export type ParsedQuantity =
+  | { kind: "number"; value: number; prefix?: string }
+  | { kind: "range"; min: number; max: number; prefix?: string }
+  | { kind: "text"; text: string } // Amounts we can't do arithmetic on, e.g. "en klype" or "etter smak"
+  | { kind: "empty" };
+
+export interface FormatQuantityOptions {
+  language?: string; // Decides the decimal separator; English uses a point, Norwegian and Spanish a comma
+  fractions?: boolean; // Round small amounts to common kitchen fractions (default true)
+}
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  "½": 1 / 2,
+  "⅓": 1 / 3,
+  "⅔": 2 / 3,
+  "¼": 1 / 4,
+  "¾": 3 / 4,
+  "⅕": 1 / 5,
+  "⅖": 2 / 5,
+  "⅗": 3 / 5,
+  "⅘": 4 / 5,
+  "⅙": 1 / 6,
+  "⅚": 5 / 6,
+  "⅛": 1 / 8,
+  "⅜": 3 / 8,
+  "⅝": 5 / 8,
+  "⅞": 7 / 8,
+};
+
+// Fractions a cook can actually measure, used when rounding for display.
+const KITCHEN_FRACTIONS: { value: number; glyph: string }[] = [
+  { value: 0, glyph: "" },
+  { value: 1 / 8, glyph: "⅛" },
+  { value: 1 / 4, glyph: "¼" },
+  { value: 1 / 3, glyph: "⅓" },
+  { value: 1 / 2, glyph: "½" },
+  { value: 2 / 3, glyph: "⅔" },
+  { value: 3 / 4, glyph: "¾" },
+  { value: 1, glyph: "" },
+];
+
+// Spelled-out amounts in English, Norwegian and Spanish.
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+  half: 1 / 2, quarter: 1 / 4, dozen: 12,
+  en: 1, ett: 1, ei: 1, to: 2, tre: 3, fire: 4, fem: 5, seks: 6, sju: 7, syv: 7, åtte: 8, ni: 9, ti: 10, elleve: 11, tolv: 12,
+  halv: 1 / 2, halvt: 1 / 2, halve: 1 / 2, kvart: 1 / 4, dusin: 12,
+  un: 1, uno: 1, una: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5, seis: 6, siete: 7, ocho: 8, nueve: 9, diez: 10, once: 11, doce: 12,
+  medio: 1 / 2, media: 1 / 2, cuarto: 1 / 4, docena: 12,
+};
+
+const APPROXIMATE_PREFIX = /^(ca\.?|circa|cirka|omtrent|about|approx\.?|approximately|around|aprox\.?|aproximadamente|unos|unas|~)\s*/i;
+const RANGE_SEPARATOR = /\s*(?:[-–—]|\bto\b|\btil\b|\ba\b|\bor\b|\beller\b|\bo\b)\s*/i;
+const FRACTION_GLYPHS = Object.keys(UNICODE_FRACTIONS).join("");
+
+const NUMBER_PATTERN = new RegExp(
+  `^(?:(\\d+)\\s*([${FRACTION_GLYPHS}])|([${FRACTION_GLYPHS}])|(\\d+)\\s+(\\d+)\\s*[/⁄]\\s*(\\d+)|(\\d+)\\s*[/⁄]\\s*(\\d+)|(\\d+(?:[.,]\\d+)?|[.,]\\d+))$`
+);
+
+/** Parses a single amount ("1 1/4", "1½", "0,75", "tre", "en halv"); returns null if it isn't one. */
+function parseSingleAmount(input: string): number | null {
+  const text = input.trim().toLowerCase();
+  if (!text) return null;
+
+  const match = text.match(NUMBER_PATTERN);
+  if (match) {
+    const [, wholeWithGlyph, glyphAfterWhole, glyphAlone, mixedWhole, mixedNumerator, mixedDenominator, numerator, denominator, decimal] = match;
+    if (glyphAfterWhole) return parseInt(wholeWithGlyph, 10) + UNICODE_FRACTIONS[glyphAfterWhole];
+    if (glyphAlone) return UNICODE_FRACTIONS[glyphAlone];
+    if (mixedDenominator) {
+      const den = parseInt(mixedDenominator, 10);
+      return den === 0 ? null : parseInt(mixedWhole, 10) + parseInt(mixedNumerator, 10) / den;
+    }
+    if (denominator) {
+      const den = parseInt(denominator, 10);
+      return den === 0 ? null : parseInt(numerator, 10) / den;
+    }
+    return parseFloat(decimal.replace(",", "."));
+  }
+
+  // Spelled-out amounts: "tre", "en halv", "a half", "one and a half", "to og en halv", "halvannen"
+  if (text === "halvannen" || text === "halvannet") return 1.5;
+  const compound = text.match(/^(.+?)\s+(?:and|og|y)\s+(.+)$/);
+  if (compound) {
+    const whole = parseSingleAmount(compound[1]);
+    const part = parseSingleAmount(compound[2]);
+    return whole !== null && part !== null ? whole + part : null;
+  }
+  const words = text.split(/\s+/).filter(word => word !== "a" || text === "a");
+  const values = words.map(word => NUMBER_WORDS[word]);
+  if (values.length === 1 && values[0] !== undefined) return values[0];
+  // "en halv" / "una media" → 1 × ½
+  if (values.length === 2 && values[0] !== undefined && values[1] !== undefined && values[1] < 1) return values[0] * values[1];
+  return null;
+}
+
+export function parseQuantity(input: string | null | undefined): ParsedQuantity {
+  const raw = (input ?? "").trim();
+  if (!raw) return { kind: "empty" };
+
+  const prefixMatch = raw.match(APPROXIMATE_PREFIX);
+  const prefix = prefixMatch ? prefixMatch[0] : undefined;
+  const text = prefixMatch ? raw.slice(prefixMatch[0].length) : raw;
+
+  const single = parseSingleAmount(text);
+  if (single !== null) return { kind: "number", value: single, ...(prefix ? { prefix } : {}) };
+
+  const parts = text.split(RANGE_SEPARATOR);
+  if (parts.length === 2) {
+    const min = parseSingleAmount(parts[0]);
+    const max = parseSingleAmount(parts[1]);
+    if (min !== null && max !== null) return { kind: "range", min, max, ...(prefix ? { prefix } : {}) };
+  }
+
+  return { kind: "text", text: raw };
+}
+
+/** Formats a number the way it would be written in a recipe, e.g. 1.5 → "1½", 0.3333 → "⅓", 333.3 → "335". */
+export function formatQuantity(value: number, options: FormatQuantityOptions = {}): string {
+  const { language = "en", fractions = true } = options;
+  const decimalSeparator = language === "en" ? "." : ",";
+
+  if (!Number.isFinite(value) || value <= 0) return "0";
+  if (Number.isInteger(value)) return String(value);
+  if (value >= 100) return String(Math.round(value / 5) * 5);
+  if (value >= 10) return String(Math.round(value));
+
+  // Below ⅛ the nearest kitchen fraction could be 0, so small amounts are written as decimals.
+  if (fractions && value >= 1 / 8) {
+    const whole = Math.floor(value);
+    const remainder = value - whole;
+    const nearest = KITCHEN_FRACTIONS.reduce((best, candidate) =>
+      Math.abs(candidate.value - remainder) < Math.abs(best.value - remainder) ? candidate : best
+    );
+    const wholePart = nearest.value === 1 ? whole + 1 : whole;
+    if (!nearest.glyph) return String(wholePart);
+    return wholePart > 0 ? `${wholePart}${nearest.glyph}` : nearest.glyph;
+  }
+
+  const rounded = value < 1 ? Number(value.toPrecision(2)) : Math.round(value * 10) / 10;
+  return String(rounded).replace(".", decimalSeparator);
+}
+
+export function formatParsedQuantity(quantity: ParsedQuantity, options: FormatQuantityOptions = {}): string {
+  switch (quantity.kind) {
+    case "number":
+      return `${quantity.prefix ?? ""}${formatQuantity(quantity.value, options)}`;
+    case "range":
+      return `${quantity.prefix ?? ""}${formatQuantity(quantity.min, options)}–${formatQuantity(quantity.max, options)}`;
+    case "text":
+      return quantity.text;
+    default:
+      return "";
+  }
+}
+
+export function scaleParsedQuantity(quantity: ParsedQuantity, factor: number): ParsedQuantity {
+  switch (quantity.kind) {
+    case "number":
+      return { ...quantity, value: quantity.value * factor };
+    case "range":
+      return { ...quantity, min: quantity.min * factor, max: quantity.max * factor };
+    default:
+      return quantity;
+  }
+}
+
+/**
+ * Scales a quantity string by `factor`. Non-numeric amounts, and any amount when the
+ * factor is 1, are returned exactly as written.
+ */
+export function scaleQuantity(input: string, factor: number, options: FormatQuantityOptions = {}): string {
+  if (!Number.isFinite(factor) || factor <= 0 || factor === 1) return input;
+  const parsed = parseQuantity(input);
+  if (parsed.kind === "text" || parsed.kind === "empty") return input;
+  return formatParsedQuantity(scaleParsedQuantity(parsed, factor), options);
+}
+
+/**
+ * Adds two quantity strings, e.g. for merging shopping list lines. Returns null when
+ * either side isn't numeric, since "1 dl" plus "en skvett" can't be summed.
+ */
+export function addQuantities(a: string, b: string, options: FormatQuantityOptions = {}): string | null {
+  const left = parseQuantity(a);
+  const right = parseQuantity(b);
+  if (left.kind === "empty" && right.kind === "empty") return "";
+  if (left.kind !== "number" && left.kind !== "range") return null;
+  if (right.kind !== "number" && right.kind !== "range") return null;
+
+  const bounds = (q: Extract<ParsedQuantity, { kind: "number" | "range" }>) => (q.kind === "range" ? [q.min, q.max] : [q.value, q.value]);
+  const [leftMin, leftMax] = bounds(left);
+  const [rightMin, rightMax] = bounds(right);
+  const sum: ParsedQuantity = leftMin + rightMin === leftMax + rightMax
+    ? { kind: "number", value: leftMin + rightMin }
+    : { kind: "range", min: leftMin + rightMin, max: leftMax + rightMax };
+  return formatParsedQuantity(sum, options);
+}
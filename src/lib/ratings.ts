@@ -0,0 +1,21 @@
+import { prisma } from "@/lib/prisma";
+
+/** Recalculates the cached average rating and rating count stored on the recipe. */
+export async function recalculateRecipeRating(recipeId: string): Promise<void> {
+  const ratings = await prisma.rating.findMany({
+    where: { recipeId: recipeId },
+    select: { value: true },
+  });
+
+  const numRatings = ratings.length;
+  const totalRating = ratings.reduce((sum: number, r: { value: number }) => sum + r.value, 0);
+  const averageRating = numRatings > 0 ? totalRating / numRatings : 0;
+
+  await prisma.recipe.update({
+    where: { id: recipeId },
+    data: {
+      averageRating: averageRating,
+      numRatings: numRatings,
+    },
+  });
+}
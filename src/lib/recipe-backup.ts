@@ -0,0 +1,164 @@
+/**
+ * A self-contained backup of a user's recipes as a zip archive:
+ *
+ *   manifest.json        format name and version, app version, export date
+ *   recipes/<title>.json one recipe each, in the same shape as the JSON export
+ *   images/<title>.<ext> images that were stored inline as data URIs
+ *   ratings.json         ratings the user gave other people's recipes
+ *
+ * Images stored as external URLs are kept as URLs. The owner's own rating of a recipe is
+ * kept on the recipe as `myRating`.
+ */
+
+import JSZip from "jszip";
+import packageJson from "../../package.json";
+import { createRecipeFileNamer } from "@/lib/recipe-export";
+
+export const BACKUP_FORMAT = "oppskrift-backup";
+export const BACKUP_FORMAT_VERSION = 1;
+
+export interface BackupManifest {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  appVersion: string;
+  exportedAt: string; // ISO date string
+  recipeCount: number;
+}
+
+export interface BackupRating {
+  recipeId: string;
+  recipeTitle: string;
+  value: number;
+}
+
+export type BackupRecipe = Record<string, any> & {
+  title: string;
+  imageUrl?: string | null;
+  myRating?: number | null;
+};
+
+export interface BackupEntry {
+  file: string;
+  recipe?: BackupRecipe; // Missing when the file could not be read
+  error?: string;
+}
+
+export type ReadBackupResult =
+  | { manifest: BackupManifest; entries: BackupEntry[]; ratings: BackupRating[] }
+  | { error: string };
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/avif": "avif",
+  "image/svg+xml": "svg",
+};
+
+const DATA_URI_PATTERN = /^data:(image\/[\w.+-]+);base64,/;
+
+/** Splits an inline image into the file extension and base64 content it would be saved as. */
+export function dataUriImage(imageUrl: string | null | undefined): { extension: string; base64: string } | null {
+  const dataUri = imageUrl?.match(DATA_URI_PATTERN);
+  if (!imageUrl || !dataUri) return null;
+  return { extension: IMAGE_EXTENSIONS[dataUri[1]] ?? "bin", base64: imageUrl.slice(dataUri[0].length) };
+}
+
+export async function buildBackupArchive(recipes: BackupRecipe[], ratings: BackupRating[]): Promise<ArrayBuffer> {
+  const zip = new JSZip();
+  const manifest: BackupManifest = {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    appVersion: packageJson.version,
+    exportedAt: new Date().toISOString(),
+    recipeCount: recipes.length,
+  };
+  zip.file("manifest.json", JSON.stringify(manifest, null, 2));
+
+  const nextFileName = createRecipeFileNamer("json");
+  recipes.forEach(recipe => {
+    const fileName = nextFileName(recipe.title);
+    const data: BackupRecipe = { ...recipe };
+    const image = dataUriImage(recipe.imageUrl);
+    if (image) {
+      const imagePath = `images/${fileName.replace(/\.json$/, "")}.${image.extension}`;
+      zip.file(imagePath, image.base64, { base64: true });
+      data.imageUrl = null;
+      data.image = imagePath;
+    }
+    zip.file(`recipes/${fileName}`, JSON.stringify(data, null, 2));
+  });
+
+  zip.file("ratings.json", JSON.stringify(ratings, null, 2));
+  return zip.generateAsync({ type: "arraybuffer", compression: "DEFLATE" });
+}
+
+/** The image type for a file name, going by its extension. */
+export const imageMimeType = (path: string) =>
+  Object.keys(IMAGE_EXTENSIONS).find(mime => path.toLowerCase().replace(/\.jpeg$/, ".jpg").endsWith(`.${IMAGE_EXTENSIONS[mime]}`)) ?? "application/octet-stream";
+
+/**
+ * Reads a backup archive, checking the manifest before anything else. Images are turned
+ * back into data URIs on their recipes. A recipe file that can't be parsed is returned as
+ * an entry with an error so the rest of the backup can still be restored.
+ */
+export async function readBackupArchive(data: ArrayBuffer | Uint8Array): Promise<ReadBackupResult> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    return { error: "The file is not a valid zip archive." };
+  }
+
+  const manifestFile = zip.file("manifest.json");
+  if (!manifestFile) {
+    return { error: "The archive has no manifest.json, so it is not a recipe backup." };
+  }
+  let manifest: BackupManifest;
+  try {
+    manifest = JSON.parse(await manifestFile.async("string"));
+  } catch {
+    return { error: "manifest.json is not valid JSON." };
+  }
+  if (manifest?.format !== BACKUP_FORMAT || !Number.isInteger(manifest.formatVersion)) {
+    return { error: "manifest.json does not describe a recipe backup." };
+  }
+  if (manifest.formatVersion > BACKUP_FORMAT_VERSION) {
+    return { error: `Backup format version ${manifest.formatVersion} is newer than this app supports (${BACKUP_FORMAT_VERSION}).` };
+  }
+
+  const recipeFiles = zip.file(/^recipes\/[^/]+\.json$/).sort((a, b) => a.name.localeCompare(b.name));
+  const entries = await Promise.all(recipeFiles.map(async (file): Promise<BackupEntry> => {
+    let recipe: BackupRecipe;
+    try {
+      recipe = JSON.parse(await file.async("string"));
+    } catch {
+      return { file: file.name, error: "Not valid JSON." };
+    }
+    if (!recipe || typeof recipe !== "object" || typeof recipe.title !== "string") {
+      return { file: file.name, error: "Not a recipe." };
+    }
+    if (typeof recipe.image === "string") {
+      const image = zip.file(recipe.image);
+      if (image) {
+        recipe.imageUrl = `data:${imageMimeType(recipe.image)};base64,${await image.async("base64")}`;
+      }
+      delete recipe.image;
+    }
+    return { file: file.name, recipe };
+  }));
+
+  let ratings: BackupRating[] = [];
+  const ratingsFile = zip.file("ratings.json");
+  if (ratingsFile) {
+    try {
+      const parsed = JSON.parse(await ratingsFile.async("string"));
+      ratings = Array.isArray(parsed) ? parsed : [];
+    } catch {
+      ratings = []; // Ratings are a nice-to-have; the recipes can still be restored
+    }
+  }
+
+  return { manifest, entries, ratings };
+}
@@ -0,0 +1,169 @@
+/**
+ * EPUB 3 cookbook of a selection of recipes, for e-readers. The package is laid out as:
+ *
+ *   mimetype                  stored first and uncompressed, as the spec requires
+ *   META-INF/container.xml    points readers at the package document
+ *   OEBPS/content.opf         metadata (title, author, language), manifest and reading order
+ *   OEBPS/nav.xhtml           table of contents grouped by category
+ *   OEBPS/title.xhtml         title page
+ *   OEBPS/recipes/*.xhtml     one chapter per recipe, using the HTML export's markup
+ *   OEBPS/images/*            images that were stored inline in the recipes
+ *   OEBPS/styles.css          the HTML export's stylesheet
+ *
+ * Linked images are left out: readers rarely load remote resources.
+ */
+
+import { randomUUID } from "crypto";
+import JSZip from "jszip";
+import type { Recipe } from "@/types/recipe";
+import type { Translate } from "@/lib/translations";
+import { dataUriImage } from "@/lib/recipe-backup";
+import { EXPORT_STYLESHEET, escapeHtml, generateRecipeHtmlSection, type ExportOptions } from "@/lib/recipe-export";
+
+export interface EpubOptions extends ExportOptions {
+  title: string;
+  author: string;
+}
+
+const IMAGE_MEDIA_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+};
+
+interface Chapter {
+  recipe: Recipe;
+  file: string; // Relative to OEBPS
+  image?: { file: string; mediaType: string; base64: string };
+}
+
+const xhtmlDocument = (title: string, lang: string, body: string, stylesheet: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${escapeHtml(lang)}" lang="${escapeHtml(lang)}">
+<head>
+  <meta charset="UTF-8"/>
+  <title>${escapeHtml(title)}</title>
+  <link rel="stylesheet" type="text/css" href="${stylesheet}"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+const CONTAINER_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`;
+
+function chapterXhtml(chapter: Chapter, t: Translate, options: EpubOptions): string {
+  const image = chapter.image ? `<img class="recipe-image" src="../${chapter.image.file}" alt="${escapeHtml(chapter.recipe.title)}"/>\n` : "";
+  const body = `<section epub:type="chapter">\n${image}${generateRecipeHtmlSection(chapter.recipe, t, options)}\n</section>`;
+  return xhtmlDocument(chapter.recipe.title, options.lang, body, "../styles.css");
+}
+
+/** The table of contents lists each category with its recipes; a recipe in several categories appears under each. */
+function navXhtml(chapters: Chapter[], t: Translate, options: EpubOptions): string {
+  const byCategory = new Map<string, Chapter[]>();
+  const uncategorized: Chapter[] = [];
+  chapters.forEach(chapter => {
+    const categories = chapter.recipe.categories?.map(category => category.name) ?? [];
+    if (categories.length === 0) uncategorized.push(chapter);
+    categories.forEach(category => byCategory.set(category, [...(byCategory.get(category) ?? []), chapter]));
+  });
+  const categories = Array.from(byCategory.keys()).sort((a, b) => a.localeCompare(b, options.lang));
+  // Recipes without a category come last, under a heading of their own.
+  if (uncategorized.length > 0) {
+    categories.push(t("epub_uncategorized"));
+    byCategory.set(t("epub_uncategorized"), uncategorized);
+  }
+  const link = (chapter: Chapter) => `<li><a href="${chapter.file}">${escapeHtml(chapter.recipe.title)}</a></li>`;
+  const body = `<nav epub:type="toc" id="toc">
+  <h1>${escapeHtml(t("export_table_of_contents"))}</h1>
+  <ol>
+    ${categories.map(category => `<li><span>${escapeHtml(category)}</span><ol>${byCategory.get(category)!.map(link).join("")}</ol></li>`).join("\n    ")}
+  </ol>
+</nav>
+<nav epub:type="landmarks" hidden="hidden">
+  <ol>
+    <li><a epub:type="titlepage" href="title.xhtml">${escapeHtml(options.title)}</a></li>
+    <li><a epub:type="bodymatter" href="${chapters[0]?.file ?? "title.xhtml"}">${escapeHtml(t("epub_recipes"))}</a></li>
+  </ol>
+</nav>`;
+  return xhtmlDocument(t("export_table_of_contents"), options.lang, body, "styles.css");
+}
+
+function titleXhtml(options: EpubOptions): string {
+  const body = `<section epub:type="titlepage" class="title-page">
+  <h1>${escapeHtml(options.title)}</h1>
+  ${options.author ? `<p>${escapeHtml(options.author)}</p>` : ""}
+</section>`;
+  return xhtmlDocument(options.title, options.lang, body, "styles.css");
+}
+
+function contentOpf(chapters: Chapter[], options: EpubOptions): string {
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, "Z");
+  const coverImage = chapters.find(chapter => chapter.image)?.image;
+  const items = [
+    `<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>`,
+    `<item id="css" href="styles.css" media-type="text/css"/>`,
+    `<item id="title" href="title.xhtml" media-type="application/xhtml+xml"/>`,
+    ...chapters.map((chapter, index) => `<item id="recipe-${index + 1}" href="${chapter.file}" media-type="application/xhtml+xml"/>`),
+    ...chapters.flatMap((chapter, index) => chapter.image
+      ? [`<item id="image-${index + 1}" href="${chapter.image.file}" media-type="${chapter.image.mediaType}"${chapter.image === coverImage ? ` properties="cover-image"` : ""}/>`]
+      : []),
+  ];
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeHtml(options.lang)}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:uuid:${randomUUID()}</dc:identifier>
+    <dc:title>${escapeHtml(options.title)}</dc:title>
+    <dc:language>${escapeHtml(options.lang)}</dc:language>
+    ${options.author ? `<dc:creator>${escapeHtml(options.author)}</dc:creator>` : ""}
+    <meta property="dcterms:modified">${modified}</meta>
+  </metadata>
+  <manifest>
+    ${items.join("\n    ")}
+  </manifest>
+  <spine>
+    <itemref idref="title"/>
+    <itemref idref="nav"/>
+    ${chapters.map((chapter, index) => `<itemref idref="recipe-${index + 1}"/>`).join("\n    ")}
+  </spine>
+</package>
+`;
+}
+
+/** Builds the EPUB file for the recipes, in the order given. */
+export async function buildCookbookEpub(recipes: Recipe[], t: Translate, options: EpubOptions): Promise<ArrayBuffer> {
+  const chapters: Chapter[] = recipes.map((recipe, index) => {
+    const image = dataUriImage(recipe.imageUrl);
+    const mediaType = image && IMAGE_MEDIA_TYPES[image.extension];
+    return {
+      recipe,
+      file: `recipes/recipe-${index + 1}.xhtml`,
+      image: image && mediaType ? { file: `images/recipe-${index + 1}.${image.extension}`, mediaType, base64: image.base64 } : undefined,
+    };
+  });
+
+  const zip = new JSZip();
+  zip.file("mimetype", "application/epub+zip", { compression: "STORE" });
+  zip.file("META-INF/container.xml", CONTAINER_XML);
+  zip.file("OEBPS/content.opf", contentOpf(chapters, options));
+  zip.file("OEBPS/nav.xhtml", navXhtml(chapters, t, options));
+  zip.file("OEBPS/title.xhtml", titleXhtml(options));
+  zip.file("OEBPS/styles.css", `${EXPORT_STYLESHEET}
+            .recipe-image { display: block; max-width: 100%; margin: 0 auto 1em; }
+            .title-page { text-align: center; margin-top: 30%; }
+`);
+  chapters.forEach(chapter => {
+    zip.file(`OEBPS/${chapter.file}`, chapterXhtml(chapter, t, options));
+    if (chapter.image) zip.file(`OEBPS/${chapter.image.file}`, chapter.image.base64, { base64: true });
+  });
+  return zip.generateAsync({ type: "arraybuffer", compression: "DEFLATE", mimeType: "application/epub+zip" });
+}
@@ -0,0 +1,188 @@
+import type { Recipe } from "@/types/recipe";
+import type { Translate } from "@/lib/translations";
+import { scaleQuantity } from "@/lib/quantity";
+
+export interface ExportOptions {
+  scale: number; // Factor applied to ingredient quantities, 1 to export as written
+  lang: string;
+}
+
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/** An ingredient line as every export writes it: scaled quantity, unit and name. */
+export const formatIngredient = (ingredient: Recipe["ingredientGroups"][number]["ingredients"][number], options: ExportOptions) => {
+  const quantity = scaleQuantity(ingredient.quantity, options.scale, { language: options.lang });
+  return [quantity, ingredient.unit, ingredient.name].filter(Boolean).join(" ");
+};
+
+/** A file name for the recipe's title with characters that file systems reject removed. */
+export function recipeFileName(title: string, extension: string): string {
+  const name = title.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, " ").replace(/\s+/g, " ").trim().slice(0, 100);
+  return `${name || "recipe"}.${extension}`;
+}
+
+/**
+ * Returns a function handing out file names for recipes that are unique within one archive;
+ * recipes sharing a title get a number so one file doesn't overwrite the other.
+ */
+export function createRecipeFileNamer(extension: string): (title: string) => string {
+  const usedNames = new Set<string>();
+  return title => {
+    let fileName = recipeFileName(title, extension);
+    for (let copy = 2; usedNames.has(fileName.toLowerCase()); copy++) {
+      fileName = recipeFileName(`${title} (${copy})`, extension);
+    }
+    usedNames.add(fileName.toLowerCase());
+    return fileName;
+  };
+}
+
+export function generateMarkdown(recipe: Recipe, t: Translate, options: ExportOptions): string {
+  let markdown = `# ${recipe.title}
+
+`;
+  if (recipe.description) {
+    markdown += `${recipe.description}
+
+`;
+  }
+  markdown += `## ${t("ingredients")}
+
+`;
+  recipe.ingredientGroups.forEach(group => {
+    if (group.name) {
+      markdown += `### ${group.name}
+`;
+    }
+    group.ingredients.forEach(ingredient => {
+      markdown += `- ${formatIngredient(ingredient, options)}
+`;
+    });
+  });
+  markdown += `
+## ${t("instructions")}
+
+`;
+  recipe.instructions.forEach((step, index) => {
+    markdown += `${index + 1}. ${step.text}
+`;
+  });
+  if (recipe.tips && recipe.tips.length > 0) {
+    markdown += `
+## ${t("tips_label")}
+
+`;
+    recipe.tips.forEach(tip => {
+      markdown += `- ${tip.text}
+`;
+    });
+  }
+  return markdown;
+}
+
+/**
+ * The markup for one recipe, without the surrounding document, so several recipes can be
+ * placed in one file. `anchorId` becomes the id of the wrapping element for links from a
+ * table of contents.
+ */
+export function generateRecipeHtmlSection(recipe: Recipe, t: Translate, options: ExportOptions, anchorId?: string): string {
+  let html = `<article class="recipe"${anchorId ? ` id="${escapeHtml(anchorId)}"` : ""}>
+        <h1>${escapeHtml(recipe.title)}</h1>
+  `;
+
+  if (recipe.description) {
+    html += `<p>${escapeHtml(recipe.description)}</p>`;
+  }
+
+  html += `<div class="section">
+            <h2>${escapeHtml(t("ingredients"))}</h2>
+  `;
+  recipe.ingredientGroups.forEach(group => {
+    html += `<div class="ingredient-group">`;
+    if (group.name) {
+      html += `<h3 class="ingredient-group-name">${escapeHtml(group.name)}</h3>`;
+    }
+    html += `<ul>`;
+    group.ingredients.forEach(ingredient => {
+      html += `<li>${escapeHtml(formatIngredient(ingredient, options))}</li>`;
+    });
+    html += `</ul>`;
+    html += `</div>`;
+  });
+  html += `</div>`;
+
+  html += `<div class="section">
+            <h2>${escapeHtml(t("instructions"))}</h2>
+            <ol>
+  `;
+  recipe.instructions.forEach(step => {
+    html += `<li>${escapeHtml(step.text)}</li>`;
+  });
+  html += `</ol>
+        </div>
+  `;
+
+  if (recipe.tips && recipe.tips.length > 0) {
+    html += `<div class="section">
+              <h2>${escapeHtml(t("tips_label"))}</h2>
+              <ul>
+    `;
+    recipe.tips.forEach(tip => {
+      html += `<li>${escapeHtml(tip.text)}</li>`;
+    });
+    html += `</ul>
+          </div>
+    `;
+  }
+
+  html += `</article>`;
+  return html;
+}
+
+/** Styles for the exported recipe markup, shared by the HTML and EPUB exports. */
+export const EXPORT_STYLESHEET = `
+            body { font-family: sans-serif; line-height: 1.6; color: #333; max-width: 800px; margin: 0 auto; padding: 20px; }
+            h1, h2, h3 { color: #2c3e50; margin-top: 1.5em; margin-bottom: 0.5em; }
+            h1 { font-size: 2.5em; }
+            h2 { font-size: 2em; border-bottom: 1px solid #eee; padding-bottom: 5px; }
+            h3 { font-size: 1.5em; }
+            ul, ol { margin-bottom: 1em; padding-left: 25px; }
+            li { margin-bottom: 0.5em; }
+            .section { margin-bottom: 2em; }
+            .ingredient-group { margin-bottom: 1.5em; }
+            .ingredient-group-name { font-weight: bold; margin-bottom: 0.5em; }
+            .toc a { color: inherit; }
+            .recipe + .recipe { border-top: 2px solid #eee; margin-top: 3em; }
+            @media print { .recipe + .recipe { border-top: none; page-break-before: always; } }
+`;
+
+/** Wraps body markup in a standalone HTML document with the export stylesheet. */
+export function generateHtmlDocument(title: string, body: string, lang: string): string {
+  return `<!DOCTYPE html>
+    <html lang="${escapeHtml(lang)}">
+    <head>
+        <meta charset="utf-8">
+        <title>${escapeHtml(title)}</title>
+        <style>${EXPORT_STYLESHEET}</style>
+    </head>
+    <body>
+        ${body}
+    </body></html>`;
+}
+
+export function generateHtml(recipe: Recipe, t: Translate, options: ExportOptions): string {
+  return generateHtmlDocument(recipe.title, generateRecipeHtmlSection(recipe, t, options), options.lang);
+}
+
+/** One HTML document holding every recipe, opening with a table of contents linking to each. */
+export function generateCollectionHtml(recipes: Recipe[], t: Translate, options: ExportOptions): string {
+  const title = t("export_collection_title");
+  const toc = `<nav class="toc">
+        <h1>${escapeHtml(title)}</h1>
+        <h2>${escapeHtml(t("export_table_of_contents"))}</h2>
+        <ol>${recipes.map(recipe => `<li><a href="#recipe-${escapeHtml(recipe.id)}">${escapeHtml(recipe.title)}</a></li>`).join("")}</ol>
+    </nav>`;
+  const sections = recipes.map(recipe => generateRecipeHtmlSection(recipe, t, options, `recipe-${recipe.id}`));
+  return generateHtmlDocument(title, [toc, ...sections].join("\n"), options.lang);
+}
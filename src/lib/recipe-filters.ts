@@ -0,0 +1,70 @@
+import { Prisma } from "@prisma/client";
+import type { RecipeVisibilityFilter } from "@/types";
+
+const VISIBILITY_FILTERS: RecipeVisibilityFilter[] = ["all-viewable", "my-all", "my-public", "my-private", "community-public"];
+const DEFAULT_PAGE_SIZE = 24;
+const MAX_PAGE_SIZE = 100;
+
+// Fields needed to render a recipe card.
+export const recipeSummarySelect = {
+  id: true,
+  title: true,
+  description: true,
+  imageUrl: true,
+  isPublic: true,
+  createdBy: true,
+  createdAt: true,
+  servingsValue: true,
+  servingsUnit: true,
+  prepTime: true,
+  cookTime: true,
+  averageRating: true,
+  numRatings: true,
+  tags: {
+    select: {
+      name: true,
+    },
+  },
+  categories: {
+    select: {
+      name: true,
+    },
+  },
+} satisfies Prisma.RecipeSelect;
+
+const visibilityWhere = (filter: RecipeVisibilityFilter, userId: string): Prisma.RecipeWhereInput => {
+  switch (filter) {
+    case "my-all":
+      return { createdBy: userId };
+    case "my-public":
+      return { createdBy: userId, isPublic: true };
+    case "my-private":
+      return { createdBy: userId, isPublic: false };
+    case "community-public":
+      return { isPublic: true, OR: [{ createdBy: { not: userId } }, { createdBy: null }] };
+    default:
+      return { OR: [{ isPublic: true }, { createdBy: userId }] };
+  }
+};
+
+/** Builds the where clause for the `visibility`, `category` and `tag` list parameters. */
+export function recipeFilterWhere(searchParams: URLSearchParams, userId: string): Prisma.RecipeWhereInput {
+  const visibilityParam = searchParams.get("visibility") as RecipeVisibilityFilter;
+  const visibility = VISIBILITY_FILTERS.includes(visibilityParam) ? visibilityParam : "all-viewable";
+  const category = searchParams.get("category");
+  const tag = searchParams.get("tag");
+
+  const conditions: Prisma.RecipeWhereInput[] = [visibilityWhere(visibility, userId)];
+  if (category) {
+    conditions.push({ categories: { some: { name: category } } });
+  }
+  if (tag) {
+    conditions.push({ tags: { some: { name: tag } } });
+  }
+  return { AND: conditions };
+}
+
+export function parsePageLimit(searchParams: URLSearchParams): number {
+  const limitParam = parseInt(searchParams.get("limit") || "", 10);
+  return Number.isNaN(limitParam) ? DEFAULT_PAGE_SIZE : Math.min(Math.max(limitParam, 1), MAX_PAGE_SIZE);
+}
@@ -0,0 +1,149 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { gzipSync } from "zlib";
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import { fromForeignRecipe, readMealieArchive, readPaprikaArchive, readPaprikaRecipe } from "@/lib/recipe-import-formats";
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, "__fixtures__", "recipe-import-formats", name));
+const PNG_BASE64 = "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg==";
+
+describe("Paprika", () => {
+  it("reads every recipe of a .paprikarecipes archive", async () => {
+    const entries = await readPaprikaArchive(await JSZip.loadAsync(fixture("export.paprikarecipes")));
+    expect(entries.map(entry => entry.file)).toEqual(["Fiskekaker med remulade.paprikarecipe", "Overnight Oats.paprikarecipe"]);
+
+    const fiskekaker = entries[0].recipe!;
+    expect(fiskekaker).toMatchObject({
+      title: "Fiskekaker med remulade",
+      description: "Hjemmelagde fiskekaker av sei.",
+      categories: ["Middag", "Fisk"],
+      servingsValue: 4,
+      servingsUnit: "servings",
+      prepTime: "20 min",
+      cookTime: "15 min",
+      sourceUrl: "https://matblogg.example/fiskekaker",
+      imageUrl: `data:image/png;base64,${PNG_BASE64}`, // The embedded photo wins over the linked one
+      myRating: 5,
+      createdAt: "2023-04-01T18:22:10.000Z",
+    });
+    expect(fiskekaker.ingredientGroups).toEqual([
+      {
+        name: "",
+        ingredients: [
+          { quantity: "600", unit: "g", name: "seifilet" },
+          { quantity: "1", unit: "ts", name: "salt" },
+          { quantity: "2", unit: "ss", name: "potetmel" },
+          { quantity: "2,5", unit: "dl", name: "melk" },
+        ],
+      },
+      {
+        name: "Remulade",
+        ingredients: [
+          { quantity: "1", unit: "dl", name: "majones" },
+          { quantity: "2", unit: "ss", name: "hakket sylteagurk" },
+          { quantity: "en", unit: "klype", name: "pepper" },
+        ],
+      },
+    ]);
+    expect(fiskekaker.instructions.map((step: { text: string }) => step.text)).toEqual([
+      "Kjør fisken og saltet i foodprosessor.",
+      "Tilsett potetmel og melk litt etter litt.",
+      "Form kakene og stek dem gylne i smør.",
+    ]);
+    expect(fiskekaker.tips).toEqual([{ text: "Farsen kan lages dagen før." }, { text: "Server med kokte poteter." }]);
+  });
+
+  it("falls back to the linked image and leaves out unrated recipes' rating and non-web sources", async () => {
+    const [, entry] = await readPaprikaArchive(await JSZip.loadAsync(fixture("export.paprikarecipes")));
+    const oats = entry.recipe!;
+    expect(oats.imageUrl).toBe("https://breakfast.example/oats.jpg");
+    expect(oats.myRating).toBeUndefined();
+    expect(oats.sourceUrl).toBeUndefined();
+    expect(oats.servingsValue).toBe(2);
+    expect(oats.cookTime).toBe("8 h 5 min"); // No cook time, so the total time
+    expect(oats.ingredientGroups[0].ingredients).toEqual([
+      { quantity: "1/2", unit: "cup", name: "rolled oats" },
+      { quantity: "2/3", unit: "cup", name: "milk" },
+      { quantity: "1", unit: "tbsp", name: "chia seeds" },
+      { quantity: "", unit: "", name: "honey, to taste" },
+    ]);
+    expect(oats.instructions).toEqual([{ text: "Stir everything together in a jar." }, { text: "Leave in the fridge overnight." }]);
+  });
+
+  it("reads a single gzipped recipe and rejects files that aren't one", () => {
+    const recipe = { name: "Vafler", ingredients: "3 egg", directions: "Rør sammen." };
+    expect(readPaprikaRecipe(gzipSync(JSON.stringify(recipe)))).toEqual(recipe);
+    expect(() => readPaprikaRecipe(gzipSync(JSON.stringify({ title: "Vafler" })))).toThrow("Not a Paprika recipe.");
+  });
+});
+
+describe("Mealie", () => {
+  const mealieRecipe = () => JSON.parse(fixture("mealie-recipe.json").toString("utf8"));
+
+  it("maps a recipe's JSON, with parsed and free-text ingredients and titled sections", () => {
+    expect(fromForeignRecipe(mealieRecipe())).toEqual({
+      title: "Tortilla de patatas",
+      description: "La tortilla clásica, jugosa por dentro.",
+      ingredientGroups: [
+        {
+          name: "",
+          ingredients: [
+            { quantity: "5", unit: "", name: "patatas, medianas" },
+            { quantity: "½", unit: "taza", name: "aceite de oliva" },
+          ],
+        },
+        {
+          name: "Para el relleno",
+          ingredients: [
+            { quantity: "6", unit: "", name: "huevos grandes" },
+            { quantity: "1", unit: "", name: "cebolla" },
+            { quantity: "", unit: "", name: "sal al gusto" },
+          ],
+        },
+      ],
+      instructions: [
+        { text: "Pela y corta las patatas en láminas finas." },
+        { text: "Freír: Fríe las patatas y la cebolla a fuego lento hasta que estén tiernas." },
+        { text: "Mezcla con los huevos batidos y cuaja la tortilla por ambos lados." },
+      ],
+      tips: [{ text: "Consejo: Déjala reposar cinco minutos antes de cortarla." }],
+      categories: ["Cena"],
+      tags: ["Vegetariano", "Clásico"],
+      servingsValue: 4,
+      servingsUnit: "servings",
+      prepTime: "15 min",
+      cookTime: "40 min",
+      sourceUrl: "https://cocina.example/tortilla",
+      imageUrl: "https://mealie.example/api/media/recipes/5b0f7d52/images/original.webp",
+      myRating: 4,
+      createdAt: "2024-03-09T00:00:00.000Z",
+    });
+  });
+
+  it("reads an export archive, embedding each recipe's image and skipping other JSON files", async () => {
+    const zip = new JSZip();
+    zip.file("recipes/tortilla-de-patatas/tortilla-de-patatas.json", JSON.stringify(mealieRecipe()));
+    zip.file("recipes/tortilla-de-patatas/images/original.webp", Buffer.from(PNG_BASE64, "base64"));
+    zip.file("recipes/empanadas/empanadas.json", JSON.stringify({ ...mealieRecipe(), name: "Empanadas", slug: "empanadas", rating: null }));
+    zip.file("settings.json", JSON.stringify({ theme: "dark" }));
+    zip.file("broken.json", "{");
+
+    const entries = await readMealieArchive(await JSZip.loadAsync(await zip.generateAsync({ type: "uint8array" })));
+    expect(entries.map(entry => entry.file)).toEqual([
+      "broken.json",
+      "recipes/empanadas/empanadas.json",
+      "recipes/tortilla-de-patatas/tortilla-de-patatas.json",
+    ]);
+    expect(entries[0]).toEqual({ file: "broken.json", error: "Not valid JSON." });
+    expect(entries[1].recipe).toMatchObject({ title: "Empanadas", imageUrl: undefined, myRating: undefined });
+    expect(entries[2].recipe).toMatchObject({ title: "Tortilla de patatas", imageUrl: `data:image/webp;base64,${PNG_BASE64}`, myRating: 4 });
+  });
+});
+
+describe("fromForeignRecipe", () => {
+  it("passes our own recipes through unchanged", () => {
+    const recipe = { title: "Lapskaus", ingredientGroups: [], instructions: [] };
+    expect(fromForeignRecipe(recipe)).toBe(recipe);
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Importers for the recipe managers people move here from. Each maps the other app's
+ * recipes onto the shape of our JSON export, so they go through the same preview,
+ * validation and import as our own files:
+ *
+ *   Paprika  .paprikarecipes  a zip with one gzipped JSON file (.paprikarecipe) per recipe,
+ *                             photo embedded as base64
+ *   Mealie   recipe export    a zip with one <slug>.json per recipe and its image in an
+ *                             images folder next to it
+ *   Cooklang .cook files      a zip of them, e.g. a folder kept in git, with an image named
+ *                             like the recipe file next to it
+ *
+ * A single .paprikarecipe or .cook file or a Mealie recipe's JSON can also be imported on its own.
+ */
+
+import { gunzipSync } from "zlib";
+import type JSZip from "jszip";
+import { parseIngredientLine, parseIngredientText, type ParsedIngredientGroup, type ParsedIngredientLine } from "@/lib/ingredient-line";
+import { formatDurationMinutes, parseDurationMinutes } from "@/lib/duration";
+import { formatQuantity } from "@/lib/quantity";
+import { parseRecipeYield } from "@/lib/structured-recipe";
+import { imageMimeType, type BackupEntry, type BackupRecipe } from "@/lib/recipe-backup";
+import { parseCooklang } from "@/lib/cooklang";
+
+type ForeignRecipe = Record<string, any>;
+
+const DEFAULT_SERVINGS = 4;
+
+const asText = (value: unknown) => (typeof value === "string" ? value.trim() : typeof value === "number" ? String(value) : "");
+
+const asLines = (value: unknown) => asText(value).split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+
+const asList = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+// Category and tag lists are plain names in Paprika and `{ name }` objects in Mealie.
+const asNames = (value: unknown) => asList(value).map(entry => asText(typeof entry === "object" && entry ? (entry as ForeignRecipe).name : entry)).filter(Boolean);
+
+const asDuration = (value: unknown) => {
+  const minutes = parseDurationMinutes(asText(value));
+  return minutes ? formatDurationMinutes(minutes) : undefined;
+};
+
+// Only web links pass the recipe schema's URL check; other sources ("Grandma") are dropped.
+const asWebUrl = (value: unknown) => (/^https?:\/\/\S+$/i.test(asText(value)) ? asText(value) : undefined);
+
+const asRating = (value: unknown) => {
+  const rating = Math.round(Number(value));
+  return rating >= 1 && rating <= 5 ? rating : undefined;
+};
+
+const asDate = (value: unknown) => {
+  const date = new Date(asText(value).replace(" ", "T"));
+  return asText(value) && !isNaN(date.getTime()) ? date.toISOString() : undefined;
+};
+
+// Directions are written one step per line or paragraph, often numbered ("1.", "Step 2:").
+const asSteps = (value: unknown) =>
+  asLines(value).map(line => line.replace(/^(?:step\s*)?\d+[.):]\s*/i, "")).filter(Boolean).map(text => ({ text }));
+
+const isObject = (value: unknown): value is ForeignRecipe => !!value && typeof value === "object" && !Array.isArray(value);
+
+// ---------------------------------------------------------------------------------------
+// Paprika
+
+export const isPaprikaRecipe = (value: unknown): value is ForeignRecipe =>
+  isObject(value) && typeof value.name === "string" && "ingredients" in value && "directions" in value;
+
+export function fromPaprikaRecipe(recipe: ForeignRecipe): BackupRecipe {
+  const photo = asText(recipe.photo_data);
+  const yieldInfo = parseRecipeYield(recipe.servings);
+  return {
+    title: asText(recipe.name),
+    description: asText(recipe.description) || undefined,
+    ingredientGroups: parseIngredientText(asText(recipe.ingredients)),
+    instructions: asSteps(recipe.directions),
+    tips: asLines(recipe.notes).map(text => ({ text })),
+    categories: asNames(recipe.categories),
+    servingsValue: yieldInfo.servingsValue ?? DEFAULT_SERVINGS,
+    servingsUnit: yieldInfo.servingsUnit ?? "servings",
+    prepTime: asDuration(recipe.prep_time),
+    cookTime: asDuration(recipe.cook_time) ?? asDuration(recipe.total_time),
+    sourceUrl: asWebUrl(recipe.source_url),
+    // Paprika stores photos as JPEG unless the user added a PNG.
+    imageUrl: photo ? `data:${photo.startsWith("iVBOR") ? "image/png" : "image/jpeg"};base64,${photo}` : asWebUrl(recipe.image_url),
+    myRating: asRating(recipe.rating),
+    createdAt: asDate(recipe.created),
+  };
+}
+
+/** Reads a single .paprikarecipe file: gzipped JSON of one recipe. */
+export function readPaprikaRecipe(data: Uint8Array): ForeignRecipe {
+  const recipe = JSON.parse(gunzipSync(data).toString("utf8"));
+  if (!isPaprikaRecipe(recipe)) throw new Error("Not a Paprika recipe.");
+  return recipe;
+}
+
+export const isPaprikaArchive = (zip: JSZip) => zip.file(/\.paprikarecipe$/i).length > 0;
+
+export async function readPaprikaArchive(zip: JSZip): Promise<BackupEntry[]> {
+  const files = zip.file(/\.paprikarecipe$/i).sort((a, b) => a.name.localeCompare(b.name));
+  return Promise.all(files.map(async (file): Promise<BackupEntry> => {
+    try {
+      return { file: file.name, recipe: fromPaprikaRecipe(readPaprikaRecipe(await file.async("uint8array"))) };
+    } catch {
+      return { file: file.name, error: "Not a readable Paprika recipe." };
+    }
+  }));
+}
+
+// ---------------------------------------------------------------------------------------
+// Mealie
+
+export const isMealieRecipe = (value: unknown): value is ForeignRecipe =>
+  isObject(value) && typeof value.name === "string" && ("recipeIngredient" in value || "recipeInstructions" in value);
+
+// Mealie ingredients are either parsed (quantity, unit and food) or free text in the note.
+// An ingredient with a title starts a new section of the list.
+function mealieIngredientGroups(ingredients: unknown): ParsedIngredientGroup[] {
+  const groups: ParsedIngredientGroup[] = [];
+  let current: ParsedIngredientGroup | null = null;
+  asList(ingredients).forEach(entry => {
+    let line: ParsedIngredientLine;
+    if (isObject(entry)) {
+      const title = asText(entry.title);
+      if (title) {
+        current = { name: title, ingredients: [] };
+        groups.push(current);
+      }
+      const food = asText(entry.food?.name);
+      const quantity = Number(entry.quantity);
+      line = food && !entry.disableAmount
+        ? {
+          quantity: quantity > 0 ? formatQuantity(quantity) : "",
+          unit: asText(entry.unit?.name),
+          name: [food, asText(entry.note)].filter(Boolean).join(", "),
+        }
+        : parseIngredientLine(asText(entry.note) || asText(entry.display) || asText(entry.originalText));
+    } else {
+      line = parseIngredientLine(asText(entry)); // Older Mealie versions store plain lines
+    }
+    if (!line.name) return;
+    if (!current) {
+      current = { name: "", ingredients: [] };
+      groups.push(current);
+    }
+    current.ingredients.push(line);
+  });
+  return groups.filter(group => group.ingredients.length > 0);
+}
+
+// Steps and notes may carry a title; it is kept in front of the text, as with web page sections.
+const mealieTexts = (value: unknown) =>
+  asList(value)
+    .map(entry => (isObject(entry) ? [asText(entry.title), asText(entry.text)].filter(Boolean).join(": ") : asText(entry)))
+    .filter(Boolean)
+    .map(text => ({ text }));
+
+export function fromMealieRecipe(recipe: ForeignRecipe, imageUrl?: string): BackupRecipe {
+  const servings = Number(recipe.recipeServings);
+  const yieldInfo = servings >= 1 ? { servingsValue: Math.round(servings), servingsUnit: "servings" as const } : parseRecipeYield(recipe.recipeYield);
+  return {
+    title: asText(recipe.name),
+    description: asText(recipe.description) || undefined,
+    ingredientGroups: mealieIngredientGroups(recipe.recipeIngredient),
+    instructions: mealieTexts(recipe.recipeInstructions),
+    tips: mealieTexts(recipe.notes),
+    categories: asNames(recipe.recipeCategory),
+    tags: asNames(recipe.tags),
+    servingsValue: yieldInfo.servingsValue ?? DEFAULT_SERVINGS,
+    servingsUnit: yieldInfo.servingsUnit ?? "servings",
+    prepTime: asDuration(recipe.prepTime),
+    cookTime: asDuration(recipe.performTime) ?? asDuration(recipe.cookTime) ?? asDuration(recipe.totalTime),
+    sourceUrl: asWebUrl(recipe.orgURL),
+    imageUrl,
+    myRating: asRating(recipe.rating),
+    createdAt: asDate(recipe.dateAdded ?? recipe.createdAt),
+  };
+}
+
+/** Finds a recipe's image: `<dir>/images/original.*` in newer exports, `images/<slug>/original.*` in older ones. */
+async function mealieImage(zip: JSZip, recipeFile: string, slug: string): Promise<string | undefined> {
+  const dir = recipeFile.slice(0, recipeFile.lastIndexOf("/") + 1);
+  const image = zip.file(/(^|\/)original\.\w+$/i)
+    .find(file => file.name.startsWith(`${dir}images/`) || file.name.startsWith(`images/${slug}/`));
+  return image ? `data:${imageMimeType(image.name)};base64,${await image.async("base64")}` : undefined;
+}
+
+export async function readMealieArchive(zip: JSZip): Promise<BackupEntry[]> {
+  const files = zip.file(/\.json$/i).sort((a, b) => a.name.localeCompare(b.name));
+  const entries = await Promise.all(files.map(async (file): Promise<BackupEntry | null> => {
+    let recipe: unknown;
+    try {
+      recipe = JSON.parse(await file.async("string"));
+    } catch {
+      return { file: file.name, error: "Not valid JSON." };
+    }
+    // Exports also hold other JSON files, e.g. settings; only recipes are imported.
+    if (!isMealieRecipe(recipe)) return null;
+    return { file: file.name, recipe: fromMealieRecipe(recipe, await mealieImage(zip, file.name, asText(recipe.slug))) };
+  }));
+  return entries.filter((entry): entry is BackupEntry => entry !== null);
+}
+
+// ---------------------------------------------------------------------------------------
+// Cooklang
+
+export const isCooklangArchive = (zip: JSZip) => zip.file(/\.cook$/i).length > 0;
+
+export async function readCooklangArchive(zip: JSZip): Promise<BackupEntry[]> {
+  const files = zip.file(/\.cook$/i).sort((a, b) => a.name.localeCompare(b.name));
+  return Promise.all(files.map(async (file): Promise<BackupEntry> => {
+    const recipe = parseCooklang(await file.async("string"), file.name);
+    const base = file.name.replace(/\.cook$/i, "");
+    const image = zip.file(new RegExp(`^${base.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\.(jpe?g|png|webp|gif|avif)$`, "i"))[0];
+    if (image) recipe.imageUrl = `data:${imageMimeType(image.name)};base64,${await image.async("base64")}`;
+    return { file: file.name, recipe };
+  }));
+}
+
+/** Maps a recipe from a JSON upload, which may be one of ours or a single Paprika or Mealie recipe. */
+export function fromForeignRecipe(recipe: unknown): unknown {
+  if (isMealieRecipe(recipe)) return fromMealieRecipe(recipe, asWebUrl(recipe.image));
+  if (isPaprikaRecipe(recipe)) return fromPaprikaRecipe(recipe);
+  return recipe;
+}
@@ -0,0 +1,360 @@
+import { createHash } from "crypto";
+import JSZip from "jszip";
+import type { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { syncRecipeSearchIndex } from "@/lib/search";
+import { readBackupArchive, type BackupRating } from "@/lib/recipe-backup";
+import { looksLikeCooklang, parseCooklang } from "@/lib/cooklang";
+import {
+  fromForeignRecipe,
+  fromPaprikaRecipe,
+  isCooklangArchive,
+  isMealieRecipe,
+  isPaprikaArchive,
+  isPaprikaRecipe,
+  readCooklangArchive,
+  readMealieArchive,
+  readPaprikaArchive,
+  readPaprikaRecipe,
+} from "@/lib/recipe-import-formats";
+import { recipeColumns, recipeImportSchema, toValidationIssues, type ImportedRecipe, type RecipeInput } from "@/lib/recipe-schema";
+import type { RecipeImportDecision, RecipeImportPreviewItem, RecipeImportResult } from "@/types";
+
+const MAX_IMPORT_BYTES = 100 * 1024 * 1024;
+
+// Exports carry each child's position; older exports only have array order to go by.
+const sortByPosition = <T extends { position?: number | null }>(items: T[]): T[] =>
+  items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => (a.item.position ?? a.index) - (b.item.position ?? b.index))
+    .map(({ item }) => item);
+
+export interface ImportEntry {
+  recipe?: unknown; // As read from the file, before validation; missing when the entry could not be read
+  file?: string; // Path inside a backup archive
+  error?: string;
+}
+
+export interface ImportPayload {
+  entries: ImportEntry[];
+  ratings: BackupRating[]; // Only backups carry ratings of other people's recipes
+  decisions: Record<number, RecipeImportDecision>;
+}
+
+// Zip archives start with "PK\x03\x04", gzip streams (a single .paprikarecipe) with 0x1f 0x8b.
+const isZipData = (data: Uint8Array) => data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04;
+const isGzipData = (data: Uint8Array) => data[0] === 0x1f && data[1] === 0x8b;
+
+// Tells our backups, Paprika exports, Mealie exports and Cooklang folders apart by what the archive holds.
+async function readArchiveEntries(data: Uint8Array): Promise<Omit<ImportPayload, "decisions"> | { error: string }> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(data);
+  } catch {
+    return { error: "The file is not a valid zip archive." };
+  }
+  if (zip.file("manifest.json")) {
+    const backup = await readBackupArchive(data);
+    return "error" in backup ? backup : { entries: backup.entries, ratings: backup.ratings };
+  }
+  const entries = isPaprikaArchive(zip)
+    ? await readPaprikaArchive(zip)
+    : isCooklangArchive(zip) ? await readCooklangArchive(zip) : await readMealieArchive(zip);
+  if (entries.length === 0) {
+    return { error: "The archive is not a recipe backup, a Paprika export, a Mealie export or a folder of Cooklang files." };
+  }
+  return { entries, ratings: [] };
+}
+
+/**
+ * Reads an import upload: a JSON array of recipes, a zip backup, a Paprika or Mealie
+ * export, a zip of Cooklang files, or a single Paprika, Mealie or Cooklang recipe. The file is either the raw request body
+ * or the `file` field of a form, which may also carry per-recipe `decisions` as JSON keyed
+ * by entry index. The format is recognized from the content; only a `.cook` file name is
+ * taken as a hint, since a Cooklang recipe may have no markup the content check relies on.
+ */
+export async function readImportPayload(req: Request): Promise<ImportPayload | { error: string; status: number }> {
+  let body: Blob;
+  let fileName: string | undefined;
+  let decisions: Record<number, RecipeImportDecision> = {};
+
+  const contentType = req.headers.get("content-type") ?? "";
+  if (contentType.includes("multipart/form-data")) {
+    const form = await req.formData();
+    const file = form.get("file");
+    if (!(file instanceof Blob)) {
+      return { error: "No file was uploaded.", status: 400 };
+    }
+    body = file;
+    fileName = file instanceof File ? file.name : undefined;
+    try {
+      decisions = JSON.parse(String(form.get("decisions") ?? "{}")) ?? {};
+    } catch {
+      return { error: "Invalid import decisions.", status: 400 };
+    }
+  } else {
+    body = new Blob([await req.arrayBuffer()]);
+  }
+
+  if (body.size > MAX_IMPORT_BYTES) {
+    return { error: "The file is too large.", status: 413 };
+  }
+  const data = new Uint8Array(await body.arrayBuffer());
+
+  if (isZipData(data)) {
+    const archive = await readArchiveEntries(data);
+    return "error" in archive ? { error: archive.error, status: 400 } : { ...archive, decisions };
+  }
+
+  if (isGzipData(data)) {
+    try {
+      return { entries: [{ recipe: fromPaprikaRecipe(readPaprikaRecipe(data)) }], ratings: [], decisions };
+    } catch {
+      return { error: "The file is not a readable Paprika recipe.", status: 400 };
+    }
+  }
+
+  const text = new TextDecoder().decode(data);
+  if (!/^\s*[[{]/.test(text) && (/\.cook$/i.test(fileName ?? "") || looksLikeCooklang(text))) {
+    return { entries: [{ file: fileName, recipe: parseCooklang(text, fileName) }], ratings: [], decisions };
+  }
+
+  let recipes: unknown;
+  try {
+    recipes = JSON.parse(text);
+  } catch {
+    return { error: "The file is not valid JSON.", status: 400 };
+  }
+  if (isMealieRecipe(recipes) || isPaprikaRecipe(recipes)) {
+    recipes = [recipes];
+  }
+  if (!Array.isArray(recipes)) {
+    return { error: "Invalid data format. Expected an array of recipes.", status: 400 };
+  }
+  return { entries: recipes.map(recipe => ({ recipe: fromForeignRecipe(recipe) })), ratings: [], decisions };
+}
+
+const normalizeText = (value: unknown) => String(value ?? "").toLowerCase().replace(/\s+/g, " ").trim();
+
+interface HashedRecipe {
+  ingredientGroups?: {
+    position?: number | null;
+    ingredients: { position?: number | null; name: string; quantity?: string | null; unit?: string | null }[];
+  }[];
+  instructions?: { position?: number | null; text: string }[];
+}
+
+/**
+ * Fingerprint of what a recipe says, ignoring its title and metadata, so the same recipe
+ * imported under another name is still recognized.
+ */
+export function recipeContentHash(recipe: HashedRecipe): string {
+  const content = {
+    ingredients: sortByPosition(recipe.ingredientGroups ?? []).flatMap(group =>
+      sortByPosition(group.ingredients).map(ing => [ing.quantity, ing.unit, ing.name].map(normalizeText).join("|"))
+    ),
+    instructions: sortByPosition(recipe.instructions ?? []).map(step => normalizeText(step.text)),
+  };
+  return createHash("sha256").update(JSON.stringify(content)).digest("hex");
+}
+
+interface ExistingRecipes {
+  byTitle: Map<string, { id: string; title: string }>;
+  byHash: Map<string, { id: string; title: string }>;
+}
+
+async function loadExistingRecipes(userId: string): Promise<ExistingRecipes> {
+  const recipes = await prisma.recipe.findMany({
+    where: { createdBy: userId },
+    select: {
+      id: true,
+      title: true,
+      ingredientGroups: {
+        select: { position: true, ingredients: { select: { name: true, quantity: true, unit: true, position: true } } },
+      },
+      instructions: { select: { text: true, position: true } },
+    },
+  });
+  const existing: ExistingRecipes = { byTitle: new Map(), byHash: new Map() };
+  recipes.forEach(recipe => {
+    existing.byTitle.set(normalizeText(recipe.title), { id: recipe.id, title: recipe.title });
+    existing.byHash.set(recipeContentHash(recipe), { id: recipe.id, title: recipe.title });
+  });
+  return existing;
+}
+
+type ParsedEntry = { item: RecipeImportPreviewItem; recipe?: ImportedRecipe };
+
+// The title to report an entry under, even when the rest of it is invalid.
+const entryTitle = (recipe: unknown) =>
+  recipe && typeof recipe === "object" && "title" in recipe && typeof recipe.title === "string" ? recipe.title : "";
+
+// Validates an entry against the shared recipe schema and compares it with the user's recipes.
+function previewEntry(entry: ImportEntry, index: number, existing: ExistingRecipes): ParsedEntry {
+  const item = { index, title: entryTitle(entry.recipe), file: entry.file };
+  if (!entry.recipe) {
+    return { item: { ...item, status: "invalid", issues: [{ path: "", message: entry.error ?? "Could not be read." }] } };
+  }
+  const parsed = recipeImportSchema.safeParse(entry.recipe);
+  if (!parsed.success) {
+    return { item: { ...item, status: "invalid", issues: toValidationIssues(parsed.error) } };
+  }
+  const recipe = parsed.data;
+  const sameTitle = existing.byTitle.get(normalizeText(recipe.title));
+  if (sameTitle) {
+    return { recipe, item: { ...item, status: "duplicate-title", existingRecipeId: sameTitle.id, existingRecipeTitle: sameTitle.title } };
+  }
+  const sameContent = existing.byHash.get(recipeContentHash(recipe));
+  if (sameContent) {
+    return { recipe, item: { ...item, status: "duplicate-content", existingRecipeId: sameContent.id, existingRecipeTitle: sameContent.title } };
+  }
+  return { recipe, item: { ...item, status: "new" } };
+}
+
+/** The dry run: what would happen to each entry, without changing anything. */
+export async function previewRecipeImport(entries: ImportEntry[], userId: string): Promise<RecipeImportPreviewItem[]> {
+  const existing = await loadExistingRecipes(userId);
+  return entries.map((entry, index) => previewEntry(entry, index, existing).item);
+}
+
+// The related lists of a validated recipe as nested Prisma create input, in their exported order.
+function recipeRelationsData(recipe: RecipeInput) {
+  return {
+    categories: { connectOrCreate: (recipe.categories ?? []).map(name => ({ where: { name }, create: { name } })) },
+    tags: { connectOrCreate: (recipe.tags ?? []).map(name => ({ where: { name }, create: { name } })) },
+    ingredientGroups: {
+      create: sortByPosition(recipe.ingredientGroups).map((group, groupIndex) => ({
+        name: group.name ?? "",
+        position: groupIndex,
+        ingredients: {
+          create: sortByPosition(group.ingredients).map((ing, ingredientIndex) => ({
+            name: ing.name,
+            quantity: ing.quantity ?? "",
+            unit: ing.unit ?? "",
+            foodId: ing.foodId || null,
+            position: ingredientIndex,
+          })),
+        },
+      })),
+    },
+    instructions: {
+      create: sortByPosition(recipe.instructions).map((step, index) => ({
+        text: step.text,
+        position: index,
+      })),
+    },
+    tips: {
+      create: sortByPosition(recipe.tips ?? []).map((tip, index) => ({
+        text: tip.text,
+        position: index,
+      })),
+    },
+  };
+}
+
+// Splits what the form edits from the export's timestamps, legacy share links and rating.
+const recipeInput = ({ createdAt, updatedAt, shareTokens, myRating, ...recipe }: ImportedRecipe): RecipeInput => recipe;
+
+async function createImportedRecipe(recipe: ImportedRecipe, userId: string, title: string): Promise<string> {
+  const { createdAt, updatedAt, shareTokens } = recipe;
+  const dataToCreate: Prisma.RecipeUncheckedCreateInput = {
+    ...recipeColumns(recipeInput(recipe)),
+    ...recipeRelationsData(recipeInput(recipe)),
+    title,
+    createdBy: userId, // Connect to the current authenticated user
+    createdAt: createdAt ?? new Date(),
+    updatedAt: updatedAt ?? new Date(),
+  };
+
+  if (shareTokens && shareTokens.length > 0) {
+    dataToCreate.shareTokens = { create: shareTokens };
+  }
+
+  const createdRecipe = await prisma.recipe.create({
+    data: dataToCreate,
+  });
+  await syncRecipeSearchIndex(createdRecipe.id);
+  return createdRecipe.id;
+}
+
+// Replaces the content of an existing recipe in place, keeping its id, ratings, share links and meal plans.
+async function overwriteRecipe(recipeId: string, recipe: ImportedRecipe): Promise<void> {
+  await prisma.$transaction([
+    prisma.recipe.update({
+      where: { id: recipeId },
+      data: {
+        categories: { set: [] },
+        tags: { set: [] },
+        ingredientGroups: { deleteMany: {} },
+        instructions: { deleteMany: {} },
+        tips: { deleteMany: {} },
+      },
+    }),
+    // The nutrition was worked out from the old ingredients.
+    prisma.recipeNutrition.deleteMany({ where: { recipeId } }),
+    prisma.recipe.update({
+      where: { id: recipeId },
+      data: { ...recipeColumns(recipeInput(recipe)), ...recipeRelationsData(recipeInput(recipe)) },
+    }),
+  ]);
+  await syncRecipeSearchIndex(recipeId);
+}
+
+// "Soup" becomes "Soup (2)", or the next number not already taken.
+const uniqueTitle = (title: string, takenTitles: Set<string>) => {
+  let candidate = title;
+  for (let copy = 2; takenTitles.has(normalizeText(candidate)); copy++) {
+    candidate = `${title} (${copy})`;
+  }
+  return candidate;
+};
+
+const defaultDecision = (item: RecipeImportPreviewItem): RecipeImportDecision =>
+  item.status === "new" ? "import" : "skip";
+
+/**
+ * Imports the entries, applying the user's decision for each one. Entries without a
+ * decision are imported when new and skipped when they duplicate an existing recipe.
+ * `onSaved` runs after each recipe is created or overwritten.
+ */
+export async function commitRecipeImport(
+  entries: ImportEntry[],
+  decisions: Record<number, RecipeImportDecision>,
+  userId: string,
+  onSaved?: (recipeId: string, recipe: ImportedRecipe) => Promise<void>
+): Promise<RecipeImportResult[]> {
+  const existing = await loadExistingRecipes(userId);
+  const takenTitles = new Set(existing.byTitle.keys());
+  const results: RecipeImportResult[] = [];
+
+  // Imports recipes one at a time so a bad recipe is reported without stopping the rest.
+  for (const [index, entry] of entries.entries()) {
+    const { item, recipe } = previewEntry(entry, index, existing);
+    const { title, file } = item;
+    if (!recipe) {
+      results.push({ title, file, status: "failed", issues: item.issues });
+      continue;
+    }
+
+    const decision = decisions[index] ?? defaultDecision(item);
+    try {
+      if (decision === "skip") {
+        results.push({ title, file, status: "skipped", message: item.existingRecipeTitle ? `Matches "${item.existingRecipeTitle}".` : undefined });
+      } else if (decision === "overwrite" && item.existingRecipeId) {
+        await overwriteRecipe(item.existingRecipeId, recipe);
+        await onSaved?.(item.existingRecipeId, recipe);
+        results.push({ title, file, status: "overwritten" });
+      } else {
+        const newTitle = uniqueTitle(recipe.title, takenTitles);
+        takenTitles.add(normalizeText(newTitle));
+        const recipeId = await createImportedRecipe(recipe, userId, newTitle);
+        await onSaved?.(recipeId, recipe);
+        results.push({ title, file, status: "imported", message: newTitle !== recipe.title ? `Imported as "${newTitle}".` : undefined });
+      }
+    } catch (error) {
+      console.error(`Error importing recipe "${title}":`, error);
+      results.push({ title, file, status: "failed", message: "The recipe data could not be saved." });
+    }
+  }
+  return results;
+}
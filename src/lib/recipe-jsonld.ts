@@ -0,0 +1,88 @@
+import { parseDurationMinutes, toIsoDuration } from "@/lib/duration";
+
+/** The recipe fields needed to describe a recipe as schema.org data. */
+export interface RecipeJsonLdSource {
+  id: string;
+  title: string;
+  description?: string | null;
+  imageUrl?: string | null;
+  servingsValue: number;
+  servingsUnit: string;
+  prepTime?: string | null;
+  cookTime?: string | null;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+  averageRating?: number | null;
+  numRatings?: number | null;
+  ingredientGroups: { name: string; ingredients: { name: string; quantity: string; unit: string }[] }[];
+  instructions: { text: string }[];
+  tips?: { text: string }[];
+  tags: { name: string }[];
+  categories: { name: string }[];
+  createdById?: { displayName: string | null } | null;
+}
+
+const toDateString = (value: Date | string) => new Date(value).toISOString();
+
+/**
+ * Returns an absolute http(s) URL for the recipe image, or undefined. Uploaded images are
+ * stored as data URIs, which are too large for metadata and useless to other sites.
+ */
+export function publicImageUrl(imageUrl: string | null | undefined, baseUrl: string): string | undefined {
+  if (!imageUrl || imageUrl.startsWith("data:")) return undefined;
+  try {
+    const url = new URL(imageUrl, baseUrl);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Describes a recipe as a schema.org `Recipe` object for JSON-LD. */
+export function buildRecipeJsonLd(recipe: RecipeJsonLdSource, baseUrl: string): Record<string, unknown> {
+  const prepMinutes = parseDurationMinutes(recipe.prepTime);
+  const cookMinutes = parseDurationMinutes(recipe.cookTime);
+  const totalMinutes = prepMinutes !== null || cookMinutes !== null ? (prepMinutes ?? 0) + (cookMinutes ?? 0) : null;
+  const image = publicImageUrl(recipe.imageUrl, baseUrl);
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "Recipe",
+    name: recipe.title,
+    ...(recipe.description ? { description: recipe.description } : {}),
+    ...(image ? { image: [image] } : {}),
+    url: `${baseUrl}/recipes/${recipe.id}`,
+    datePublished: toDateString(recipe.createdAt),
+    dateModified: toDateString(recipe.updatedAt),
+    ...(recipe.createdById?.displayName ? { author: { "@type": "Person", name: recipe.createdById.displayName } } : {}),
+    recipeYield: [String(recipe.servingsValue), `${recipe.servingsValue} ${recipe.servingsUnit}`],
+    ...(prepMinutes !== null ? { prepTime: toIsoDuration(prepMinutes) } : {}),
+    ...(cookMinutes !== null ? { cookTime: toIsoDuration(cookMinutes) } : {}),
+    ...(totalMinutes !== null ? { totalTime: toIsoDuration(totalMinutes) } : {}),
+    ...(recipe.tags.length > 0 ? { keywords: recipe.tags.map(tag => tag.name).join(", ") } : {}),
+    ...(recipe.categories.length > 0 ? { recipeCategory: recipe.categories.map(category => category.name) } : {}),
+    recipeIngredient: recipe.ingredientGroups.flatMap(group =>
+      group.ingredients.map(ingredient => [ingredient.quantity, ingredient.unit, ingredient.name].filter(Boolean).join(" "))
+    ),
+    recipeInstructions: [
+      ...recipe.instructions.map((step, index) => ({ "@type": "HowToStep", position: index + 1, text: step.text })),
+      ...(recipe.tips ?? []).map(tip => ({ "@type": "HowToTip", text: tip.text })),
+    ],
+    ...(recipe.numRatings && recipe.averageRating
+      ? {
+          aggregateRating: {
+            "@type": "AggregateRating",
+            ratingValue: Math.round(recipe.averageRating * 10) / 10,
+            ratingCount: recipe.numRatings,
+            bestRating: 5,
+            worstRating: 1,
+          },
+        }
+      : {}),
+  };
+}
+
+/** Serializes JSON-LD for an inline `<script>` tag; escaping `<` keeps "</script>" in text from ending it. */
+export function serializeJsonLd(data: unknown): string {
+  return JSON.stringify(data).replace(/</g, "\\u003c");
+}
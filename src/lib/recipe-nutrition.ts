@@ -0,0 +1,81 @@
+import { createHash } from "crypto";
+import { prisma } from "@/lib/prisma";
+import { estimateNutrition } from "@/ai/flows/estimate-nutrition-flow";
+
+// The stored nutrition as the recipe API returns it.
+export const nutritionSelect = {
+  calories: true,
+  protein: true,
+  fat: true,
+  carbohydrates: true,
+  fiber: true,
+  salt: true,
+  estimated: true,
+  calculatedAt: true,
+} as const;
+
+const nutritionSource = {
+  servingsValue: true,
+  ingredientGroups: {
+    orderBy: { position: "asc" },
+    select: {
+      name: true,
+      ingredients: { orderBy: { position: "asc" }, select: { name: true, quantity: true, unit: true } },
+    },
+  },
+  nutrition: { select: { ingredientsHash: true } },
+} as const;
+
+interface NutritionSource {
+  servingsValue: number;
+  ingredientGroups: { ingredients: { name: string; quantity: string; unit: string }[] }[];
+}
+
+// Group names and spacing don't change what's in the dish, so they are left out.
+export function ingredientsHash({ servingsValue, ingredientGroups }: NutritionSource): string {
+  const ingredients = ingredientGroups.flatMap(group =>
+    group.ingredients.map(ing => [ing.quantity, ing.unit, ing.name].map(part => part.trim().toLowerCase()).join(" "))
+  );
+  return createHash("sha256").update(JSON.stringify([servingsValue, ingredients])).digest("hex");
+}
+
+/**
+ * Has the AI estimate the recipe's nutrition and stores it. Unless `force` is set, an
+ * estimate that was made from the same ingredients and servings is kept as it is.
+ * Returns null for recipes without ingredients, whose nutrition is removed.
+ */
+export async function refreshRecipeNutrition(recipeId: string, { force = false } = {}) {
+  const recipe = await prisma.recipe.findUnique({ where: { id: recipeId }, select: nutritionSource });
+  if (!recipe) return null;
+  if (!recipe.ingredientGroups.some(group => group.ingredients.length > 0)) {
+    await prisma.recipeNutrition.deleteMany({ where: { recipeId } });
+    return null;
+  }
+
+  const hash = ingredientsHash(recipe);
+  if (!force && recipe.nutrition?.ingredientsHash === hash) {
+    return prisma.recipeNutrition.findUnique({ where: { recipeId }, select: nutritionSelect });
+  }
+  const values = await estimateNutrition({
+    ingredientGroups: recipe.ingredientGroups,
+    servingsValue: recipe.servingsValue > 0 ? recipe.servingsValue : 1,
+  });
+  const data = { ...values, estimated: true, ingredientsHash: hash, calculatedAt: new Date() };
+  return prisma.recipeNutrition.upsert({
+    where: { recipeId },
+    create: { ...data, recipeId },
+    update: data,
+    select: nutritionSelect,
+  });
+}
+
+/** Re-estimates a recipe's nutrition after an edit, if it has an estimate the edit made stale. */
+export async function refreshStaleNutrition(recipeId: string): Promise<void> {
+  const existing = await prisma.recipeNutrition.findUnique({ where: { recipeId }, select: { id: true } });
+  if (!existing) return;
+  try {
+    await refreshRecipeNutrition(recipeId);
+  } catch (error) {
+    console.error(`[refreshStaleNutrition] Could not re-estimate the nutrition of recipe ${recipeId}:`, error);
+  }
+}
@@ -0,0 +1,203 @@
+/**
+ * Printable PDF of one recipe or a cookbook of many. A cookbook has a cover, a table of
+ * contents linking to each recipe and page numbers. Every recipe opens on a left-hand page
+ * so it reads as a spread: picture, details and ingredients on the left, instructions and
+ * tips on the right.
+ *
+ * Uses PDFKit's built-in Helvetica, which covers the Latin letters of our languages. Only
+ * images stored in the recipe as JPEG or PNG data are embedded; linked images are left out
+ * rather than fetched.
+ */
+
+import PDFDocument from "pdfkit";
+import type { Recipe } from "@/types/recipe";
+import type { Translate } from "@/lib/translations";
+import { formatIngredient, type ExportOptions } from "@/lib/recipe-export";
+
+export interface CookbookOptions extends ExportOptions {
+  title: string;
+  cookbook: boolean; // Adds the cover and the table of contents
+}
+
+const PAGE_MARGIN = 56;
+const TOC_ENTRIES_PER_PAGE = 32;
+const TOC_ROW_HEIGHT = 19;
+const ACCENT_COLOR = "#8a4b2a";
+const MUTED_COLOR = "#666666";
+
+const DATE_LOCALES: Record<string, string> = { en: "en-GB", no: "nb-NO", es: "es-ES" };
+
+// The standard PDF fonts have no glyphs for these, so they are written out.
+const FRACTIONS: Record<string, string> = {
+  "⅓": "1/3", "⅔": "2/3", "⅛": "1/8", "⅜": "3/8", "⅝": "5/8", "⅞": "7/8", "⅕": "1/5", "⅙": "1/6", "⅚": "5/6",
+};
+
+const pdfText = (text: string) => text.replace(/[⅓⅔⅛⅜⅝⅞⅕⅙⅚]/g, fraction => ` ${FRACTIONS[fraction]}`).replace(/^ | (?= )/g, "");
+
+const interpolate = (template: string, values: Record<string, string | number>) =>
+  template.replace(/\{\{(\w+)\}\}/g, (match, key: string) => String(values[key] ?? match));
+
+// PDFKit reads JPEG and PNG; other inline formats such as WebP are skipped.
+function embeddableImage(imageUrl: string | null | undefined): Buffer | null {
+  const dataUri = imageUrl?.match(/^data:image\/(jpeg|jpg|png);base64,/);
+  return imageUrl && dataUri ? Buffer.from(imageUrl.slice(dataUri[0].length), "base64") : null;
+}
+
+function recipeDetails(recipe: Recipe, t: Translate, options: ExportOptions): string {
+  const servings = Math.round(recipe.servingsValue * options.scale * 100) / 100;
+  const unit = t(recipe.servingsUnit === "pieces" ? "pieces_short" : "servings_short");
+  return [
+    `${t("servings")}: ${servings} ${unit}`,
+    recipe.prepTime && `${t("prep_time")}: ${recipe.prepTime}`,
+    recipe.cookTime && `${t("cook_time")}: ${recipe.cookTime}`,
+  ].filter(Boolean).join("   ·   ");
+}
+
+function heading(doc: PDFKit.PDFDocument, text: string) {
+  doc.moveDown(0.8).font("Helvetica-Bold").fontSize(14).fillColor(ACCENT_COLOR).text(pdfText(text)).moveDown(0.3);
+  doc.font("Helvetica").fontSize(11).fillColor("black");
+}
+
+/** Writes one recipe starting on the current page, which is a left-hand page. */
+function writeRecipe(doc: PDFKit.PDFDocument, recipe: Recipe, t: Translate, options: ExportOptions, startPage: number) {
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  const image = embeddableImage(recipe.imageUrl);
+  if (image) {
+    try {
+      doc.image(image, PAGE_MARGIN, PAGE_MARGIN, { fit: [width, 260], align: "center" });
+      doc.y = PAGE_MARGIN + 275;
+    } catch {
+      doc.y = PAGE_MARGIN; // An image PDFKit can't decode is left out
+    }
+  }
+
+  doc.font("Helvetica-Bold").fontSize(24).fillColor("black").text(pdfText(recipe.title), PAGE_MARGIN, doc.y, { width });
+  if (recipe.description) {
+    doc.moveDown(0.4).font("Helvetica-Oblique").fontSize(11).fillColor(MUTED_COLOR).text(pdfText(recipe.description), { width });
+  }
+  doc.moveDown(0.6).font("Helvetica").fontSize(10).fillColor(MUTED_COLOR).text(pdfText(recipeDetails(recipe, t, options)), { width });
+
+  heading(doc, t("ingredients"));
+  recipe.ingredientGroups.forEach(group => {
+    if (group.name) doc.moveDown(0.3).font("Helvetica-Bold").text(pdfText(group.name)).font("Helvetica");
+    group.ingredients.forEach(ingredient => {
+      doc.text(`•  ${pdfText(formatIngredient(ingredient, options))}`, { width, indent: 6 });
+    });
+  });
+
+  // Instructions go on the right-hand page, unless the ingredients already ran onto it.
+  if (doc.bufferedPageRange().count - 1 === startPage) {
+    doc.addPage();
+  }
+  heading(doc, t("instructions"));
+  recipe.instructions.forEach((step, index) => {
+    doc.font("Helvetica-Bold").text(`${index + 1}.`, { continued: true }).font("Helvetica").text(`  ${pdfText(step.text)}`, { width });
+    doc.moveDown(0.4);
+  });
+
+  if (recipe.tips && recipe.tips.length > 0) {
+    heading(doc, t("tips_label"));
+    recipe.tips.forEach(tip => doc.text(`•  ${pdfText(tip.text)}`, { width, indent: 6 }).moveDown(0.2));
+  }
+}
+
+function writeCover(doc: PDFKit.PDFDocument, recipes: Recipe[], t: Translate, options: CookbookOptions) {
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  const coverImage = recipes.map(recipe => embeddableImage(recipe.imageUrl)).find(Boolean);
+  let y = doc.page.height / 3;
+  if (coverImage) {
+    try {
+      doc.image(coverImage, PAGE_MARGIN, PAGE_MARGIN * 2, { fit: [width, 320], align: "center" });
+      y = PAGE_MARGIN * 2 + 360;
+    } catch {
+      // Fall back to a cover without a picture
+    }
+  }
+  doc.font("Helvetica-Bold").fontSize(36).fillColor(ACCENT_COLOR).text(pdfText(options.title), PAGE_MARGIN, y, { width, align: "center" });
+  doc.moveDown(0.8).font("Helvetica").fontSize(13).fillColor(MUTED_COLOR)
+    .text(interpolate(t("cookbook_recipe_count"), { count: recipes.length }), { width, align: "center" })
+    .text(new Date().toLocaleDateString(DATE_LOCALES[options.lang] ?? "en-GB", { year: "numeric", month: "long", day: "numeric" }), { width, align: "center" });
+}
+
+function writeTableOfContents(doc: PDFKit.PDFDocument, recipes: Recipe[], recipePages: number[], firstPage: number, t: Translate) {
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  recipes.forEach((recipe, index) => {
+    const row = index % TOC_ENTRIES_PER_PAGE;
+    doc.switchToPage(firstPage + Math.floor(index / TOC_ENTRIES_PER_PAGE));
+    if (row === 0) {
+      doc.font("Helvetica-Bold").fontSize(22).fillColor(ACCENT_COLOR).text(pdfText(t("export_table_of_contents")), PAGE_MARGIN, PAGE_MARGIN);
+    }
+    const y = PAGE_MARGIN + 50 + row * TOC_ROW_HEIGHT;
+    const pageNumber = String(recipePages[index] + 1);
+    doc.font("Helvetica").fontSize(11).fillColor("black")
+      .text(pdfText(recipe.title), PAGE_MARGIN, y, { width: width - 50, lineBreak: false, ellipsis: true, goTo: `recipe-${index}` })
+      .text(pageNumber, PAGE_MARGIN + width - 40, y, { width: 40, align: "right", lineBreak: false, goTo: `recipe-${index}` });
+  });
+}
+
+// Page numbers go in the bottom margin; the margin is lifted while writing so PDFKit doesn't start a new page.
+function writePageNumbers(doc: PDFKit.PDFDocument, unnumberedPages: Set<number>) {
+  const { start, count } = doc.bufferedPageRange();
+  for (let page = start; page < start + count; page++) {
+    if (unnumberedPages.has(page)) continue;
+    doc.switchToPage(page);
+    const bottomMargin = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    // Numbers sit on the outer edge of the spread: left on even pages, right on odd ones.
+    doc.font("Helvetica").fontSize(9).fillColor(MUTED_COLOR)
+      .text(String(page + 1), PAGE_MARGIN, doc.page.height - PAGE_MARGIN / 2 - 5, {
+        width: doc.page.width - PAGE_MARGIN * 2,
+        align: (page + 1) % 2 === 0 ? "left" : "right",
+        lineBreak: false,
+      });
+    doc.page.margins.bottom = bottomMargin;
+  }
+}
+
+/** Renders the recipes as a PDF and returns the file's bytes. */
+export function buildCookbookPdf(recipes: Recipe[], t: Translate, options: CookbookOptions): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: PAGE_MARGIN,
+    bufferPages: true, // The table of contents and page numbers are filled in once all pages exist
+    autoFirstPage: false,
+    lang: options.lang,
+    info: { Title: options.title },
+  });
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  const unnumberedPages = new Set<number>();
+  const pageCount = () => doc.bufferedPageRange().count;
+  let tocFirstPage = 0;
+
+  if (options.cookbook) {
+    doc.addPage();
+    writeCover(doc, recipes, t, options);
+    unnumberedPages.add(0);
+    tocFirstPage = pageCount();
+    for (let page = 0; page < Math.ceil(recipes.length / TOC_ENTRIES_PER_PAGE); page++) doc.addPage();
+  }
+
+  const recipePages = recipes.map((recipe, index) => {
+    // Page numbers are 1-based, so left-hand pages have even numbers and odd indexes.
+    if (options.cookbook && pageCount() % 2 === 0) {
+      doc.addPage();
+      unnumberedPages.add(pageCount() - 1);
+    }
+    doc.addPage();
+    const startPage = pageCount() - 1;
+    doc.addNamedDestination(`recipe-${index}`);
+    writeRecipe(doc, recipe, t, options, startPage);
+    return startPage;
+  });
+
+  if (options.cookbook) writeTableOfContents(doc, recipes, recipePages, tocFirstPage, t);
+  writePageNumbers(doc, unnumberedPages);
+  doc.end();
+  return done;
+}
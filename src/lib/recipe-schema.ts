@@ -0,0 +1,148 @@
+/**
+ * The recipe schema shared by the recipe form and the create, update and import routes, so a
+ * recipe the form accepts is exactly one the server accepts. Error messages are translation
+ * keys where the form shows them to the user.
+ */
+
+import * as z from "zod";
+import type { RecipeValidationIssue } from "@/types";
+
+export const ingredientSchema = z.object({
+  id: z.string().optional(),
+  fieldId: z.string().optional(),
+  name: z.string().trim().min(1, "ingredient_name_required"),
+  quantity: z.string().optional(),
+  unit: z.string().optional(),
+  foodId: z.string().optional(), // Food table id for the nutrition calculator; unset to match by name
+  position: z.number().optional(),
+});
+
+export const ingredientGroupSchema = z.object({
+  id: z.string().optional(),
+  fieldId: z.string().optional(),
+  name: z.string().optional(),
+  ingredients: z.array(ingredientSchema).min(1, "group_ingredients_min_length"),
+  position: z.number().optional(),
+});
+
+export const instructionStepSchema = z.object({
+  id: z.string().optional(),
+  fieldId: z.string().optional(),
+  text: z.string().trim().min(1, "instruction_step_text_required"),
+  isChecked: z.boolean().default(false).optional(),
+  position: z.number().optional(),
+});
+
+export const tipStepSchema = z.object({
+  id: z.string().optional(),
+  fieldId: z.string().optional(),
+  text: z.string().trim().min(1, "tip_step_text_required"),
+  isChecked: z.boolean().default(false).optional(),
+  position: z.number().optional(),
+});
+
+// Tags and categories arrive as names or as `{ name }` objects from the API and exports.
+const nameListSchema = z
+  .array(z.union([z.string(), z.object({ name: z.string() })]))
+  .transform(values => Array.from(new Set(values.map(value => (typeof value === "string" ? value : value.name).trim()).filter(Boolean))));
+
+export const recipeSchema = z.object({
+  title: z.string().trim().min(3, "title_min_length"),
+  description: z.string().optional(),
+  ingredientGroups: z.array(ingredientGroupSchema).min(1, "ingredient_groups_min_length"),
+  instructions: z.array(instructionStepSchema).min(1, "instructions_min_length_array"),
+  tips: z.array(tipStepSchema).optional(),
+  tags: nameListSchema.optional(),
+  categories: nameListSchema.optional(),
+  servingsValue: z.coerce.number().int("servings_min_value").min(1, "servings_min_value"),
+  servingsUnit: z.enum(["servings", "pieces"], { errorMap: () => ({ message: "servings_unit_required" }) }),
+  prepTime: z.string().optional(),
+  cookTime: z.string().optional(),
+  imageUrl: z.string().optional(),
+  sourceUrl: z.string().url({ message: "invalid_url_format" }).optional().or(z.literal("")),
+  isPublic: z.boolean().optional(),
+});
+
+// Stored recipes and exports use null for empty fields. A top-level null means "clear this
+// field" (e.g. a broken image) and becomes an empty string; nested nulls are left out.
+const withoutNulls = (value: unknown, depth = 0): unknown => {
+  if (Array.isArray(value)) return value.map(entry => withoutNulls(entry, depth + 1));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value)
+      .filter(([, entry]) => entry !== null || depth === 0)
+      .map(([key, entry]) => [key, entry === null ? "" : withoutNulls(entry, depth + 1)]));
+  }
+  return value;
+};
+
+/** A full recipe, as sent when creating or importing one. */
+export const recipeInputSchema = z.preprocess(value => withoutNulls(value), recipeSchema);
+
+/** An update may send only the fields it changes, e.g. clearing a broken image. */
+export const recipeUpdateSchema = z.preprocess(value => withoutNulls(value), recipeSchema.partial());
+
+export type RecipeInput = z.infer<typeof recipeSchema>;
+
+// Exports from the Firebase version of the app store times as Firestore timestamps.
+const firestoreTimestampSchema = z
+  .object({ seconds: z.number(), nanoseconds: z.number().default(0) })
+  .transform(({ seconds, nanoseconds }) => new Date(seconds * 1000 + nanoseconds / 1_000_000));
+
+const legacyShareTokenSchema = z.object({
+  token: z.string().min(1),
+  expiresAt: firestoreTimestampSchema,
+  createdAt: firestoreTimestampSchema.optional(),
+  sharedBy: z.string(),
+});
+
+// Top-level nulls arrive here as empty strings (see `withoutNulls`); for these fields they mean "not given".
+const optionalUnlessEmpty = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(value => (value === "" ? undefined : value), schema.optional());
+
+/**
+ * A recipe from an export or backup, which also carries what isn't edited in the form: its
+ * timestamps, the share links of the Firebase version and the owner's own rating.
+ */
+export const recipeImportSchema = z.preprocess(value => withoutNulls(value), recipeSchema.extend({
+  createdAt: optionalUnlessEmpty(z.coerce.date()),
+  updatedAt: optionalUnlessEmpty(z.coerce.date()),
+  shareTokens: optionalUnlessEmpty(z.array(legacyShareTokenSchema)),
+  myRating: optionalUnlessEmpty(z.number().int().min(1).max(5)),
+}));
+
+export type ImportedRecipe = z.infer<typeof recipeImportSchema>;
+
+const NULLABLE_TEXT_FIELDS = ["description", "prepTime", "cookTime", "imageUrl", "sourceUrl"] as const;
+type NullableTextField = typeof NULLABLE_TEXT_FIELDS[number];
+type RecipeRelationField = "ingredientGroups" | "instructions" | "tips" | "tags" | "categories";
+
+/**
+ * The recipe's own columns from validated input, leaving out the related lists. Optional
+ * text that is empty is stored as null; fields missing from a partial update stay missing.
+ */
+export function recipeColumns<T extends Partial<RecipeInput>>(input: T) {
+  const { ingredientGroups, instructions, tips, tags, categories, ...columns } = input;
+  const result: Record<string, unknown> = { ...columns };
+  NULLABLE_TEXT_FIELDS.forEach(field => {
+    const value = input[field];
+    if (typeof value === "string") result[field] = value.trim() || null;
+  });
+  return result as Omit<T, RecipeRelationField | NullableTextField> & Partial<Record<NullableTextField, string | null>>;
+}
+
+/** Flattens Zod issues into dotted field paths, e.g. `ingredientGroups.0.ingredients.2.name`. */
+export function toValidationIssues(error: z.ZodError): RecipeValidationIssue[] {
+  return error.issues.map(issue => ({ path: issue.path.join("."), message: issue.message }));
+}
+
+/** Thrown by the recipe context when the server rejects a recipe, carrying the field errors. */
+export class RecipeValidationError extends Error {
+  constructor(message: string, public readonly issues: RecipeValidationIssue[]) {
+    super(message);
+    this.name = "RecipeValidationError";
+  }
+}
+
+/** Translates messages that are translation keys; Zod's own messages are shown as they are. */
+export const translateValidationMessage = (t: (key: string) => string, message: string) =>
+  /^[a-z_]+$/.test(message) ? t(message) : message;
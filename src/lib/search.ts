@@ -0,0 +1,190 @@
+import { prisma } from "@/lib/prisma";
+import type { SearchSnippetPart } from "@/types";
+
+// Letters that Unicode does not decompose into a base letter plus a combining mark,
+// so NFD alone would leave them untouched.
+const FOLDED_LETTERS: Record<string, string> = {
+  æ: "ae",
+  ø: "o",
+  œ: "oe",
+  ß: "ss",
+  đ: "d",
+  ð: "d",
+  ł: "l",
+  þ: "th",
+};
+
+// Column weights for bm25(), in table column order: recipeId, title, description, ingredients, instructions, tips, categories, tags.
+const RANK_WEIGHTS = "0.0, 10.0, 5.0, 3.0, 1.0, 1.0, 3.0, 3.0";
+
+const SNIPPET_CONTEXT_BEFORE = 60;
+const SNIPPET_LENGTH = 180;
+
+const foldChar = (char: string): string => {
+  const lower = char.toLowerCase();
+  return FOLDED_LETTERS[lower] ?? lower.normalize("NFD").replace(/\p{M}/gu, "");
+};
+
+/**
+ * Lowercases text and strips diacritics, mapping letters such as æ/ø/å to their closest
+ * ASCII spelling. Used for both indexed content and queries.
+ */
+export function foldSearchText(text: string): string {
+  return Array.from(text, foldChar).join("");
+}
+
+/**
+ * Like `foldSearchText`, but also returns, for every character of the folded string,
+ * the index of the character in `text` it came from.
+ */
+function foldWithOffsets(text: string): { folded: string; offsets: number[] } {
+  let folded = "";
+  const offsets: number[] = [];
+  let index = 0;
+  for (const char of text) {
+    const replacement = foldChar(char);
+    for (let i = 0; i < replacement.length; i++) {
+      offsets.push(index);
+    }
+    folded += replacement;
+    index += char.length;
+  }
+  offsets.push(index);
+  return { folded, offsets };
+}
+
+export function tokenizeSearchQuery(query: string): string[] {
+  return foldSearchText(query).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/** Builds an FTS5 MATCH expression where every term must appear, matched as a prefix. */
+function buildMatchExpression(terms: string[]): string {
+  return terms.map(term => `"${term}"*`).join(" ");
+}
+
+/** Rewrites the search index row for a recipe from its current content. */
+export async function syncRecipeSearchIndex(recipeId: string): Promise<void> {
+  try {
+    const recipe = await prisma.recipe.findUnique({
+      where: { id: recipeId },
+      include: {
+        ingredientGroups: { include: { ingredients: true } },
+        instructions: true,
+        tips: true,
+        categories: { select: { name: true } },
+        tags: { select: { name: true } },
+      },
+    });
+
+    await prisma.$executeRaw`DELETE FROM "RecipeSearch" WHERE "recipeId" = ${recipeId}`;
+    if (!recipe) return;
+
+    const ingredients = recipe.ingredientGroups
+      .flatMap(group => [group.name ?? "", ...group.ingredients.map(ing => ing.name)])
+      .join(" ");
+
+    await prisma.$executeRaw`
+      INSERT INTO "RecipeSearch" ("recipeId", "title", "description", "ingredients", "instructions", "tips", "categories", "tags")
+      VALUES (
+        ${recipe.id},
+        ${foldSearchText(recipe.title)},
+        ${foldSearchText(recipe.description ?? "")},
+        ${foldSearchText(ingredients)},
+        ${foldSearchText(recipe.instructions.map(step => step.text).join(" "))},
+        ${foldSearchText(recipe.tips.map(tip => tip.text).join(" "))},
+        ${foldSearchText(recipe.categories.map(category => category.name).join(" "))},
+        ${foldSearchText(recipe.tags.map(tag => tag.name).join(" "))}
+      )`;
+  } catch (error) {
+    console.error(`Failed to update search index for recipe ${recipeId}:`, error);
+  }
+}
+
+let indexCheck: Promise<void> | null = null;
+
+/**
+ * Rebuilds the index when it is out of step with the recipe table, e.g. right after
+ * the migration that created it. Runs at most once per server process.
+ */
+function ensureSearchIndex(): Promise<void> {
+  if (!indexCheck) {
+    indexCheck = (async () => {
+      const [indexed] = await prisma.$queryRaw<{ count: bigint }[]>`SELECT COUNT(*) AS count FROM "RecipeSearch"`;
+      const recipeCount = await prisma.recipe.count();
+      if (Number(indexed.count) === recipeCount) return;
+
+      await prisma.$executeRaw`DELETE FROM "RecipeSearch"`;
+      const recipes = await prisma.recipe.findMany({ select: { id: true } });
+      for (const recipe of recipes) {
+        await syncRecipeSearchIndex(recipe.id);
+      }
+    })().catch(error => {
+      indexCheck = null;
+      throw error;
+    });
+  }
+  return indexCheck;
+}
+
+/** Returns the ids of every recipe matching all query terms, best match first. */
+export async function searchRecipeIds(query: string): Promise<string[]> {
+  const terms = tokenizeSearchQuery(query);
+  if (terms.length === 0) return [];
+
+  await ensureSearchIndex();
+  const rows = await prisma.$queryRawUnsafe<{ recipeId: string }[]>(
+    `SELECT "recipeId" FROM "RecipeSearch" WHERE "RecipeSearch" MATCH ? ORDER BY bm25("RecipeSearch", ${RANK_WEIGHTS})`,
+    buildMatchExpression(terms)
+  );
+  return rows.map(row => row.recipeId);
+}
+
+/**
+ * Picks the first of `fields` containing a query term and returns a short excerpt of it
+ * around the match, split into parts so matched terms can be highlighted.
+ */
+export function buildSearchSnippet(fields: string[], terms: string[]): SearchSnippetPart[] | null {
+  if (terms.length === 0) return null;
+  const termPattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join("|")})[\\p{L}\\p{N}]*`, "gu");
+
+  for (const field of fields) {
+    if (!field) continue;
+    const { folded, offsets } = foldWithOffsets(field);
+    const matches = Array.from(folded.matchAll(termPattern));
+    if (matches.length === 0) continue;
+
+    const firstMatch = offsets[matches[0].index!];
+    let start = Math.max(0, firstMatch - SNIPPET_CONTEXT_BEFORE);
+    if (start > 0) {
+      const nextSpace = field.indexOf(" ", start);
+      start = nextSpace === -1 || nextSpace >= firstMatch ? start : nextSpace + 1;
+    }
+    let end = Math.min(field.length, start + SNIPPET_LENGTH);
+    if (end < field.length) {
+      const lastSpace = field.lastIndexOf(" ", end);
+      end = lastSpace > firstMatch ? lastSpace : end;
+    }
+
+    const parts: SearchSnippetPart[] = [];
+    let cursor = start;
+    for (const match of matches) {
+      const matchStart = offsets[match.index!];
+      const matchEnd = offsets[match.index! + match[0].length];
+      if (matchStart < cursor) continue;
+      if (matchEnd > end) break;
+      if (matchStart > cursor) parts.push({ text: field.slice(cursor, matchStart), match: false });
+      parts.push({ text: field.slice(matchStart, matchEnd), match: true });
+      cursor = matchEnd;
+    }
+    if (cursor < end) parts.push({ text: field.slice(cursor, end), match: false });
+
+    if (start > 0) parts.unshift({ text: "…", match: false });
+    if (end < field.length) parts.push({ text: "…", match: false });
+    return parts;
+  }
+  return null;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
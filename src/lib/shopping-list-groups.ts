@@ -0,0 +1,109 @@
+import type { ShoppingListItem } from "@/types";
+import type { siteConfig } from "@/config/site";
+import { formatParsedQuantity, parseQuantity } from "@/lib/quantity";
+import { findUnit, pickTargetUnit, type UnitSystem } from "@/lib/units";
+
+type LanguageCode = typeof siteConfig.locales[number];
+
+export interface ShoppingListGroup {
+  key: string; // Normalized ingredient name shared by every item in the group
+  name: string; // Display name, taken from the first item added
+  amounts: string[]; // Summed amounts, one per set of units that could not be combined
+  items: ShoppingListItem[];
+  isChecked: boolean; // True when every item in the group is checked
+}
+
+/**
+ * Reduces an ingredient name to a key for grouping: "Melk", "melk (lett)" and "melk, kald"
+ * all become "melk", and simple English plurals are dropped so "onions" matches "onion".
+ */
+export function normalizeIngredientName(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .replace(/\(.*?\)/g, "")
+    .split(",")[0]
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/(?<=[a-z]{3})(es|s)$/, "");
+}
+
+interface AmountBucket {
+  min: number;
+  max: number;
+  unit: string; // Unit as written on the first item, for count and unknown units
+  votes: Record<UnitSystem, number>; // Which system the contributing items were written in
+}
+
+/**
+ * Sums the amounts of items that share an ingredient. Volumes and weights are added up
+ * across units (2 dl + 1 l = 1,2 l), count and unknown units only with themselves, and
+ * amounts that aren't numeric ("en klype") are listed as written.
+ */
+export function sumItemAmounts(items: ShoppingListItem[], language: LanguageCode): string[] {
+  const buckets = new Map<string, AmountBucket>();
+  const textAmounts: string[] = [];
+
+  items.forEach(item => {
+    const quantity = parseQuantity(item.quantity);
+    if (quantity.kind === "empty" && !item.unit) return;
+    if (quantity.kind !== "number" && quantity.kind !== "range") {
+      textAmounts.push([item.quantity, item.unit].filter(Boolean).join(" "));
+      return;
+    }
+
+    const unit = findUnit(item.unit);
+    const measurable = unit && unit.kind !== "count";
+    const key = measurable ? unit.kind : `unit:${unit?.id ?? item.unit.trim().toLowerCase()}`;
+    const factor = measurable ? unit.factor : 1;
+    const bucket = buckets.get(key) ?? { min: 0, max: 0, unit: item.unit, votes: { metric: 0, us: 0 } };
+    bucket.min += (quantity.kind === "range" ? quantity.min : quantity.value) * factor;
+    bucket.max += (quantity.kind === "range" ? quantity.max : quantity.value) * factor;
+    if (unit?.system) bucket.votes[unit.system]++;
+    buckets.set(key, bucket);
+  });
+
+  const amounts = Array.from(buckets.entries()).map(([key, bucket]) => {
+    if (key === "volume" || key === "weight") {
+      // Totals are shown in whichever system most of the items were written in.
+      const system: UnitSystem = bucket.votes.us > bucket.votes.metric ? "us" : "metric";
+      const unit = pickTargetUnit(system, key, bucket.max);
+      const quantity = formatParsedQuantity(
+        bucket.min === bucket.max
+          ? { kind: "number", value: bucket.max / unit.factor }
+          : { kind: "range", min: bucket.min / unit.factor, max: bucket.max / unit.factor },
+        { language, fractions: unit.fractions }
+      );
+      return `${quantity} ${unit.labels[language]}`;
+    }
+    const quantity = formatParsedQuantity(
+      bucket.min === bucket.max ? { kind: "number", value: bucket.min } : { kind: "range", min: bucket.min, max: bucket.max },
+      { language }
+    );
+    return [quantity, bucket.unit].filter(Boolean).join(" ");
+  });
+
+  return [...amounts, ...textAmounts];
+}
+
+/**
+ * Groups shopping list items by ingredient. Keys listed in `splitKeys` are not merged:
+ * each of their items becomes a group of its own.
+ */
+export function groupShoppingListItems(items: ShoppingListItem[], language: LanguageCode, splitKeys: Set<string> = new Set()): ShoppingListGroup[] {
+  const groups = new Map<string, ShoppingListItem[]>();
+  items.forEach(item => {
+    const normalizedName = normalizeIngredientName(item.name);
+    const key = splitKeys.has(normalizedName) ? `${normalizedName}#${item.id}` : normalizedName;
+    groups.set(key, [...(groups.get(key) ?? []), item]);
+  });
+
+  return Array.from(groups.entries()).map(([key, groupItems]) => ({
+    key,
+    name: groupItems[0].name,
+    amounts: sumItemAmounts(groupItems, language),
+    items: groupItems,
+    isChecked: groupItems.every(item => item.isChecked),
+  }));
+}
@@ -0,0 +1,21 @@
+import { prisma } from "@/lib/prisma";
+
+/** Every user has a single shopping list, created the first time it is needed. */
+export async function getOrCreateShoppingList(userId: string) {
+  return prisma.shoppingList.upsert({
+    where: { userId },
+    update: {},
+    create: { userId },
+  });
+}
+
+export const shoppingListItemSelect = {
+  id: true,
+  name: true,
+  quantity: true,
+  unit: true,
+  isChecked: true,
+  recipeId: true,
+  recipeTitle: true,
+  position: true,
+} as const;
@@ -0,0 +1,108 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { extractPageContent, looksLikeHtml, parseRecipeYield, parseStructuredRecipe } from "@/lib/structured-recipe";
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, "__fixtures__", "structured-recipe", name), "utf8");
+
+describe("parseStructuredRecipe", () => {
+  it("reads a JSON-LD Recipe from a @graph, with sections, tips, times and yield", () => {
+    const recipe = parseStructuredRecipe(fixture("json-ld-graph.html"));
+
+    expect(recipe).toMatchObject({
+      title: "Kanelboller med vaniljekrem",
+      description: "Myke kanelboller med vaniljekrem i midten & perlesukker på toppen.",
+      servingsValue: 16,
+      servingsUnit: "pieces",
+      prepTime: "40 min",
+      cookTime: "1 h 35 min", // totalTime minus prepTime, as the page gives no cookTime
+      tags: "kanelboller, vaniljekrem, gærbakst",
+      categories: "Bakst, Boller, Norsk",
+      sourceUrl: "https://bakeglede.example/oppskrifter/kanelboller-med-vaniljekrem/",
+      extractedImageUrl: "https://bakeglede.example/wp-content/uploads/2024/09/kanelboller-1x1.jpg",
+    });
+    const ingredients = recipe!.ingredientGroups[0].ingredients;
+    expect(ingredients).toHaveLength(9);
+    expect(ingredients[0]).toEqual({ name: "smør", quantity: "150", unit: "g" });
+    expect(ingredients[5]).toEqual({ name: "salt", quantity: "½", unit: "ts" });
+    expect(ingredients[6]).toEqual({ name: "hvetemel", quantity: "ca. 14", unit: "dl" });
+
+    const steps = recipe!.instructions.map(step => step.text);
+    expect(steps).toHaveLength(6);
+    expect(steps[0]).toBe("Deig: Smelt smøret og tilsett melken. Varm til fingervarm, ca. 37 °C.");
+    expect(steps[3]).toMatch(/^Fyll og steking: Kjevle ut deigen/);
+    expect(steps[5]).toBe("Pensle med egg og stek midt i ovnen på 225 °C i 10–12 minutter.");
+    expect(recipe!.tips).toEqual([{ text: "Bollene kan fryses og varmes opp igjen i ovnen." }]);
+  });
+
+  it("falls back to microdata when the JSON-LD is broken, without mixing in nested items", () => {
+    const recipe = parseStructuredRecipe(fixture("microdata.html"), "https://sundaykitchen.example/pancakes");
+
+    expect(recipe).toMatchObject({
+      title: "Classic Buttermilk Pancakes", // Not the author's name from the nested Person item
+      description: "Fluffy pancakes with a golden crust, ready in half an hour.",
+      servingsValue: 12,
+      servingsUnit: "servings",
+      prepTime: "10 min",
+      cookTime: "20 min",
+      tags: "pancakes, buttermilk, brunch",
+      categories: "Breakfast, American",
+      sourceUrl: "https://sundaykitchen.example/pancakes",
+      extractedImageUrl: "https://sundaykitchen.example/images/pancakes.jpg",
+    });
+    expect(recipe!.ingredientGroups[0].ingredients).toEqual([
+      { name: "all-purpose flour", quantity: "2", unit: "cups" },
+      { name: "sugar", quantity: "2", unit: "tbsp" },
+      { name: "baking powder", quantity: "1 ½", unit: "tsp" },
+      { name: "buttermilk", quantity: "2", unit: "cups" },
+      { name: "large eggs", quantity: "2", unit: "" },
+      { name: "butter, melted", quantity: "3", unit: "tbsp" },
+    ]);
+    expect(recipe!.instructions).toHaveLength(3);
+    expect(recipe!.instructions[2].text).toBe("Cook ¼ cup portions on a hot griddle until bubbles form, then flip and cook until golden.");
+  });
+
+  it("returns null for a page without recipe data", () => {
+    expect(parseStructuredRecipe(fixture("no-recipe.html"))).toBeNull();
+  });
+});
+
+describe("parseRecipeYield", () => {
+  it("reads numbers and tells servings from pieces", () => {
+    expect(parseRecipeYield(6)).toEqual({ servingsValue: 6, servingsUnit: "servings" });
+    expect(parseRecipeYield("4 porsjoner")).toEqual({ servingsValue: 4, servingsUnit: "servings" });
+    expect(parseRecipeYield("12 muffins")).toEqual({ servingsValue: 12, servingsUnit: "pieces" });
+    expect(parseRecipeYield(["16", "16 stk"])).toEqual({ servingsValue: 16, servingsUnit: "pieces" });
+    expect(parseRecipeYield("unas cuantas")).toEqual({});
+  });
+});
+
+describe("extractPageContent", () => {
+  it("keeps the article and leaves out navigation, sidebars, footers and scripts", () => {
+    const { text, imageUrl } = extractPageContent(fixture("no-recipe.html"), "https://cocinadelucia.example/tortilla");
+
+    expect(text.split("\n")[0]).toBe("La tortilla de mi abuela"); // The page title, as the article has no heading
+    expect(text).toContain("Ingredientes\n6 huevos\n4 patatas medianas");
+    expect(text).toContain("cuaja la tortilla por ambos lados.");
+    for (const furniture of ["Inicio", "Lo más leído", "Privacidad", "dataLayer", "font-family"]) {
+      expect(text).not.toContain(furniture);
+    }
+    expect(imageUrl).toBe("https://cocinadelucia.example/fotos/tortilla.jpg");
+  });
+
+  it("prefers the recipe's own microdata block over the rest of the page", () => {
+    const { text } = extractPageContent(fixture("microdata.html"), "https://sundaykitchen.example/pancakes");
+
+    expect(text).toContain("Classic Buttermilk Pancakes");
+    expect(text).toContain("2 cups all-purpose flour");
+    expect(text).not.toContain("Home | Breakfast"); // The navigation bar
+    expect(text).not.toContain("Sunday Kitchen ©");
+  });
+});
+
+describe("looksLikeHtml", () => {
+  it("tells documents from pasted recipes", () => {
+    expect(looksLikeHtml(fixture("no-recipe.html"))).toBe(true);
+    expect(looksLikeHtml("Pannekaker\n\n3 egg\n5 dl melk")).toBe(false);
+  });
+});
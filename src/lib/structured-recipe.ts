@@ -0,0 +1,264 @@
+/**
+ * Reads schema.org Recipe data embedded in a web page, either as JSON-LD
+ * (`<script type="application/ld+json">`) or as microdata (`itemtype=".../Recipe"`),
+ * and maps it onto the same shape the AI recipe parser returns. Most recipe sites
+ * publish this data for search engines, so it is a cheap and exact first attempt
+ * before falling back to the AI.
+ */
+
+import { parse, HTMLElement } from "node-html-parser";
+import type { ParseRecipeOutput } from "@/ai/flows/parse-recipe-from-text-flow";
+import { parseIngredientLine } from "@/lib/ingredient-line";
+import { formatDurationMinutes, parseDurationMinutes } from "@/lib/duration";
+
+type SchemaNode = Record<string, any>;
+
+// Yield words that mean the recipe makes a number of items rather than portions.
+const PIECES_PATTERN = /\b(stk|stykker|pieces?|pcs|biter|cookies|muffins|buns|boller|unidades|piezas)\b/i;
+
+const asArray = <T,>(value: T | T[] | null | undefined): T[] =>
+  value === null || value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+const hasType = (node: SchemaNode, type: string) =>
+  asArray(node["@type"]).some(value => typeof value === "string" && value.replace(/^.*[/:]/, "") === type);
+
+// Values may contain markup or entities ("Fish &amp; chips", "<p>Mix</p>"); reduce them to plain text.
+const cleanText = (value: unknown): string => {
+  if (typeof value !== "string" && typeof value !== "number") return "";
+  return parse(`<div>${value}</div>`).text.replace(/\s+/g, " ").trim();
+};
+
+const resolveUrl = (url: string, baseUrl?: string) => {
+  try {
+    return new URL(url, baseUrl).toString();
+  } catch {
+    return url;
+  }
+};
+
+/** Walks parsed JSON-LD (arrays, `@graph`, `mainEntity`) looking for Recipe nodes. */
+function findRecipeNodes(data: unknown): SchemaNode[] {
+  if (Array.isArray(data)) return data.flatMap(findRecipeNodes);
+  if (!data || typeof data !== "object") return [];
+  const node = data as SchemaNode;
+  if (hasType(node, "Recipe")) return [node];
+  return [...findRecipeNodes(node["@graph"]), ...findRecipeNodes(node.mainEntity)];
+}
+
+function readJsonLd(root: HTMLElement): SchemaNode[] {
+  return root.querySelectorAll('script[type="application/ld+json"]').flatMap(script => {
+    const json = script.rawText.trim().replace(/^<!--|-->$/g, "").replace(/^\s*\/\/<!\[CDATA\[|\/\/\]\]>\s*$/g, "");
+    try {
+      return findRecipeNodes(JSON.parse(json));
+    } catch {
+      return []; // Sites sometimes ship broken JSON-LD; microdata may still be there
+    }
+  });
+}
+
+// Microdata values live in different attributes depending on the element.
+function readMicrodataValue(element: HTMLElement): string {
+  const attribute = ["content", "datetime"].find(name => element.hasAttribute(name));
+  if (attribute) return element.getAttribute(attribute) ?? "";
+  if (["img", "source", "video", "audio"].includes(element.tagName.toLowerCase())) return element.getAttribute("src") ?? "";
+  if (["a", "link"].includes(element.tagName.toLowerCase())) return element.getAttribute("href") ?? "";
+  return element.text;
+}
+
+/** Converts an element with `itemscope` into a JSON-LD-like node of its own properties. */
+function readMicrodataItem(item: HTMLElement): SchemaNode {
+  const node: SchemaNode = { "@type": (item.getAttribute("itemtype") ?? "").split(/\s+/) };
+  const visit = (element: HTMLElement) => {
+    element.childNodes.forEach(child => {
+      if (!(child instanceof HTMLElement)) return;
+      const props = (child.getAttribute("itemprop") ?? "").split(/\s+/).filter(Boolean);
+      const isScope = child.hasAttribute("itemscope");
+      if (props.length > 0) {
+        const value = isScope ? readMicrodataItem(child) : readMicrodataValue(child);
+        props.forEach(prop => {
+          node[prop] = node[prop] === undefined ? value : [...asArray(node[prop]), value];
+        });
+      }
+      // Properties inside a nested item belong to that item, not to this one.
+      if (!isScope) visit(child);
+    });
+  };
+  visit(item);
+  return node;
+}
+
+function readMicrodata(root: HTMLElement): SchemaNode[] {
+  return root
+    .querySelectorAll("[itemscope][itemtype]")
+    .filter(element => /schema\.org\/Recipe$/i.test(element.getAttribute("itemtype") ?? ""))
+    .map(readMicrodataItem);
+}
+
+interface InstructionParts {
+  steps: string[];
+  tips: string[];
+}
+
+/**
+ * Flattens recipeInstructions, which may be plain text, a list of strings, HowToStep
+ * objects or HowToSections of steps. The first step of a named section is prefixed with
+ * the section name so the grouping survives in our flat list of steps.
+ */
+function readInstructions(value: unknown, parts: InstructionParts = { steps: [], tips: [] }): InstructionParts {
+  asArray(value).forEach(entry => {
+    if (typeof entry === "string") {
+      // Plain-text instructions are often one string with a step per line or paragraph.
+      entry.split(/\n+|<br\s*\/?>|<\/p>/i).map(cleanText).filter(Boolean).forEach(step => parts.steps.push(step));
+    } else if (entry && typeof entry === "object") {
+      const node = entry as SchemaNode;
+      if (hasType(node, "HowToSection") || (node.itemListElement && !node.text)) {
+        const sectionStart = parts.steps.length;
+        readInstructions(node.itemListElement, parts);
+        const sectionName = cleanText(node.name);
+        if (sectionName && parts.steps.length > sectionStart) {
+          parts.steps[sectionStart] = `${sectionName}: ${parts.steps[sectionStart]}`;
+        }
+      } else if (hasType(node, "HowToTip")) {
+        const tip = cleanText(node.text ?? node.name);
+        if (tip) parts.tips.push(tip);
+      } else {
+        const step = cleanText(node.text ?? node.name ?? node.description);
+        if (step) parts.steps.push(step);
+      }
+    }
+  });
+  return parts;
+}
+
+/**
+ * Reads a yield such as "4 servings", "12 muffins" or 6 into a number of servings or pieces.
+ * Sites often list the bare number first (`["16", "16 stk"]`), so every entry is checked for the unit.
+ */
+export function parseRecipeYield(value: unknown): Pick<ParseRecipeOutput, "servingsValue" | "servingsUnit"> {
+  const texts = asArray(value).map(entry => (typeof entry === "number" ? String(entry) : cleanText(entry)));
+  const number = texts.map(text => text.match(/\d+/)).find(match => match !== null);
+  if (!number) return {};
+  return { servingsValue: parseInt(number[0], 10), servingsUnit: texts.some(text => PIECES_PATTERN.test(text)) ? "pieces" : "servings" };
+}
+
+function readImage(value: unknown, baseUrl?: string): string | undefined {
+  for (const entry of asArray(value)) {
+    const url = typeof entry === "string" ? entry : (entry as SchemaNode)?.url ?? (entry as SchemaNode)?.contentUrl;
+    if (typeof url === "string" && url.trim()) return resolveUrl(url.trim(), baseUrl);
+  }
+  return undefined;
+}
+
+const readDuration = (value: unknown) => {
+  const minutes = parseDurationMinutes(cleanText(asArray(value)[0]));
+  return minutes ? formatDurationMinutes(minutes) : undefined;
+};
+
+const readList = (...values: unknown[]) => {
+  const items = values.flatMap(value => asArray(value)).flatMap(entry => cleanText(entry).split(","));
+  const unique = Array.from(new Set(items.map(item => item.trim()).filter(Boolean)));
+  return unique.length > 0 ? unique.join(", ") : undefined;
+};
+
+function toParseRecipeOutput(recipe: SchemaNode, baseUrl?: string): ParseRecipeOutput | null {
+  const title = cleanText(recipe.name ?? recipe.headline);
+  const ingredients = asArray(recipe.recipeIngredient ?? recipe.ingredients)
+    .map(cleanText)
+    .filter(Boolean)
+    .map(parseIngredientLine);
+  const { steps, tips } = readInstructions(recipe.recipeInstructions);
+  if (!title || (ingredients.length === 0 && steps.length === 0)) return null;
+
+  // Sites often give only prep and total time; the difference is the cooking time.
+  const prepMinutes = parseDurationMinutes(cleanText(asArray(recipe.prepTime)[0]));
+  const totalMinutes = parseDurationMinutes(cleanText(asArray(recipe.totalTime)[0]));
+  const cookTime = readDuration(recipe.cookTime)
+    ?? (prepMinutes && totalMinutes && totalMinutes > prepMinutes ? formatDurationMinutes(totalMinutes - prepMinutes) : undefined);
+
+  const url = typeof recipe.url === "string" ? resolveUrl(recipe.url, baseUrl) : undefined;
+
+  return {
+    title,
+    description: cleanText(recipe.description) || undefined,
+    ingredientGroups: ingredients.length > 0 ? [{ name: "", ingredients }] : [],
+    instructions: steps.map(text => ({ text })),
+    tips: tips.length > 0 ? tips.map(text => ({ text })) : undefined,
+    ...parseRecipeYield(recipe.recipeYield ?? recipe.yield),
+    prepTime: readDuration(recipe.prepTime),
+    cookTime,
+    tags: readList(recipe.keywords),
+    categories: readList(recipe.recipeCategory, recipe.recipeCuisine),
+    sourceUrl: baseUrl ?? (url?.startsWith("http") ? url : undefined),
+    extractedImageUrl: readImage(recipe.image ?? recipe.thumbnailUrl, baseUrl),
+  };
+}
+
+/** The visible text of an HTML document, for handing a page without recipe data to the AI parser. */
+export function htmlToPlainText(html: string): string {
+  const root = parse(html);
+  root.querySelectorAll("script, style, noscript, svg").forEach(element => element.remove());
+  return (root.querySelector("body") ?? root).text.replace(/[ \t]+/g, " ").replace(/\s*\n\s*/g, "\n").trim();
+}
+
+// Page furniture that never holds the recipe.
+const NON_CONTENT_SELECTOR = "script, style, noscript, svg, iframe, template, form, nav, header, footer, aside, [role=navigation], [aria-hidden=true]";
+// Where the recipe usually sits, most specific first.
+const MAIN_CONTENT_SELECTORS = ['[itemtype*="schema.org/Recipe"]', "article", "main", "[role=main]", "#content", ".content"];
+// Anything much shorter is likely a teaser box rather than the recipe itself.
+const MIN_CONTENT_LENGTH = 200;
+// Keeps long pages (comments, related recipes) within what the AI parser reads in one go.
+const MAX_CONTENT_LENGTH = 20_000;
+
+/**
+ * The text of a fetched page's main content, with navigation, headers, footers and the like
+ * left out, plus the page's `og:image`. This is what the AI parser gets for pages without
+ * recipe data.
+ */
+export function extractPageContent(html: string, pageUrl: string): { text: string; imageUrl?: string } {
+  const root = parse(html);
+  const ogImage = root.querySelector('meta[property="og:image"], meta[name="og:image"]')?.getAttribute("content")?.trim();
+  const title = root.querySelector("title")?.text.trim();
+  root.querySelectorAll(NON_CONTENT_SELECTOR).forEach(element => element.remove());
+
+  // `structuredText` puts block elements on lines of their own, so headings don't run into the text after them.
+  const toText = (element: HTMLElement) => element.structuredText.replace(/[ \t]+/g, " ").replace(/\s*\n\s*/g, "\n").trim();
+  const body = root.querySelector("body") ?? root;
+  const main = MAIN_CONTENT_SELECTORS.map(selector => root.querySelector(selector))
+    .find((element): element is HTMLElement => !!element && toText(element).length >= MIN_CONTENT_LENGTH);
+  let text = toText(main ?? body);
+  // The recipe's name is often only in the page title when the content block has no heading.
+  if (title && !text.includes(title)) text = `${title}\n${text}`;
+
+  return {
+    text: text.slice(0, MAX_CONTENT_LENGTH),
+    imageUrl: ogImage ? resolveUrl(ogImage, pageUrl) : undefined,
+  };
+}
+
+/** True when the text looks like an HTML document rather than a pasted recipe or a URL. */
+export function looksLikeHtml(text: string): boolean {
+  return /<(html|head|body|script|meta|div)[\s>]/i.test(text);
+}
+
+/**
+ * Extracts the first schema.org Recipe found in an HTML document, preferring JSON-LD over
+ * microdata. `sourceUrl` is used to resolve relative image links and is returned as the
+ * recipe's source. Returns null when the page has no usable recipe data.
+ */
+export function parseStructuredRecipe(html: string, sourceUrl?: string): ParseRecipeOutput | null {
+  const root = parse(html, { blockTextElements: { script: true, style: false, noscript: false, pre: true } });
+  const pageUrl = sourceUrl
+    ?? root.querySelector('link[rel="canonical"]')?.getAttribute("href")
+    ?? root.querySelector('meta[property="og:url"]')?.getAttribute("content")
+    ?? undefined;
+
+  for (const node of [...readJsonLd(root), ...readMicrodata(root)]) {
+    const recipe = toParseRecipeOutput(node, pageUrl);
+    if (recipe) {
+      const ogImage = root.querySelector('meta[property="og:image"]')?.getAttribute("content");
+      recipe.extractedImageUrl ??= ogImage ? resolveUrl(ogImage, pageUrl) : undefined;
+      return recipe;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,24 @@
+/**
+ * Translations for text produced on the server (exports, calendar feeds), where the
+ * `useTranslation` hook isn't available. Keys missing in a language fall back to English.
+ */
+
+import en from "@/locales/en.json";
+import es from "@/locales/es.json";
+import no from "@/locales/no.json";
+
+export type TranslationKey = keyof typeof en;
+export type Translate = (key: TranslationKey) => string;
+
+const translations: Record<string, Partial<Record<TranslationKey, string>>> = {
+  en,
+  es,
+  no,
+};
+
+export function getTranslation(lang: string, key: TranslationKey): string {
+  return translations[lang]?.[key] || en[key];
+}
+
+/** A `t` function for one language, to hand to the export builders. */
+export const translatorFor = (lang: string): Translate => key => getTranslation(lang, key);
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { convertAmount, findUnit, lookupDensity } from "@/lib/units";
+
+describe("findUnit", () => {
+  it("recognises units however they are written", () => {
+    expect(findUnit("Desiliter")?.id).toBe("dl");
+    expect(findUnit("tbsp.")?.id).toBe("tbsp");
+    expect(findUnit("cucharadas")?.id).toBe("ss");
+    expect(findUnit("T")?.id).toBe("tbsp");
+    expect(findUnit("t")?.id).toBe("tsp");
+    expect(findUnit("handful")).toBeNull();
+  });
+});
+
+describe("lookupDensity", () => {
+  it("matches ingredient names as whole words in each language", () => {
+    expect(lookupDensity("Flour")).toBe(0.53);
+    expect(lookupDensity("mel")).toBe(0.6);
+    expect(lookupDensity("azúcar moreno")).toBe(0.83);
+    expect(lookupDensity("brown sugar, packed")).toBe(0.83);
+  });
+
+  it("matches Norwegian compounds", () => {
+    expect(lookupDensity("hvetemel")).toBe(0.6);
+    expect(lookupDensity("kremfløte")).toBe(1);
+    expect(lookupDensity("rapsolje")).toBe(0.92);
+    expect(lookupDensity("farinsukker")).toBe(0.85);
+  });
+
+  it("doesn't match words that merely end like a known ingredient", () => {
+    expect(lookupDensity("caramel")).toBeNull();
+    expect(lookupDensity("caramel sauce")).toBeNull();
+    expect(lookupDensity("oatmeal")).toBeNull();
+    expect(lookupDensity("basil")).toBeNull();
+  });
+});
+
+describe("convertAmount", () => {
+  it("converts between unit systems and adds a weight for known ingredients", () => {
+    expect(convertAmount("2", "dl", "hvetemel", "metric", "no")).toEqual({ quantity: "2", unit: "dl", weight: "120 g" });
+    expect(convertAmount("1", "cup", "water", "metric", "en")).toEqual({ quantity: "2⅓", unit: "dl", weight: "235 g" });
+  });
+
+  it("leaves amounts of unknown ingredients without a weight", () => {
+    expect(convertAmount("1", "dl", "caramel", "metric", "en")).toEqual({ quantity: "1", unit: "dl" });
+  });
+});
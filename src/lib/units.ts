@@ -0,0 +1,192 @@
+/**
+ * Measurement units used in ingredient lists: recognising the many ways a unit is
+ * written in English, Norwegian and Spanish, and converting amounts between metric
+ * and US customary units.
+ */
+
+import type { siteConfig } from "@/config/site";
+import { formatParsedQuantity, parseQuantity, scaleParsedQuantity, type ParsedQuantity } from "@/lib/quantity";
+import type { UnitDisplayPreference } from "@/types";
+
+type LanguageCode = typeof siteConfig.locales[number];
+
+export type UnitSystem = Exclude<UnitDisplayPreference, "original">;
+export type UnitKind = "volume" | "weight" | "count";
+
+export interface UnitDefinition {
+  id: string;
+  kind: UnitKind;
+  system: UnitSystem | null; // null for count units, which exist in both systems
+  factor: number; // Millilitres (volume) or grams (weight) per unit; 1 for count units
+  fractions: boolean; // Whether amounts in this unit are usually written with fractions
+  labels: Record<LanguageCode, string>;
+  aliases: string[]; // Matched case-insensitively, after stripping a trailing period
+  caseSensitiveAliases?: string[];
+}
+
+export const UNITS: UnitDefinition[] = [
+  // Metric volume
+  { id: "ml", kind: "volume", system: "metric", factor: 1, fractions: false, labels: { en: "ml", no: "ml", es: "ml" }, aliases: ["ml", "milliliter", "milliliters", "millilitre", "millilitres", "mililitro", "mililitros"] },
+  { id: "krm", kind: "volume", system: "metric", factor: 1, fractions: true, labels: { en: "pinch (1 ml)", no: "krm", es: "pizca (1 ml)" }, aliases: ["krm", "kryddermål"] },
+  { id: "cl", kind: "volume", system: "metric", factor: 10, fractions: false, labels: { en: "cl", no: "cl", es: "cl" }, aliases: ["cl", "centiliter", "centilitre", "centilitro", "centilitros"] },
+  { id: "ts", kind: "volume", system: "metric", factor: 5, fractions: true, labels: { en: "tsp", no: "ts", es: "cdta" }, aliases: ["ts", "teskje", "teskjeer", "cdta", "cdtas", "cucharadita", "cucharaditas"] },
+  { id: "ss", kind: "volume", system: "metric", factor: 15, fractions: true, labels: { en: "tbsp", no: "ss", es: "cda" }, aliases: ["ss", "spiseskje", "spiseskjeer", "cda", "cdas", "cucharada", "cucharadas"] },
+  { id: "dl", kind: "volume", system: "metric", factor: 100, fractions: true, labels: { en: "dl", no: "dl", es: "dl" }, aliases: ["dl", "desiliter", "deciliter", "decilitre", "decilitro", "decilitros"] },
+  { id: "l", kind: "volume", system: "metric", factor: 1000, fractions: true, labels: { en: "l", no: "l", es: "l" }, aliases: ["l", "liter", "liters", "litre", "litres", "litro", "litros"] },
+  // US customary volume
+  { id: "tsp", kind: "volume", system: "us", factor: 4.92892, fractions: true, labels: { en: "tsp", no: "ts (US)", es: "cdta (EE. UU.)" }, aliases: ["tsp", "tsps", "teaspoon", "teaspoons"], caseSensitiveAliases: ["t"] },
+  { id: "tbsp", kind: "volume", system: "us", factor: 14.7868, fractions: true, labels: { en: "tbsp", no: "ss (US)", es: "cda (EE. UU.)" }, aliases: ["tbsp", "tbsps", "tbs", "tablespoon", "tablespoons"], caseSensitiveAliases: ["T", "Tbsp"] },
+  { id: "floz", kind: "volume", system: "us", factor: 29.5735, fractions: true, labels: { en: "fl oz", no: "fl oz", es: "fl oz" }, aliases: ["fl oz", "fl. oz", "fluid ounce", "fluid ounces", "onza líquida", "onzas líquidas"] },
+  { id: "cup", kind: "volume", system: "us", factor: 236.588, fractions: true, labels: { en: "cup", no: "cup", es: "taza" }, aliases: ["cup", "cups", "c", "kopp", "kopper", "taza", "tazas"] },
+  { id: "pint", kind: "volume", system: "us", factor: 473.176, fractions: true, labels: { en: "pint", no: "pint", es: "pinta" }, aliases: ["pint", "pints", "pt", "pinta", "pintas"] },
+  { id: "quart", kind: "volume", system: "us", factor: 946.353, fractions: true, labels: { en: "quart", no: "quart", es: "cuarto de galón" }, aliases: ["quart", "quarts", "qt"] },
+  { id: "gallon", kind: "volume", system: "us", factor: 3785.41, fractions: true, labels: { en: "gallon", no: "gallon", es: "galón" }, aliases: ["gallon", "gallons", "gal", "galón", "galones"] },
+  // Weight
+  { id: "mg", kind: "weight", system: "metric", factor: 0.001, fractions: false, labels: { en: "mg", no: "mg", es: "mg" }, aliases: ["mg", "milligram", "milligrams", "milligramme", "miligramo", "miligramos"] },
+  { id: "g", kind: "weight", system: "metric", factor: 1, fractions: false, labels: { en: "g", no: "g", es: "g" }, aliases: ["g", "gr", "gram", "grams", "gramme", "grammes", "gramo", "gramos"] },
+  { id: "hg", kind: "weight", system: "metric", factor: 100, fractions: true, labels: { en: "hg", no: "hg", es: "hg" }, aliases: ["hg", "hekto", "hektogram"] },
+  { id: "kg", kind: "weight", system: "metric", factor: 1000, fractions: true, labels: { en: "kg", no: "kg", es: "kg" }, aliases: ["kg", "kilo", "kilos", "kilogram", "kilograms", "kilogramme", "kilogramo", "kilogramos"] },
+  { id: "oz", kind: "weight", system: "us", factor: 28.3495, fractions: true, labels: { en: "oz", no: "oz", es: "oz" }, aliases: ["oz", "ounce", "ounces", "unse", "unser", "onza", "onzas"] },
+  { id: "lb", kind: "weight", system: "us", factor: 453.592, fractions: true, labels: { en: "lb", no: "lb", es: "lb" }, aliases: ["lb", "lbs", "pound", "pounds", "pund", "libra", "libras"] },
+  // Count
+  { id: "pcs", kind: "count", system: null, factor: 1, fractions: true, labels: { en: "pcs", no: "stk", es: "ud." }, aliases: ["stk", "stykk", "stykker", "pc", "pcs", "piece", "pieces", "ud", "uds", "unidad", "unidades", "pieza", "piezas"] },
+  { id: "clove", kind: "count", system: null, factor: 1, fractions: true, labels: { en: "clove", no: "fedd", es: "diente" }, aliases: ["clove", "cloves", "fedd", "diente", "dientes"] },
+  { id: "pinch", kind: "count", system: null, factor: 1, fractions: true, labels: { en: "pinch", no: "klype", es: "pizca" }, aliases: ["pinch", "pinches", "klype", "klyper", "pizca", "pizcas"] },
+  { id: "package", kind: "count", system: null, factor: 1, fractions: true, labels: { en: "package", no: "pakke", es: "paquete" }, aliases: ["package", "packages", "pkg", "pack", "pakke", "pakker", "pk", "pakn", "paquete", "paquetes"] },
+  { id: "can", kind: "count", system: null, factor: 1, fractions: true, labels: { en: "can", no: "boks", es: "lata" }, aliases: ["can", "cans", "tin", "tins", "boks", "bokser", "lata", "latas"] },
+  { id: "bunch", kind: "count", system: null, factor: 1, fractions: true, labels: { en: "bunch", no: "bunt", es: "manojo" }, aliases: ["bunch", "bunches", "bunt", "bunter", "manojo", "manojos"] },
+];
+
+const unitsById = new Map(UNITS.map(unit => [unit.id, unit]));
+const unitsByAlias = new Map(UNITS.flatMap(unit => unit.aliases.map(alias => [alias, unit] as const)));
+const unitsByCaseSensitiveAlias = new Map(UNITS.flatMap(unit => (unit.caseSensitiveAliases ?? []).map(alias => [alias, unit] as const)));
+
+/** Recognises a unit however it is written ("dl", "Desiliter", "tbsp.", "cucharadas"); null if unknown. */
+export function findUnit(unit: string | null | undefined): UnitDefinition | null {
+  const trimmed = (unit ?? "").trim().replace(/\.$/, "");
+  if (!trimmed) return null;
+  return unitsByCaseSensitiveAlias.get(trimmed) ?? unitsByAlias.get(trimmed.toLowerCase()) ?? null;
+}
+
+/** Returns the canonical id for a known unit, or the unit as written (trimmed, lowercased) otherwise. */
+export function normalizeUnit(unit: string | null | undefined): string {
+  return findUnit(unit)?.id ?? (unit ?? "").trim().toLowerCase();
+}
+
+export function formatUnit(unitId: string, language: LanguageCode): string {
+  return unitsById.get(unitId)?.labels[language] ?? unitId;
+}
+
+// Grams per millilitre for common ingredients, keyed by name in all three languages.
+const DENSITIES: Record<string, number> = {
+  flour: 0.53, mel: 0.6, harina: 0.53,
+  hvetemel: 0.6, rugmel: 0.6, speltmel: 0.6, byggmel: 0.6, grahamsmel: 0.6,
+  sugar: 0.85, sukker: 0.85, azucar: 0.85,
+  "icing sugar": 0.5, "powdered sugar": 0.5, melis: 0.5, "azucar glas": 0.5,
+  "brown sugar": 0.83, "brunt sukker": 0.83, "azucar moreno": 0.83,
+  butter: 0.96, smør: 0.96, mantequilla: 0.96,
+  water: 1, vann: 1, agua: 1,
+  milk: 1.03, melk: 1.03, leche: 1.03,
+  cream: 1, fløte: 1, nata: 1,
+  oil: 0.92, olje: 0.92, aceite: 0.92,
+  honey: 1.42, honning: 1.42, miel: 1.42,
+  rice: 0.85, ris: 0.85, arroz: 0.85,
+  oats: 0.35, havregryn: 0.35, avena: 0.35,
+  salt: 1.2, sal: 1.2,
+  cocoa: 0.45, kakao: 0.45, cacao: 0.45,
+  yogurt: 1.03, yoghurt: 1.03,
+};
+const densityKeys = Object.keys(DENSITIES).sort((a, b) => b.length - a.length);
+// Norwegian words that also head compounds ("kremfløte", "rapsolje"). Short heads like "mel"
+// end too many unrelated words ("caramel"), so those compounds are listed in full above.
+const COMPOUND_HEADS = new Set(["sukker", "smør", "melk", "fløte", "olje", "honning", "havregryn", "kakao", "yoghurt"]);
+
+/**
+ * Looks up the density (g/ml) of an ingredient by name. Matches whole words and, for
+ * Norwegian compounds like "kremfløte", word endings.
+ */
+export function lookupDensity(ingredientName: string): number | null {
+  const name = ingredientName.toLowerCase().normalize("NFD").replace(/\p{M}/gu, "").normalize("NFC");
+  const words = name.split(/[^\p{L}]+/u).filter(Boolean);
+  const key = densityKeys.find(candidate =>
+    candidate.includes(" ")
+      ? name.includes(candidate)
+      : words.some(word => word === candidate || (COMPOUND_HEADS.has(candidate) && word.endsWith(candidate)))
+  );
+  return key ? DENSITIES[key] : null;
+}
+
+// Units to pick from when converting, smallest first. `upTo` is the amount in the base
+// unit (ml or g) below which the unit is used; the last entry takes everything larger.
+const TARGET_UNITS: Record<UnitSystem, Record<"volume" | "weight", { id: string; upTo: number }[]>> = {
+  metric: {
+    volume: [{ id: "ts", upTo: 14 }, { id: "ss", upTo: 50 }, { id: "dl", upTo: 1000 }, { id: "l", upTo: Infinity }],
+    weight: [{ id: "g", upTo: 1000 }, { id: "kg", upTo: Infinity }],
+  },
+  us: {
+    volume: [{ id: "tsp", upTo: 14.7 }, { id: "tbsp", upTo: 59 }, { id: "cup", upTo: Infinity }],
+    weight: [{ id: "oz", upTo: 453 }, { id: "lb", upTo: Infinity }],
+  },
+};
+
+/** Picks the most readable unit of a system for an amount in millilitres or grams. */
+export const pickTargetUnit = (system: UnitSystem, kind: "volume" | "weight", baseAmount: number): UnitDefinition => {
+  const target = TARGET_UNITS[system][kind].find(candidate => baseAmount < candidate.upTo)!;
+  return unitsById.get(target.id)!;
+};
+
+const largestAmount = (quantity: ParsedQuantity) =>
+  quantity.kind === "range" ? quantity.max : quantity.kind === "number" ? quantity.value : 0;
+
+export interface ConvertedAmount {
+  quantity: string;
+  unit: string;
+  weight?: string; // Approximate weight, e.g. "120 g", when a volume could be weighed using a known density
+}
+
+/**
+ * Converts an ingredient amount to the given unit system for display. Amounts that are
+ * not numeric, use unknown or count units, or are already in the target system are
+ * returned unchanged (apart from the optional weight hint).
+ */
+export function convertAmount(
+  quantity: string,
+  unit: string,
+  ingredientName: string,
+  system: UnitSystem,
+  language: LanguageCode
+): ConvertedAmount {
+  const parsed = parseQuantity(quantity);
+  const definition = findUnit(unit);
+  if ((parsed.kind !== "number" && parsed.kind !== "range") || !definition || definition.kind === "count") {
+    return { quantity, unit };
+  }
+
+  const density = lookupDensity(ingredientName);
+  let kind: "volume" | "weight" = definition.kind;
+  let baseAmount = scaleParsedQuantity(parsed, definition.factor);
+  let result: ConvertedAmount = { quantity, unit };
+
+  // US cooks measure dry goods by volume, so weights become cups when we know the density.
+  if (system === "us" && kind === "weight" && density) {
+    baseAmount = scaleParsedQuantity(baseAmount, 1 / density);
+    kind = "volume";
+  }
+
+  if (definition.system !== system || kind !== definition.kind) {
+    const target = pickTargetUnit(system, kind, largestAmount(baseAmount));
+    result = {
+      quantity: formatParsedQuantity(scaleParsedQuantity(baseAmount, 1 / target.factor), { language, fractions: target.fractions }),
+      unit: target.labels[language],
+    };
+  }
+
+  if (definition.kind === "volume" && density) {
+    const grams = scaleParsedQuantity(scaleParsedQuantity(parsed, definition.factor), density);
+    const weightUnit = pickTargetUnit(system, "weight", largestAmount(grams));
+    const weight = formatParsedQuantity(scaleParsedQuantity(grams, 1 / weightUnit.factor), { language, fractions: weightUnit.fractions });
+    result.weight = `${weight} ${weightUnit.labels[language]}`;
+  }
+
+  return result;
+}
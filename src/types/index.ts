@@ -1,3 +1,4 @@
 export * from "./recipe";
 export * from "./user";
 export * from "./shopping";
+export * from "./planner";
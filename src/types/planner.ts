@@ -0,0 +1,23 @@
+import type { ServingsUnit } from "./recipe";
+
+export type MealSlot = "breakfast" | "lunch" | "dinner";
+
+export interface MealPlanEntry {
+  id: string;
+  day: number; // 0 = Monday ... 6 = Sunday
+  slot: MealSlot;
+  servings: number;
+  position: number;
+  recipe: {
+    id: string;
+    title: string;
+    imageUrl?: string | null;
+    servingsValue: number;
+    servingsUnit: ServingsUnit;
+  };
+}
+
+export interface MealPlanResponse {
+  weekStart: string; // Monday of the week as YYYY-MM-DD
+  entries: MealPlanEntry[];
+}
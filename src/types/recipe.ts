@@ -4,12 +4,15 @@ export interface Ingredient {
   name: string;
   quantity: string;
   unit: string;
+  position?: number; // Order within its group
+  foodId?: string; // Food table entry picked by hand for the nutrition calculator; unset to match by name
 }
 
 export interface IngredientGroup {
   id: string; // Persistent ID
   fieldId?: string; // Temporary ID for react-hook-form's useFieldArray key
   name: string;
+  position?: number; // Order within the recipe
   ingredients: Ingredient[];
 }
 
@@ -17,6 +20,7 @@ export interface InstructionStep {
   id: string; // Persistent ID
   fieldId?: string; // Temporary ID for react-hook-form's useFieldArray key
   text: string;
+  position?: number; // Order within the recipe
   isChecked: boolean; // For client-side interaction, not persisted
 }
 
@@ -24,6 +28,7 @@ export interface TipStep {
   id: string; // Persistent ID
   fieldId?: string; // Temporary ID for react-hook-form's useFieldArray key
   text: string;
+  position?: number; // Order within the recipe
   isChecked: boolean; // For client-side interaction, not persisted
 }
 
@@ -58,4 +63,119 @@ export interface Recipe {
   ratings?: Rating[]; // Updated to reflect API response as an array of Rating objects
   averageRating?: number; // Calculated average rating
   numRatings?: number; // Total number of ratings
+  nutrition?: RecipeNutrition | null; // Per serving; missing until worked out
+}
+
+export type NutrientKey = 'calories' | 'protein' | 'fat' | 'carbohydrates' | 'fiber' | 'salt';
+
+// Nutrition of one serving (or piece): kcal for calories, grams for the rest.
+export type RecipeNutrition = Record<NutrientKey, number> & {
+  estimated: boolean; // True when guessed by the AI rather than calculated
+  calculatedAt: string; // ISO date string
+};
+
+// A food of the nutrition calculator's food composition table.
+export interface FoodSummary {
+  id: string;
+  names: Record<'en' | 'no' | 'es', string>;
+}
+
+export type UnmatchedIngredientReason = 'no_food' | 'no_amount' | 'unknown_unit';
+
+// Nutrition calculated from the food table; only the matched ingredients count towards it.
+export interface CalculatedNutrition {
+  perServing: Record<NutrientKey, number>;
+  matched: { ingredientId?: string; name: string; food: FoodSummary; grams: number; chosen: boolean }[]; // chosen: picked by hand
+  unmatched: { ingredientId?: string; name: string; reason: UnmatchedIngredientReason; food?: FoodSummary }[];
+}
+
+// Lightweight projection returned by the recipe list endpoint for cards.
+export type RecipeSummary = Pick<
+  Recipe,
+  'id' | 'title' | 'description' | 'imageUrl' | 'isPublic' | 'createdBy' | 'servingsValue' | 'servingsUnit' | 'prepTime' | 'cookTime' | 'averageRating' | 'numRatings' | 'tags' | 'categories' | 'createdAt'
+> & {
+  snippet?: SearchSnippetPart[] | null; // Only set on search results
+};
+
+export interface SearchSnippetPart {
+  text: string;
+  match: boolean; // True when this part matched a search term
+}
+
+export type RecipeVisibilityFilter = 'all-viewable' | 'my-all' | 'my-public' | 'my-private' | 'community-public';
+
+// Narrows a bulk export of the user's own recipes; unset fields export everything.
+export interface RecipeExportFilters {
+  visibility?: Extract<RecipeVisibilityFilter, 'my-all' | 'my-public' | 'my-private'>;
+  tag?: string;
+  category?: string;
+}
+
+export type CookbookFormat = 'pdf' | 'epub';
+
+export interface CookbookExportOptions extends RecipeExportFilters {
+  title?: string;
+  recipeIds?: string[]; // A hand-picked selection; when empty, every recipe matching the filters
+}
+
+// A field the server rejected; `path` is dotted, e.g. "ingredientGroups.0.ingredients.2.name".
+export interface RecipeValidationIssue {
+  path: string;
+  message: string; // A translation key, or Zod's own message for malformed data
+}
+
+// Outcome of importing one recipe, reported back to the settings page.
+export interface RecipeImportResult {
+  title: string;
+  file?: string; // Path inside a backup archive
+  status: 'imported' | 'overwritten' | 'skipped' | 'failed';
+  message?: string;
+  issues?: RecipeValidationIssue[]; // Why an invalid recipe was not imported
+}
+
+// How an upload compares to the user's recipes before anything is imported.
+export type RecipeImportPreviewStatus = 'new' | 'duplicate-title' | 'duplicate-content' | 'invalid';
+
+// What to do with one recipe of an upload: "import" is for new recipes, the rest for duplicates.
+export type RecipeImportDecision = 'import' | 'skip' | 'overwrite' | 'copy';
+
+export interface RecipeImportPreviewItem {
+  index: number; // Position of the recipe in the upload, used as the key for decisions
+  title: string;
+  file?: string; // Path inside a backup archive
+  status: RecipeImportPreviewStatus;
+  issues?: RecipeValidationIssue[]; // Why an invalid recipe can't be imported
+  existingRecipeId?: string; // The recipe a duplicate matches
+  existingRecipeTitle?: string;
+}
+
+export interface RecipeImportPreviewResponse {
+  items: RecipeImportPreviewItem[];
+}
+
+export interface RecipeImportResponse {
+  message: string;
+  count: number;
+  skippedCount: number;
+  overwrittenCount: number;
+  failedCount: number;
+  ratingsRestored?: number; // Only set for backup archives
+  results: RecipeImportResult[];
+}
+
+export type RecipeSort = 'newest' | 'oldest' | 'title' | 'rating';
+
+export interface RecipeListResponse {
+  recipes: RecipeSummary[];
+  total: number;
+  nextCursor: string | null;
+}
+
+export interface ShareToken {
+  id: string;
+  token: string;
+  recipeId: string;
+  sharedBy: string; // User ID
+  expiresAt: string; // ISO date string
+  createdAt: string; // ISO date string
 }
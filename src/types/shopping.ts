@@ -1,9 +1,25 @@
 export interface ShoppingListItem {
   id: string; // Unique ID for the shopping list item itself
-  recipeId?: string; // Optional: ID of the recipe it came from
-  recipeTitle?: string; // Optional: Title of the recipe
+  recipeId?: string | null; // Optional: ID of the recipe it came from
+  recipeTitle?: string | null; // Optional: Title of the recipe
   name: string;
   quantity: string;
   unit: string;
   isChecked: boolean; // For users to mark as acquired
+  position?: number;
 }
+
+export type NewShoppingListItem = Omit<ShoppingListItem, "id" | "isChecked">;
+
+export interface ShoppingListResponse {
+  id: string;
+  items: ShoppingListItem[];
+  updatedAt: string; // ISO date string
+}
+
+// A change made on this device that has not reached the server yet.
+export type PendingShoppingListOperation =
+  | { type: "add"; items: ShoppingListItem[] }
+  | { type: "update"; id: string; changes: Partial<Pick<ShoppingListItem, "name" | "quantity" | "unit" | "isChecked">> }
+  | { type: "remove"; id: string }
+  | { type: "clear" };
@@ -6,4 +6,7 @@ export interface User {
   isApproved?: boolean; // New field for approval status
   roles?: string[]; // Optional: for future role-based access
   theme?: string; // Add theme preference
+  unitSystem?: UnitDisplayPreference; // How ingredient units are displayed
 }
+
+export type UnitDisplayPreference = 'original' | 'metric' | 'us'; // "original" shows units as the recipe was written